@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { setConfig, clearConfig } from "../lib/config.js";
-import { ItxClient } from "../lib/client.js";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { setConfig, clearConfig, getConfig } from "../lib/config.js";
+import { ItxClient, setRequestDefaults, resetRequestDefaults } from "../lib/client.js";
+import { ItxApiError, ItxAuthError } from "../lib/errors.js";
 
 beforeEach(() => {
   setConfig({
@@ -169,6 +172,48 @@ describe("ItxClient", () => {
       );
     });
 
+    it("throws ItxApiError carrying the exchange details", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue({
+          ok: false,
+          status: 500,
+          statusText: "Internal Server Error",
+          headers: new Headers({ "x-request-id": "req-77" }),
+          text: async () => "boom",
+        }),
+      );
+
+      const err = await new ItxClient().request("/rest/broken", { method: "POST", body: {} }).catch((e) => e);
+      expect(err).toBeInstanceOf(ItxApiError);
+      expect(err).toMatchObject({
+        status: 500,
+        method: "POST",
+        path: "/rest/broken",
+        body: "boom",
+        requestId: "req-77",
+        retryable: false,
+      });
+    });
+
+    it("throws ItxAuthError on 401", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue({
+          ok: false,
+          status: 401,
+          statusText: "Unauthorized",
+          headers: new Headers(),
+          text: async () => "token expired",
+        }),
+      );
+
+      const err = (await new ItxClient().request("/rest/x").catch((e) => e)) as ItxAuthError;
+      expect(err).toBeInstanceOf(ItxAuthError);
+      expect(err.status).toBe(401);
+      expect(err.message).toMatch(/^Not authenticated/);
+    });
+
     it("returns text when content-type is not JSON", async () => {
       vi.stubGlobal(
         "fetch",
@@ -183,6 +228,61 @@ describe("ItxClient", () => {
       const result = await client.request("/rest/text");
       expect(result).toBe("plain response");
     });
+
+    it("returns the raw bytes for a file download", async () => {
+      const bytes = Uint8Array.from([0xff, 0xd8, 0x00, 0x7f]);
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers({ "content-type": "image/jpeg" }),
+        arrayBuffer: async () => bytes.buffer,
+      });
+      vi.stubGlobal("fetch", mockFetch);
+
+      const client = new ItxClient();
+      const file = await client.downloadFile(3001);
+      expect(file).toEqual(Buffer.from(bytes));
+      expect(mockFetch.mock.calls[0][0]).toContain("/rest/core/files?");
+      expect(mockFetch.mock.calls[0][0]).toContain("cfreId=3001");
+    });
+  });
+
+  describe("iterateEntities", () => {
+    function page(n: number, from: number) {
+      return {
+        ok: true,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: async () => Array.from({ length: n }, (_, i) => ({ emenId: from + i })),
+      };
+    }
+
+    it("walks limitFrom/limitTo until a short page", async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(page(1000, 0))
+        .mockResolvedValueOnce(page(3, 1000));
+      vi.stubGlobal("fetch", mockFetch);
+
+      const seen: unknown[] = [];
+      for await (const e of new ItxClient().iterateEntities({ active: true })) {
+        seen.push(e);
+      }
+
+      expect(seen).toHaveLength(1003);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toContain("limitFrom=1000");
+      expect(mockFetch.mock.calls[1][0]).toContain("limitTo=1000");
+    });
+
+    it("stops fetching when the consumer breaks early", async () => {
+      const mockFetch = vi.fn().mockResolvedValue(page(2, 0));
+      vi.stubGlobal("fetch", mockFetch);
+
+      for await (const e of new ItxClient().iterateEntities({}, { pageSize: 2 })) {
+        if ((e as { emenId: number }).emenId === 0) break;
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("getActiveUser", () => {
@@ -203,3 +303,154 @@ describe("ItxClient", () => {
     });
   });
 });
+
+describe("retries and timeouts (local server)", () => {
+  type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+  const servers: Server[] = [];
+
+  /** Start a throwaway HTTP server; resolves to its base URL. */
+  async function serve(handler: Handler): Promise<string> {
+    const server = createServer(handler);
+    servers.push(server);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  function json(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { "content-type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+  }
+
+  beforeEach(() => {
+    vi.unstubAllGlobals(); // real fetch
+  });
+
+  afterEach(async () => {
+    resetRequestDefaults();
+    await Promise.all(
+      servers.splice(0).map((s) => new Promise((resolve) => s.close(resolve))),
+    );
+  });
+
+  function clientFor(endpoint: string, policy = {}) {
+    setConfig({ ssoEndpoint: endpoint, activeEndpoint: endpoint });
+    return new ItxClient(undefined, undefined, { baseDelayMs: 1, ...policy });
+  }
+
+  it("retries 503 and 429 until the call succeeds", async () => {
+    const statuses = [503, 429, 200];
+    let calls = 0;
+    const url = await serve((_req, res) => {
+      const status = statuses[calls++];
+      json(res, status, status === 200 ? { ok: 1 } : { error: "busy" });
+    });
+
+    await expect(clientFor(url).request("/rest/x")).resolves.toEqual({ ok: 1 });
+    expect(calls).toBe(3);
+  });
+
+  it("honours Retry-After", async () => {
+    const seen: number[] = [];
+    const url = await serve((_req, res) => {
+      seen.push(Date.now());
+      if (seen.length === 1) json(res, 429, {}, { "retry-after": "1" });
+      else json(res, 200, []);
+    });
+
+    await clientFor(url).request("/rest/x");
+    expect(seen[1] - seen[0]).toBeGreaterThanOrEqual(900);
+  });
+
+  it("gives up after --retries and surfaces the last status", async () => {
+    let calls = 0;
+    const url = await serve((_req, res) => {
+      calls++;
+      json(res, 502, { error: "bad gateway" });
+    });
+    setRequestDefaults({ retries: 2 });
+
+    await expect(clientFor(url).request("/rest/x")).rejects.toThrow(/^API error 502/);
+    expect(calls).toBe(3);
+  });
+
+  it("does not retry other errors", async () => {
+    let calls = 0;
+    const url = await serve((_req, res) => {
+      calls++;
+      json(res, 500, { error: "boom" });
+    });
+
+    await expect(clientFor(url).request("/rest/x")).rejects.toThrow(/^API error 500/);
+    expect(calls).toBe(1);
+  });
+
+  it("retries a connection reset", async () => {
+    let calls = 0;
+    const url = await serve((req, res) => {
+      if (calls++ === 0) req.socket.destroy();
+      else json(res, 200, { ok: 1 });
+    });
+
+    await expect(clientFor(url).request("/rest/x")).resolves.toEqual({ ok: 1 });
+    expect(calls).toBe(2);
+  });
+
+  it("does not repeat a write that got a 502 or a connection reset", async () => {
+    let calls = 0;
+    const url = await serve((req, res) => {
+      calls++;
+      if (req.url!.startsWith("/rest/reset")) req.socket.destroy();
+      else json(res, 502, { error: "bad gateway" });
+    });
+    const client = clientFor(url);
+
+    const err = await client.request("/rest/x", { method: "POST", body: {} }).catch((e) => e);
+    expect(err).toBeInstanceOf(ItxApiError);
+    expect(err).toMatchObject({ status: 502, method: "POST", retryable: false });
+    expect(calls).toBe(1);
+
+    await expect(client.request("/rest/reset", { method: "PUT", body: {} })).rejects.toThrow(
+      /^API error: PUT \/rest\/reset failed/,
+    );
+    expect(calls).toBe(2);
+  });
+
+  it("retries a write on 429", async () => {
+    const statuses = [429, 200];
+    let calls = 0;
+    const url = await serve((_req, res) => {
+      const status = statuses[calls++];
+      json(res, status, status === 200 ? { ok: 1 } : { error: "slow down" });
+    });
+
+    await expect(clientFor(url).request("/rest/x", { method: "POST", body: {} })).resolves.toEqual({ ok: 1 });
+    expect(calls).toBe(2);
+  });
+
+  it("times out a slow request", async () => {
+    const url = await serve((_req, res) => {
+      setTimeout(() => json(res, 200, {}), 500);
+    });
+
+    await expect(clientFor(url, { timeoutMs: 50 }).request("/rest/x")).rejects.toThrow(
+      "API error: GET /rest/x timed out after 50ms",
+    );
+  });
+
+  it("re-resolves the endpoint when the cached node is gone", async () => {
+    const node2 = await serve((_req, res) => json(res, 200, { node: 2 }));
+    const sso = await serve((req, res) => {
+      expect(req.url).toContain("/rest/api/state");
+      json(res, 200, { endpoint: node2 });
+    });
+    // A node that has left the cluster: nothing listens there any more.
+    const dead = await serve(() => {});
+    await new Promise((resolve) => servers.pop()!.close(resolve));
+
+    setConfig({ ssoEndpoint: sso, activeEndpoint: dead });
+    const client = new ItxClient(undefined, undefined, { baseDelayMs: 1 });
+
+    await expect(client.request("/rest/x")).resolves.toEqual({ node: 2 });
+    expect(getConfig().activeEndpoint).toBe(node2);
+  });
+});
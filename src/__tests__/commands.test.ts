@@ -1,4 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
 import { Command } from "commander";
 import {
   setConfig,
@@ -6,14 +10,25 @@ import {
   getConfig,
   getAliases,
   setAlias,
+  getActiveProfile,
+  setProfileOverride,
+  listProfiles,
+  getTemplates,
+  setTemplate,
+  migrateSecrets,
 } from "../lib/config.js";
 import { registerConfigCommands, parseApiKey } from "../commands/config.js";
 import { registerTicketCommands, ROLES } from "../commands/ticket.js";
 import { registerUserCommands } from "../commands/user.js";
 import { registerAliasCommands } from "../commands/alias.js";
+import { registerProfileCommands } from "../commands/profile.js";
+import { clearRefdataCache } from "../lib/refdata.js";
+import { COMMAND_FIELDS } from "../lib/schemas.js";
+import { ALL_FIELDS } from "./helpers.js";
 
 afterEach(() => {
   clearConfig();
+  clearRefdataCache();
   vi.restoreAllMocks();
 });
 
@@ -71,7 +86,28 @@ describe("config commands", () => {
     expect(output).toContain("abcdefghijklmnop");
   });
 
-  it("logout removes all config", async () => {
+  it("config migrate-secrets --to file hides tokens from config show", async () => {
+    vi.stubEnv("ITX_SECRET_PASSPHRASE", "hunter2");
+    setConfig({ ssoEndpoint: "https://sso.test.com", tokenv2: "abcdefghijklmnop" });
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    let program = createProgram();
+    registerConfigCommands(program);
+    await program.parseAsync(["node", "itx", "config", "migrate-secrets", "--to", "file"]);
+
+    spy.mockClear();
+    program = createProgram();
+    registerConfigCommands(program);
+    await program.parseAsync(["node", "itx", "config", "show"]);
+
+    const output = spy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("tokenv2:         (in file store)");
+    expect(output).toContain("Secrets:         file");
+    expect(getConfig().tokenv2).toBe("abcdefghijklmnop");
+    vi.unstubAllEnvs();
+  });
+
+  it("logout removes the current profile's config", async () => {
     setConfig({ ssoEndpoint: "https://sso.test.com", tokenv2: "tok" });
 
     const program = createProgram();
@@ -84,6 +120,168 @@ describe("config commands", () => {
     expect(c.ssoEndpoint).toBe("");
     expect(c.tokenv2).toBe("");
   });
+
+  it("logout --all removes every profile", async () => {
+    setConfig({ ssoEndpoint: "https://sso.test.com", tokenv2: "tok" });
+    setConfig({ ssoEndpoint: "https://sso.acme.com", tokenv2: "acme-tok" }, "acme");
+
+    const program = createProgram();
+    registerConfigCommands(program);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await program.parseAsync(["node", "itx", "logout", "--all"]);
+
+    expect(listProfiles()).toEqual([]);
+    expect(getConfig("acme").tokenv2).toBe("");
+  });
+});
+
+describe("login", () => {
+  afterEach(() => {
+    setProfileOverride(undefined);
+    vi.unstubAllEnvs();
+  });
+
+  function loginProgram(): Command {
+    const program = createProgram();
+    registerProfileCommands(program);
+    registerConfigCommands(program);
+    registerTicketCommands(program);
+    return program;
+  }
+
+  /** SSO state → node endpoint, then the active user. */
+  function ssoFetch() {
+    return vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ endpoint: "https://node1.test.com/" }) })
+      .mockResolvedValueOnce(jsonResponse({ userId: 7, firstName: "Alice", lastName: "Smith" }));
+  }
+
+  it("--api-key verifies the key, then saves it with the resolved endpoint", async () => {
+    const mockFetch = ssoFetch();
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await loginProgram().parseAsync([
+      "node", "itx", "login", "--api-key", "?tokenv2=tok&rcntrl=1&ccntrl=2",
+      "--sso-endpoint", "https://sso.acme.com/", "--profile", "acme", "--json",
+    ]);
+
+    expect(mockFetch.mock.calls[0][0]).toContain("https://sso.acme.com/rest/api/state?tokenv2=tok");
+    expect(mockFetch.mock.calls[1][0]).toContain("https://node1.test.com/rest/core/activeuser");
+    expect(getConfig("acme")).toMatchObject({
+      ssoEndpoint: "https://sso.acme.com",
+      activeEndpoint: "https://node1.test.com",
+      tokenv2: "tok",
+      rcntrl: "1",
+      ccntrl: "2",
+    });
+    // First configured profile becomes the default one
+    expect(getActiveProfile()).toBe("acme");
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data).toMatchObject({ profile: "acme", endpoint: "https://node1.test.com", user: { userId: 7 } });
+  });
+
+  it("--api-key-stdin reads the key from stdin", async () => {
+    vi.stubGlobal("fetch", ssoFetch());
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(process, "stdin", "get").mockReturnValue(
+      Readable.from([Buffer.from("?tokenv2=piped&rcntrl=1&ccntrl=2\n")]) as unknown as typeof process.stdin,
+    );
+
+    await loginProgram().parseAsync(["node", "itx", "login", "--api-key-stdin"]);
+
+    expect(getConfig().tokenv2).toBe("piped");
+    expect(getConfig().ssoEndpoint).toBe("https://app.itxuc.com");
+  });
+
+  it("refuses to save a key the API rejects and exits AUTH", async () => {
+    setConfig({ ssoEndpoint: "https://sso.test.com", tokenv2: "old-token" });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({ ok: false, status: 401, statusText: "Unauthorized", text: async () => "" }),
+    );
+    const errSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await loginProgram()
+      .parseAsync(["node", "itx", "login", "--api-key", "tokenv2=bad"])
+      .catch(() => {});
+
+    expect(exitSpy).toHaveBeenCalledWith(5);
+    expect(errSpy.mock.calls[0][0]).toContain("Login failed");
+    expect(getConfig().tokenv2).toBe("old-token");
+  });
+
+  it("exits AUTH with a clean message when the secret store can't be unlocked to save", async () => {
+    vi.stubEnv("ITX_SECRET_PASSPHRASE", "hunter2");
+    setConfig({ ssoEndpoint: "https://sso.test.com", tokenv2: "old-token" });
+    migrateSecrets("file");
+    vi.stubEnv("ITX_SECRET_PASSPHRASE", "");
+    vi.stubGlobal("fetch", ssoFetch());
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await loginProgram()
+      .parseAsync(["node", "itx", "login", "--api-key", "?tokenv2=tok&rcntrl=1&ccntrl=2", "--json"])
+      .catch(() => {});
+
+    expect(exitSpy).toHaveBeenCalledWith(5);
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.error).toMatchObject({ code: "AUTH", message: expect.stringMatching(/^Not authenticated: credentials are encrypted/) });
+    vi.stubEnv("ITX_SECRET_PASSPHRASE", "hunter2");
+    expect(getConfig().tokenv2).toBe("old-token");
+  });
+
+  it("rejects a malformed key with USAGE", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await loginProgram()
+      .parseAsync(["node", "itx", "login", "--api-key", "rcntrl=1"])
+      .catch(() => {});
+
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it("ITX_API_KEY bypasses stored config and never writes the endpoint back", async () => {
+    setConfig({ ssoEndpoint: "https://sso.test.com", activeEndpoint: "https://stored.test.com", tokenv2: "stored" });
+    vi.stubEnv("ITX_API_KEY", "?tokenv2=env-token&rcntrl=9&ccntrl=8");
+    vi.stubEnv("ITX_SSO_ENDPOINT", "https://sso.env.com");
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ endpoint: "https://node9.env.com" }) })
+      .mockResolvedValue(jsonResponse([]));
+    vi.stubGlobal("fetch", mockFetch);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await loginProgram().parseAsync(["node", "itx", "ticket", "list", "--json", ALL_FIELDS["ticket list"]]);
+
+    expect(mockFetch.mock.calls[0][0]).toContain("https://sso.env.com/rest/api/state?tokenv2=env-token");
+    expect(mockFetch.mock.calls[1][0]).toContain("https://node9.env.com/");
+    expect(getConfig()).toMatchObject({ activeEndpoint: "https://stored.test.com", tokenv2: "stored" });
+  });
+
+  it("exits AUTH when ITX_API_KEY is malformed", async () => {
+    vi.stubEnv("ITX_API_KEY", "garbage");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await loginProgram()
+      .parseAsync(["node", "itx", "ticket", "list"])
+      .catch(() => {});
+
+    expect(exitSpy).toHaveBeenCalledWith(5);
+  });
 });
 
 describe("parseApiKey", () => {
@@ -143,60 +341,154 @@ describe("ticket commands", () => {
     expect(ROLES.CONTACT_PERSON).toBe(20);
   });
 
-  it("ticket list calls the API with correct params and outputs table", async () => {
-    const mockFetch = vi.fn().mockResolvedValue(
-      jsonResponse([
-        {
-          seqNo: 1,
-          description: "Bug report",
-          emsStatus: { name: { defaultText: "Open" } },
-          creationTs: "2025-01-01T00:00:00Z",
-        },
-        {
-          seqNo: 2,
-          description: "Feature req",
-          emsStatus: { name: { defaultText: "Closed" } },
-          creationTs: "2025-01-02T00:00:00Z",
-        },
-      ]),
-    );
+  it("ticket list calls cases/search with correct params and outputs table", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([{ emstId: 1, internalStatus: 1, name: { defaultText: "Open" } }]))
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(
+        jsonResponse([
+          {
+            seqNo: 1,
+            description: "Bug report",
+            emsStatus: { emstId: 1 },
+            creationTs: "2025-01-01T00:00:00Z",
+          },
+          {
+            seqNo: 2,
+            description: "Feature req",
+            emsStatus: { emstId: 1 },
+            creationTs: "2025-01-02T00:00:00Z",
+          },
+        ]),
+      );
     vi.stubGlobal("fetch", mockFetch);
-    vi.spyOn(console, "log").mockImplementation(() => {});
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
 
     const program = createProgram();
     registerTicketCommands(program);
 
     await program.parseAsync(["node", "itx", "ticket", "list", "-l", "10", "-o", "5"]);
 
-    const calledUrl = mockFetch.mock.calls[0][0] as string;
-    expect(calledUrl).toContain("/rest/itxems/cases");
-    expect(calledUrl).toContain("getMembers=true");
+    const [calledUrl, init] = mockFetch.mock.calls[3];
+    expect(calledUrl).toContain("/rest/itxems/cases/search");
     expect(calledUrl).toContain("limitFrom=5");
     expect(calledUrl).toContain("limitTo=10");
+    expect(JSON.parse(init.body as string)).toEqual({ getMembers: true });
+
+    const output = spy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("Bug report");
+    expect(output).toContain("Open");
   });
 
-  it("ticket list --json wraps in envelope with pagination", async () => {
-    const responseData = [
-      { seqNo: 1, description: "Test" },
-    ];
-    vi.stubGlobal(
-      "fetch",
-      vi.fn().mockResolvedValue(jsonResponse(responseData)),
-    );
+  it("ticket list --json emits TicketView rows with pagination", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse([{ seqNo: 1, eactId: 11, description: "Test" }]));
+    vi.stubGlobal("fetch", mockFetch);
     const spy = vi.spyOn(console, "log").mockImplementation(() => {});
 
     const program = createProgram();
     registerTicketCommands(program);
 
-    await program.parseAsync(["node", "itx", "ticket", "list", "--json"]);
+    await program.parseAsync(["node", "itx", "ticket", "list", "--json", ALL_FIELDS["ticket list"]]);
 
     const env = JSON.parse(spy.mock.calls[0][0] as string);
     expect(env.ok).toBe(true);
-    expect(env.data).toEqual(responseData);
+    expect(env.data).toHaveLength(1);
+    expect(env.data[0].seqNo).toBe(1);
+    expect(env.data[0].subject).toBe("Test");
+    expect(env.data[0].status).toEqual({ id: null, name: "" });
+    expect(env.data[0].members).toEqual([]);
+    expect(env.data[0].customer).toBeNull();
     expect(env.pagination).toBeDefined();
     expect(env.pagination.offset).toBe(0);
   });
 
+  it("ticket list filters by status, assignee and priority, sorted", async () => {
+    const statuses = [
+      { emstId: 1, internalStatus: 1, name: { defaultText: "Open" } },
+      { emstId: 2, internalStatus: 3, name: { defaultText: "Closed" } },
+    ];
+    const priorities = [
+      { empriId: 10, sort: 2, name: { defaultText: "Normal" } },
+      { empriId: 11, sort: 1, name: { defaultText: "Critical" } },
+    ];
+    const me = { role: 1, user: { userId: 7, firstName: "Me", lastName: "Myself" } };
+    const cases = [
+      { seqNo: 1, emsStatus: { emstId: 1 }, priority: { empriId: 11 }, members: [me], updateTs: "2026-04-01T00:00:00Z" },
+      { seqNo: 2, emsStatus: { emstId: 2 }, priority: { empriId: 11 }, members: [me], updateTs: "2026-04-02T00:00:00Z" },
+      { seqNo: 3, emsStatus: { emstId: 1 }, priority: { empriId: 10 }, members: [me], updateTs: "2026-04-03T00:00:00Z" },
+      { seqNo: 4, emsStatus: { emstId: 1 }, priority: { empriId: 11 }, members: [], updateTs: "2026-04-04T00:00:00Z" },
+      { seqNo: 5, emsStatus: { emstId: 1 }, priority: { empriId: 11 }, members: [me], updateTs: "2026-04-05T00:00:00Z" },
+    ];
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(statuses))
+      .mockResolvedValueOnce(jsonResponse(priorities))
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse({ userId: 7 }))  // activeuser
+      .mockResolvedValueOnce(jsonResponse(cases));         // cases/search (short page)
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program.parseAsync([
+      "node", "itx", "ticket", "list",
+      "--status", "open", "--assignee", "me", "--priority", "crit",
+      "--sort", "updated", "--json", ALL_FIELDS["ticket list"],
+    ]);
+
+    expect(mockFetch.mock.calls[3][0]).toContain("/rest/core/activeuser");
+    expect(mockFetch.mock.calls[4][0]).toContain("limitFrom=0");
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data.map((t: { seqNo: number }) => t.seqNo)).toEqual([5, 1]);
+    expect(env.data[0].assignedUser).toEqual({ userId: 7, name: "Me Myself" });
+    expect(env.pagination).toEqual({ limit: 25, offset: 0, total: 2, hasMore: false });
+  });
+
+  it("ticket list --until with a bare date includes tickets updated during that day", async () => {
+    const cases = [
+      { seqNo: 1, updateTs: "2026-01-30T23:59:59Z" },
+      { seqNo: 2, updateTs: "2026-01-31T12:00:00Z" },
+      { seqNo: 3, updateTs: "2026-02-01T00:00:00Z" },
+    ];
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse(cases));
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+    await program.parseAsync([
+      "node", "itx", "ticket", "list", "--since", "2026-01-31", "--until", "2026-01-31", "--json", "seqNo",
+    ]);
+
+    expect(JSON.parse(spy.mock.calls[0][0] as string).data).toEqual([{ seqNo: 2 }]);
+  });
+
+  it("ticket list rejects an invalid --sort", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program
+      .parseAsync(["node", "itx", "ticket", "list", "--sort", "colour"])
+      .catch(() => {});
+
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
   it("ticket view fetches a single ticket", async () => {
     const ticketData = [
       {
@@ -242,9 +534,214 @@ describe("ticket commands", () => {
     expect(output).toContain("(external)");
   });
 
+  it("ticket view --json emits a TicketView with members and linked customer", async () => {
+    const ticketData = [
+      {
+        seqNo: 42,
+        eactId: 420,
+        description: "Server issue",
+        emsStatus: { emstId: 1, name: { defaultText: "Open" } },
+        priority: { empriId: 2, name: { translations: { en: { translatedText: "High" } } } },
+        category: { emcaId: 3, name: { defaultText: "Dev" } },
+        creationTs: "2025-01-01T00:00:00Z",
+        updateTs: "2025-01-02T00:00:00Z",
+        someNewField: { nested: true },
+        members: [
+          { role: 1, user: { userId: 7, firstName: "Alice", lastName: "Smith" } },
+          {
+            role: 20,
+            anon: true,
+            entityExtension: {
+              eeexId: 900,
+              seqNo: 10058,
+              extType: 10,
+              entity: { emenId: 500, name1: "Wright Electrical" },
+            },
+          },
+        ],
+      },
+    ];
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(jsonResponse(ticketData)));
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program.parseAsync(["node", "itx", "ticket", "view", "42", "--json", ALL_FIELDS["ticket view"]]);
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data).toEqual({
+      seqNo: 42,
+      eactId: 420,
+      subject: "Server issue",
+      status: { id: 1, name: "Open" },
+      priority: { id: 2, name: "High" },
+      category: { id: 3, name: "Dev" },
+      creationTs: "2025-01-01T00:00:00Z",
+      updateTs: "2025-01-02T00:00:00Z",
+      assignedUser: { userId: 7, name: "Alice Smith" },
+      members: [
+        { role: "assignee", roleId: 1, userId: 7, name: "Alice Smith", external: false },
+        { role: "contact", roleId: 20, userId: null, name: "Wright Electrical", external: true },
+      ],
+      customer: {
+        emenId: 500,
+        eeexId: 900,
+        seqNo: 10058,
+        name1: "Wright Electrical",
+        name2: null,
+        role: "customer",
+      },
+    });
+  });
+
+  it("ticket view --raw emits the unprojected payload", async () => {
+    const ticketData = [{ seqNo: 42, description: "Server issue", someNewField: 1 }];
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(jsonResponse(ticketData)));
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program.parseAsync(["node", "itx", "ticket", "view", "42", "--raw"]);
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data).toEqual(ticketData[0]);
+  });
+
+  it("ticket view with bare --json lists the available fields", async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program
+      .parseAsync(["node", "itx", "ticket", "view", "42", "--json"])
+      .catch(() => {});
+
+    expect(spy.mock.calls.map((c) => c[0])).toEqual(COMMAND_FIELDS["ticket view"]);
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("write commands with bare --json list the fields and exit USAGE instead of succeeding", async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program
+      .parseAsync(["node", "itx", "ticket", "update", "42", "--status", "closed", "--json"])
+      .catch(() => {});
+
+    expect(spy.mock.calls.map((c) => c[0])).toEqual(COMMAND_FIELDS["ticket update"]);
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("ticket list --json <fields> projects each row", async () => {
+    vi.stubGlobal("fetch", vi.fn()
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse([{ seqNo: 1, eactId: 11, description: "Test" }])));
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program.parseAsync(["node", "itx", "ticket", "list", "--json", "seqNo,subject"]);
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data).toEqual([{ seqNo: 1, subject: "Test" }]);
+    expect(env.pagination.limit).toBe(25);
+  });
+
+  it("ticket view --json rejects unknown fields", async () => {
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program
+      .parseAsync(["node", "itx", "ticket", "view", "42", "--json", "seqNo,colour"])
+      .catch(() => {});
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.error.code).toBe("USAGE");
+    expect(env.error.message).toBe("Unknown JSON field: colour");
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it("ticket view --jq filters the envelope in-process", async () => {
+    const ticketData = [{ seqNo: 42, description: "Server issue", members: [] }];
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(jsonResponse(ticketData)));
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program.parseAsync([
+      "node", "itx", "ticket", "view", "42", "--jq", '"#\\(.data.seqNo) \\(.data.subject)", .ok',
+    ]);
+
+    expect(spy.mock.calls.map((c) => c[0])).toEqual(["#42 Server issue", "true"]);
+  });
+
+  it("ticket view exits USAGE on an invalid --jq expression", async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program
+      .parseAsync(["node", "itx", "ticket", "view", "42", "--jq", ".data | frobnicate"])
+      .catch(() => {});
+
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("ticket create rejects a --jq builtin with the wrong arity before creating anything", async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program
+      .parseAsync(["node", "itx", "ticket", "create", "New ticket", "--jq", ".data | map"])
+      .catch(() => {});
+
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
   it("ticket create with positional subject sends POST", async () => {
     const mockFetch = vi.fn().mockResolvedValue(
-      jsonResponse({ seqNo: 99 }),
+      jsonResponse({ seqNo: 99, eactId: 9900 }),
     );
     vi.stubGlobal("fetch", mockFetch);
     vi.spyOn(console, "log").mockImplementation(() => {});
@@ -270,7 +767,7 @@ describe("ticket commands", () => {
 
   it("ticket create with -s flag sends POST (backward compat)", async () => {
     const mockFetch = vi.fn().mockResolvedValue(
-      jsonResponse({ seqNo: 99 }),
+      jsonResponse({ seqNo: 99, eactId: 9900 }),
     );
     vi.stubGlobal("fetch", mockFetch);
     vi.spyOn(console, "log").mockImplementation(() => {});
@@ -295,12 +792,37 @@ describe("ticket commands", () => {
     expect(body.description).toBe("New ticket");
   });
 
-  it("ticket update sends PUT with fields", async () => {
-    const mockFetch = vi.fn().mockResolvedValue(
-      jsonResponse({ seqNo: 42 }),
-    );
+  const refStatuses = [
+    { emstId: 1, internalStatus: 1, name: { defaultText: "Open" } },
+    { emstId: 2, internalStatus: 3, name: { defaultText: "Resolved" } },
+    { emstId: 3, internalStatus: 3, name: { defaultText: "Rejected" } },
+  ];
+  const refPriorities = [
+    { empriId: 10, name: { defaultText: "Normal" } },
+    { empriId: 11, name: { defaultText: "Critical" } },
+  ];
+  const refCategories = [
+    { emcaId: 100, name: { defaultText: "Support" } },
+    { emcaId: 101, name: { defaultText: "Billing" } },
+  ];
+  const currentCase = {
+    eactId: 4200,
+    seqNo: 42,
+    description: "Old subject",
+    emsStatus: { emstId: 1 },
+    priority: { empriId: 10 },
+    category: { emcaId: 100 },
+  };
+
+  it("ticket update resolves names to ids and sends PUT", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([currentCase]))   // GET current case
+      .mockResolvedValueOnce(jsonResponse(refStatuses))     // refdata
+      .mockResolvedValueOnce(jsonResponse(refPriorities))
+      .mockResolvedValueOnce(jsonResponse(refCategories))
+      .mockResolvedValueOnce(jsonResponse({ seqNo: 42 }));  // PUT
     vi.stubGlobal("fetch", mockFetch);
-    vi.spyOn(console, "log").mockImplementation(() => {});
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
 
     const program = createProgram();
     registerTicketCommands(program);
@@ -315,16 +837,106 @@ describe("ticket commands", () => {
       "Updated subject",
       "--status",
       "resolved",
+      "--priority",
+      "crit",
+      "--category",
+      "101",
     ]);
 
-    const [url, opts] = mockFetch.mock.calls[0];
+    const [url, opts] = mockFetch.mock.calls[4];
     expect(url).toContain("/rest/itxems/cases");
     expect(opts.method).toBe("PUT");
 
     const body = JSON.parse(opts.body as string);
     expect(body.seqNo).toBe(42);
     expect(body.description).toBe("Updated subject");
-    expect(body.status).toBe("resolved");
+    expect(body.emsStatus).toEqual({ emstId: 2 });
+    expect(body.priority).toEqual({ empriId: 11 });
+    expect(body.category).toEqual({ emcaId: 101 });
+
+    const output = spy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("Open \u2192 Resolved");
+    expect(output).toContain("Normal \u2192 Critical");
+    expect(output).toContain("Support \u2192 Billing");
+  });
+
+  it("ticket update --json reports only changed fields", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([currentCase]))
+      .mockResolvedValueOnce(jsonResponse(refStatuses))
+      .mockResolvedValueOnce(jsonResponse(refPriorities))
+      .mockResolvedValueOnce(jsonResponse(refCategories))
+      .mockResolvedValueOnce(jsonResponse({ seqNo: 42 }));
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program.parseAsync([
+      "node", "itx", "ticket", "update", "42",
+      "--status", "OPEN", "--priority", "critical", "--json", ALL_FIELDS["ticket update"],
+    ]);
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.ok).toBe(true);
+    expect(env.data).toEqual({
+      seqNo: 42,
+      eactId: 4200,
+      changes: [{ field: "priority", before: "Normal", after: "Critical" }],
+    });
+  });
+
+  it("ticket update exits AMBIGUOUS when a status prefix matches several", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([currentCase]))
+      .mockResolvedValueOnce(jsonResponse(refStatuses))
+      .mockResolvedValueOnce(jsonResponse(refPriorities))
+      .mockResolvedValueOnce(jsonResponse(refCategories));
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program
+      .parseAsync(["node", "itx", "ticket", "update", "42", "--status", "re", "--json", ALL_FIELDS["ticket update"]])
+      .catch(() => {});
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.error.code).toBe("AMBIGUOUS");
+    expect(env.error.message).toContain("Resolved");
+    expect(env.error.message).toContain("Rejected");
+    expect(env.error.candidates.map((c: { name: string }) => c.name).sort()).toEqual(["Rejected", "Resolved"]);
+    expect(exitSpy).toHaveBeenCalledWith(4);
+    // Nothing was written.
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("ticket update exits NOT_FOUND for an unknown category", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([currentCase]))
+      .mockResolvedValueOnce(jsonResponse(refStatuses))
+      .mockResolvedValueOnce(jsonResponse(refPriorities))
+      .mockResolvedValueOnce(jsonResponse(refCategories));
+    vi.stubGlobal("fetch", mockFetch);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program
+      .parseAsync(["node", "itx", "ticket", "update", "42", "--category", "hardware"])
+      .catch(() => {});
+
+    expect(exitSpy).toHaveBeenCalledWith(3);
   });
 
   it("ticket alias 't' works", async () => {
@@ -341,12 +953,27 @@ describe("ticket commands", () => {
     // If it didn't throw, the alias worked
   });
 
-  it("ticket update sends category and assignee", async () => {
-    const mockFetch = vi.fn().mockResolvedValue(
-      jsonResponse({ seqNo: 42 }),
-    );
+  const users = [
+    { userId: 123, firstName: "Dave", lastName: "Smith", email: "dave@company.com", active: 1 },
+    { userId: 456, firstName: "Alice", lastName: "Jones", email: "alice@company.com", active: 1 },
+    { userId: 789, firstName: "Bob", lastName: "Brown", email: "bob@company.com", active: 1 },
+  ];
+  const staffedCase = {
+    ...currentCase,
+    members: [
+      { role: 1, user: { userId: 789, firstName: "Bob", lastName: "Brown" } },
+      { role: 2, user: { userId: 456, firstName: "Alice", lastName: "Jones" } },
+      { role: 20, anon: true, entityExtension: { entity: { name1: "Charlie" } } },
+    ],
+  };
+
+  it("ticket update --assignee resolves a userId and keeps other members", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([staffedCase]))   // GET current case
+      .mockResolvedValueOnce(jsonResponse(users))           // users/search
+      .mockResolvedValueOnce(jsonResponse({ seqNo: 42 }));  // PUT
     vi.stubGlobal("fetch", mockFetch);
-    vi.spyOn(console, "log").mockImplementation(() => {});
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
 
     const program = createProgram();
     registerTicketCommands(program);
@@ -357,30 +984,54 @@ describe("ticket commands", () => {
       "ticket",
       "update",
       "42",
-      "--category",
-      "billing",
       "--assignee",
       "alice@company.com",
     ]);
 
-    const [url, opts] = mockFetch.mock.calls[0];
+    const [url, opts] = mockFetch.mock.calls[2];
     expect(url).toContain("/rest/itxems/cases");
     expect(opts.method).toBe("PUT");
 
     const body = JSON.parse(opts.body as string);
     expect(body.seqNo).toBe(42);
-    expect(body.category).toBe("billing");
     expect(body.members).toEqual([
-      { role: ROLES.ASSIGNED_USER, name: "alice@company.com" },
+      staffedCase.members[1],
+      staffedCase.members[2],
+      { role: ROLES.ASSIGNED_USER, user: { userId: 456 } },
     ]);
+
+    const output = spy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("Bob Brown \u2192 Alice Jones");
+  });
+
+  it("ticket update --assignee me assigns the logged-in user", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([staffedCase]))   // GET current case
+      .mockResolvedValueOnce(jsonResponse(users))           // users/search
+      .mockResolvedValueOnce(jsonResponse(users[0]))        // activeuser
+      .mockResolvedValueOnce(jsonResponse({ seqNo: 42 }));  // PUT
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program.parseAsync(["node", "itx", "ticket", "update", "42", "--assignee", "me"]);
+
+    expect(mockFetch.mock.calls[2][0]).toContain("/rest/core/activeuser");
+    const body = JSON.parse(mockFetch.mock.calls[3][1].body as string);
+    expect(body.members).toContainEqual({ role: ROLES.ASSIGNED_USER, user: { userId: 123 } });
+    const output = spy.mock.calls.map((c) => c[0]).join("\n");
+    expect(output).toContain("Bob Brown \u2192 Dave Smith");
   });
 
   it("ticket update resolves assignee alias", async () => {
     setAlias("dave", "dave@company.com");
 
-    const mockFetch = vi.fn().mockResolvedValue(
-      jsonResponse({ seqNo: 42 }),
-    );
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([currentCase]))
+      .mockResolvedValueOnce(jsonResponse(users))
+      .mockResolvedValueOnce(jsonResponse({ seqNo: 42 }));
     vi.stubGlobal("fetch", mockFetch);
     vi.spyOn(console, "log").mockImplementation(() => {});
 
@@ -397,10 +1048,326 @@ describe("ticket commands", () => {
       "dave",
     ]);
 
-    const body = JSON.parse(mockFetch.mock.calls[0][1].body as string);
+    const body = JSON.parse(mockFetch.mock.calls[2][1].body as string);
+    expect(body.members).toEqual([
+      { role: ROLES.ASSIGNED_USER, user: { userId: 123 } },
+    ]);
+  });
+
+  it("ticket update manages followers and --unassign", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([staffedCase]))
+      .mockResolvedValueOnce(jsonResponse(users))
+      .mockResolvedValueOnce(jsonResponse({ seqNo: 42 }));
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program.parseAsync([
+      "node", "itx", "ticket", "update", "42",
+      "--unassign",
+      "--add-follower", "dave@company.com",
+      "--remove-follower", "alice@company.com",
+      "--json", ALL_FIELDS["ticket update"],
+    ]);
+
+    const body = JSON.parse(mockFetch.mock.calls[2][1].body as string);
     expect(body.members).toEqual([
-      { role: ROLES.ASSIGNED_USER, name: "dave@company.com" },
+      staffedCase.members[2],
+      { role: ROLES.CASE_FOLLOWER, user: { userId: 123 } },
+    ]);
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data.changes).toEqual([
+      { field: "assignee", before: "Bob Brown", after: null },
+      { field: "followers", before: "Alice Jones", after: "Dave Smith" },
+    ]);
+  });
+
+  it("ticket update exits NOT_FOUND for an unknown assignee", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([currentCase]))
+      .mockResolvedValueOnce(jsonResponse(users));
+    vi.stubGlobal("fetch", mockFetch);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const program = createProgram();
+    registerTicketCommands(program);
+
+    await program
+      .parseAsync(["node", "itx", "ticket", "update", "42", "--assignee", "nobody@company.com"])
+      .catch(() => {});
+
+    expect(exitSpy).toHaveBeenCalledWith(3);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  /** Route ticket-create traffic by path so call order doesn't matter. */
+  function createFetch(created: Record<string, unknown>) {
+    const customer = {
+      emenId: 500,
+      name1: "Wright Electrical Ltd",
+      entityType: 2,
+      extensions: [{ eeexId: 900, extType: 10, seqNo: 10058, active: true }],
+    };
+    return vi.fn(async (url: string, init?: RequestInit) => {
+      const path = new URL(url).pathname;
+      if (path === "/rest/itxems/entities/search") return jsonResponse([customer]);
+      if (path === "/rest/itxems/entity") return jsonResponse(customer);
+      if (path === "/rest/itxems/statuses") return jsonResponse(refStatuses);
+      if (path === "/rest/itxems/priorities") return jsonResponse(refPriorities);
+      if (path === "/rest/itxems/categories") return jsonResponse(refCategories);
+      if (path === "/rest/core/users/search") return jsonResponse(users);
+      if (path === "/rest/itxems/cases" && init?.method === "POST") {
+        return jsonResponse({ seqNo: created.seqNo, eactId: created.eactId });
+      }
+      if (path === "/rest/itxems/cases") return jsonResponse([created]);
+      return jsonResponse({});
+    });
+  }
+
+  it("ticket create attaches the customer, resolves refdata and users, and adds the body", async () => {
+    const created = {
+      seqNo: 77,
+      eactId: 7700,
+      description: "Power outage",
+      emsStatus: { emstId: 2, name: { defaultText: "Resolved" } },
+      priority: { empriId: 11, name: { defaultText: "Critical" } },
+      category: { emcaId: 101, name: { defaultText: "Billing" } },
+      members: [
+        {
+          role: 20,
+          entityExtension: { eeexId: 900, seqNo: 10058, extType: 10, entity: { emenId: 500, name1: "Wright Electrical Ltd" } },
+        },
+        { role: 1, user: { userId: 456, firstName: "Alice", lastName: "Jones" } },
+        { role: 2, user: { userId: 123, firstName: "Dave", lastName: "Smith" } },
+      ],
+    };
+    const mockFetch = createFetch(created);
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+    await program.parseAsync([
+      "node", "itx", "ticket", "create", "Power outage", "--customer", "10058",
+      "--status", "resolved", "--priority", "crit", "--category", "billing",
+      "--assignee", "alice@company.com", "--follower", "dave", "dave@company.com",
+      "--body", "Line one\nline two\n\nA <b> tag",
+      "--json", ALL_FIELDS["ticket create"],
+    ]);
+
+    const userSearches = mockFetch.mock.calls.filter(([url]) => String(url).includes("/rest/core/users/search"));
+    expect(userSearches).toHaveLength(1);
+
+    const post = mockFetch.mock.calls.find(
+      ([url, init]) => new URL(url).pathname === "/rest/itxems/cases" && init?.method === "POST",
+    );
+    expect(JSON.parse(post![1]!.body as string)).toEqual({
+      description: "Power outage",
+      emsStatus: { emstId: 2 },
+      priority: { empriId: 11 },
+      category: { emcaId: 101 },
+      members: [
+        { role: ROLES.CONTACT_PERSON, entityExtension: { eeexId: 900 } },
+        { role: ROLES.ASSIGNED_USER, user: { userId: 456 } },
+        { role: ROLES.CASE_FOLLOWER, user: { userId: 123 } },
+      ],
+    });
+    const comment = mockFetch.mock.calls.find(([url]) => String(url).includes("/activitytexts"));
+    expect(JSON.parse(comment![1]!.body as string)).toEqual({
+      text: "<p>Line one<br>line two</p><p>A &lt;b&gt; tag</p>",
+      activity: { eactId: 7700 },
+    });
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data).toMatchObject({
+      seqNo: 77,
+      status: { id: 2, name: "Resolved" },
+      priority: { id: 11, name: "Critical" },
+      category: { id: 101, name: "Billing" },
+      assignedUser: { name: "Alice Jones" },
+      customer: { seqNo: 10058, role: "customer" },
+    });
+  });
+
+  it("ticket create names the new ticket when ITX returns it without an eactId", async () => {
+    const mockFetch = createFetch({ seqNo: 79, description: "Half made" });
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const program = createProgram();
+    registerTicketCommands(program);
+    await program
+      .parseAsync(["node", "itx", "ticket", "create", "Half made", "--body", "Notes", "--json", "seqNo"])
+      .catch(() => {});
+
+    expect(exitSpy).toHaveBeenCalledWith(2);
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.error).toMatchObject({
+      code: "API",
+      message: "API error: ticket #79 was created but ITX returned no eactId; the comment was not added",
+      retryable: false,
+    });
+    expect(mockFetch.mock.calls.some(([url]) => String(url).includes("/activitytexts"))).toBe(false);
+  });
+
+  it("ticket create reads the body from stdin with --body-file -", async () => {
+    const mockFetch = createFetch({ seqNo: 78, eactId: 7800, description: "Piped" });
+    vi.stubGlobal("fetch", mockFetch);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(process, "stdin", "get").mockReturnValue(
+      Readable.from([Buffer.from("From a pipe\n")]) as unknown as typeof process.stdin,
+    );
+
+    const program = createProgram();
+    registerTicketCommands(program);
+    await program.parseAsync(["node", "itx", "ticket", "create", "Piped", "--body-file", "-"]);
+
+    const comment = mockFetch.mock.calls.find(([url]) => String(url).includes("/activitytexts"));
+    expect(JSON.parse(comment![1]!.body as string).text).toBe("<p>From a pipe</p>");
+  });
+
+  it("ticket create rejects conflicting or unreadable inputs with USAGE", async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    for (const args of [
+      ["X", "--customer", "1", "--prospect", "2"],
+      ["X", "--customer", "wright"],
+      ["X", "--body", "a", "--body-file", "b.txt"],
+      ["X", "--body-file", "/nonexistent/body.txt"],
+      ["X", "--body", "   "],
+    ]) {
+      const program = createProgram();
+      registerTicketCommands(program);
+      await program
+        .parseAsync(["node", "itx", "ticket", "create", ...args, "--json", "seqNo"])
+        .catch(() => {});
+    }
+
+    const codes = spy.mock.calls.map((c) => JSON.parse(c[0] as string).error.code);
+    expect(codes).toEqual(["USAGE", "USAGE", "USAGE", "USAGE", "USAGE"]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("ticket template save/list/show/remove manage templates in the profile", async () => {
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const run = async (...args: string[]) => {
+      const program = createProgram();
+      registerTicketCommands(program);
+      await program.parseAsync(["node", "itx", "ticket", "template", ...args]);
+    };
+
+    await run("save", "onboarding", "-s", "Onboarding: {{company}}", "--customer", "{{customer}}",
+      "--category", "support", "--follower", "dave", "--body", "Checklist for {{company}}");
+    expect(getTemplates()).toEqual({
+      onboarding: {
+        subject: "Onboarding: {{company}}",
+        body: "Checklist for {{company}}",
+        customer: "{{customer}}",
+        category: "support",
+        followers: ["dave"],
+      },
+    });
+    expect(spy.mock.calls.map((c) => c[0]).join("\n")).toContain("Variables: company, customer");
+
+    spy.mockClear();
+    await run("show", "onboarding", "--json");
+    expect(JSON.parse(spy.mock.calls[0][0] as string).data).toMatchObject({
+      name: "onboarding",
+      customer: "{{customer}}",
+    });
+
+    spy.mockClear();
+    await run("list", "--json");
+    expect(JSON.parse(spy.mock.calls[0][0] as string).data.map((t: { name: string }) => t.name)).toEqual([
+      "onboarding",
+    ]);
+
+    await run("rm", "onboarding");
+    expect(getTemplates()).toEqual({});
+  });
+
+  it("ticket create --template fills placeholders and lets flags override", async () => {
+    setTemplate("outage", {
+      subject: "Outage at {{site}}",
+      body: "Site {{site}} is down.",
+      customer: "{{customer}}",
+      priority: "normal",
+      category: "support",
+      followers: ["dave"],
+    });
+    const mockFetch = createFetch({ seqNo: 79, eactId: 7900, description: "Outage at Leeds" });
+    vi.stubGlobal("fetch", mockFetch);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+    await program.parseAsync([
+      "node", "itx", "ticket", "create", "--template", "outage",
+      "--var", "site=Leeds", "--var", "customer=10058", "--priority", "critical", "--follower", "bob@company.com",
     ]);
+
+    const post = mockFetch.mock.calls.find(
+      ([url, init]) => new URL(url).pathname === "/rest/itxems/cases" && init?.method === "POST",
+    );
+    expect(JSON.parse(post![1]!.body as string)).toEqual({
+      description: "Outage at Leeds",
+      priority: { empriId: 11 },
+      category: { emcaId: 100 },
+      members: [
+        { role: ROLES.CONTACT_PERSON, entityExtension: { eeexId: 900 } },
+        { role: ROLES.CASE_FOLLOWER, user: { userId: 123 } },
+        { role: ROLES.CASE_FOLLOWER, user: { userId: 789 } },
+      ],
+    });
+    const comment = mockFetch.mock.calls.find(([url]) => String(url).includes("/activitytexts"));
+    expect(JSON.parse(comment![1]!.body as string).text).toBe("<p>Site Leeds is down.</p>");
+  });
+
+  it("ticket create --template fails before the API on a missing variable or template", async () => {
+    setTemplate("outage", { subject: "Outage at {{site}}", customer: "{{customer}}" });
+    setTemplate("proto", { subject: "{{constructor}}" });
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    for (const args of [
+      ["--template", "outage", "--var", "site=Leeds"],
+      ["--template", "nope"],
+      ["X", "--var", "site=Leeds"],
+      // Inherited Object properties aren't values.
+      ["--template", "proto"],
+    ]) {
+      const program = createProgram();
+      registerTicketCommands(program);
+      await program
+        .parseAsync(["node", "itx", "ticket", "create", ...args, "--json", "seqNo"])
+        .catch(() => {});
+    }
+
+    const errors = spy.mock.calls.map((c) => JSON.parse(c[0] as string).error);
+    expect(errors.map((e: { code: string }) => e.code)).toEqual(["USAGE", "NOT_FOUND", "USAGE", "USAGE"]);
+    expect(errors[0].message).toBe("Missing template variable: --var customer=...");
+    expect(errors[3].message).toBe("Missing template variable: --var constructor=...");
+    expect(exitSpy.mock.calls.map((c) => c[0])).toEqual([1, 3, 1, 1]);
+    expect(mockFetch).not.toHaveBeenCalled();
   });
 
   it("ticket activities fetches comments and linked activities", async () => {
@@ -503,7 +1470,7 @@ describe("ticket commands", () => {
     const program = createProgram();
     registerTicketCommands(program);
 
-    await program.parseAsync(["node", "itx", "ticket", "activities", "42", "--json"]);
+    await program.parseAsync(["node", "itx", "ticket", "activities", "42", "--json", ALL_FIELDS["ticket activities"]]);
 
     const env = JSON.parse(spy.mock.calls[0][0] as string);
     expect(env.ok).toBe(true);
@@ -675,6 +1642,242 @@ describe("ticket commands", () => {
     expect(body.text).toContain("@Alice Jones");
     expect(body.data.tags[0].data).toBe("789");
   });
+
+  it("ticket comment refuses an @name that fits several users instead of tagging the first", async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([{ eactId: 2000, seqNo: 10 }]))
+      .mockResolvedValueOnce(
+        jsonResponse([
+          { userId: 123, firstName: "Dave", lastName: "Smith", email: "dave@company.com", active: 1 },
+          { userId: 124, firstName: "Dave", lastName: "Brown", email: "dbrown@company.com", active: 1 },
+          { userId: 125, firstName: "Ann", lastName: "Dave", email: "ann@company.com", active: 1 },
+        ]),
+      );
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const program = createProgram();
+    registerTicketCommands(program);
+    await program
+      .parseAsync(["node", "itx", "ticket", "comment", "10", "Thanks @dave", "--json"])
+      .catch(() => {});
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.error.code).toBe("AMBIGUOUS");
+    expect(env.error.candidates).toEqual([
+      { id: 123, name: "Dave Smith" },
+      { id: 124, name: "Dave Brown" },
+      { id: 125, name: "Ann Dave" },
+    ]);
+    expect(exitSpy).toHaveBeenCalledWith(4);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("ticket comment converts Markdown from --stdin and tags inline @alias mentions", async () => {
+    setAlias("dave", "dave@company.com");
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse([{ eactId: 1000, seqNo: 42 }]))
+      .mockResolvedValueOnce(
+        jsonResponse([
+          { userId: 123, firstName: "Dave", lastName: "Smith", email: "dave@company.com", active: 1 },
+        ]),
+      )
+      .mockResolvedValueOnce(jsonResponse({ eateId: 999 }));
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(process, "stdin", "get").mockReturnValue(
+      Readable.from([Buffer.from("Load < 5 & falling.\n\n- ask @dave\n- ping @nobody\n")]) as unknown as typeof process.stdin,
+    );
+
+    const program = createProgram();
+    registerTicketCommands(program);
+    await program.parseAsync(["node", "itx", "ticket", "comment", "42", "--stdin", "--json"]);
+
+    const body = JSON.parse(mockFetch.mock.calls[2][1].body as string);
+    expect(body.text).toBe(
+      "<p>Load &lt; 5 &amp; falling.</p><ul><li>ask \uFEFF@Dave Smith\uFEFF</li><li>ping @nobody</li></ul>",
+    );
+    expect(body.data.tags).toEqual([
+      { startIndex: body.text.indexOf("@Dave"), length: 11, type: "user", data: "123" },
+    ]);
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.meta.warnings).toEqual(["@nobody is not a known user or alias; posted as plain text."]);
+  });
+
+  it("ticket comment rejects missing, duplicate or unreadable input with USAGE", async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    for (const args of [
+      [],
+      ["text", "--stdin"],
+      ["-m", "a", "--file", "b.md"],
+      ["--file", "/nonexistent/comment.md"],
+    ]) {
+      const program = createProgram();
+      registerTicketCommands(program);
+      await program
+        .parseAsync(["node", "itx", "ticket", "comment", "42", ...args, "--json"])
+        .catch(() => {});
+    }
+
+    const codes = spy.mock.calls.map((c) => JSON.parse(c[0] as string).error.code);
+    expect(codes).toEqual(["USAGE", "USAGE", "USAGE", "USAGE"]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("ticket reply rejects bad addresses and unreadable attachments before calling ITX", async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    for (const args of [
+      ["Hi", "--to", "not-an-address"],
+      ["Hi", "--attach", "/nonexistent/report.pdf"],
+      [],
+    ]) {
+      const program = createProgram();
+      registerTicketCommands(program);
+      await program
+        .parseAsync(["node", "itx", "ticket", "reply", "42", ...args, "--json", "subject"])
+        .catch(() => {});
+    }
+
+    const codes = spy.mock.calls.map((c) => JSON.parse(c[0] as string).error.code);
+    expect(codes).toEqual(["USAGE", "USAGE", "USAGE"]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("ticket reply emails the last inbound sender on the conversation, quoting their email", async () => {
+    const conversationEmail = (eactId: number, direction: number, fromMail: string, subject: string) => ({
+      eactId,
+      activityType: { eatyId: 11 },
+      direction,
+      creationTs: `2026-04-0${eactId - 1000}T08:00:00Z`,
+      subject,
+      fromMail,
+      links: [{ type: 13, from: { eactId }, to: { eactId: 1000 } }],
+    });
+    const mockFetch = vi.fn(async (url: string, init?: RequestInit) => {
+      const path = new URL(url).pathname;
+      const body = init?.body ? JSON.parse(init.body as string) : {};
+      if (path === "/rest/itxems/cases") {
+        return jsonResponse([{ eactId: 420, seqNo: 42, description: "Outage", members: [
+          { role: 20, entityExtension: { eeexId: 900 } },
+          { role: 1, user: { userId: 7 } },
+        ] }]);
+      }
+      if (path === "/rest/itxems/cases/search") {
+        return jsonResponse([{ eactId: 420, links: [{ type: 14, from: { eactId: 1000 }, to: { eactId: 420 } }] }]);
+      }
+      if (path === "/rest/itxems/activities/search" && body.eactIds) {
+        return jsonResponse([{ eactId: 1000, activityType: { eatyId: 21 } }]);
+      }
+      if (path === "/rest/itxems/activities/search") {
+        return jsonResponse([
+          conversationEmail(1001, 2, "jane@wright.test", "Power <out>"),
+          conversationEmail(1002, 1, "support@itx.test", "Re: Power <out>"),
+        ]);
+      }
+      if (path === "/rest/itxems/emailcontent") {
+        const document =
+          "<html><head><title>RE: outage</title><style>p { color: red }</style></head><body>" +
+          "<!-- mso --><p>Still down</p><p>Call me &amp; <b>soon</b></p><script>track()</script>" +
+          "<p>Jane</p><p>&nbsp;</p><p>Wright AS</p></body></html>";
+        return { ok: true, headers: new Headers({ "content-type": "text/html" }), text: async () => document };
+      }
+      if (path === "/rest/itxems/activities") return jsonResponse({ eactId: 1003 });
+      return jsonResponse({});
+    });
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = createProgram();
+    registerTicketCommands(program);
+    await program.parseAsync([
+      "node", "itx", "ticket", "reply", "42", "Back up & **running**.", "--cc", "ops@wright.test",
+      "--json", ALL_FIELDS["ticket reply"],
+    ]);
+
+    const send = mockFetch.mock.calls.find(
+      ([url, init]) => new URL(url).pathname === "/rest/itxems/activities" && init?.method === "POST",
+    );
+    const email = JSON.parse(send![1]!.body as string);
+    expect(email).toMatchObject({
+      activityType: { eatyId: 11 },
+      direction: 1,
+      subject: "Re: Power <out>",
+      toMail: "jane@wright.test",
+      ccMail: "ops@wright.test",
+      links: [{ type: 13, to: { eactId: 1000 } }],
+      members: [{ role: 20, entityExtension: { eeexId: 900 } }],
+    });
+    expect(email.emailContent).toBe(
+      "<p>Back up &amp; <strong>running</strong>.</p>" +
+        `<p>On ${new Date("2026-04-01T08:00:00Z").toUTCString()}, jane@wright.test wrote:</p>` +
+        "<blockquote><p>Still down<br>Call me &amp; soon<br>Jane</p><p>Wright AS</p></blockquote>",
+    );
+    expect(JSON.parse(spy.mock.calls[0][0] as string).data).toEqual({
+      ticket: { seqNo: 42, eactId: 420 },
+      eactId: 1003,
+      conversationId: 1000,
+      inReplyTo: 1001,
+      subject: "Re: Power <out>",
+      to: ["jane@wright.test"],
+      cc: ["ops@wright.test"],
+      attachments: [],
+      dryRun: false,
+    });
+  });
+
+  it("ticket attachments downloads files under their base name, never outside the target dir", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "itx-attachments-"));
+    const mockFetch = vi.fn(async (url: string) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname === "/rest/itxems/cases") {
+        return jsonResponse([{
+          eactId: 420,
+          seqNo: 42,
+          creationTs: "2026-04-01T08:00:00Z",
+          coreFileReferences: [
+            { cfreId: 3001, name: "../../evil.sh", size: 2048, contentType: "text/x-shellscript" },
+            { cfreId: 3002, name: "evil.sh", size: 3 },
+          ],
+        }]);
+      }
+      if (pathname === "/rest/core/files") {
+        const bytes = Buffer.from(`file ${searchParams.get("cfreId")}`);
+        return { ok: true, headers: new Headers({ "content-type": "application/octet-stream" }), arrayBuffer: async () => bytes };
+      }
+      return jsonResponse([]);
+    });
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    try {
+      const program = createProgram();
+      registerTicketCommands(program);
+      await program.parseAsync(["node", "itx", "ticket", "attachments", "42", "--download", dir]);
+
+      expect(readdirSync(dir).sort()).toEqual(["3002-evil.sh", "evil.sh"]);
+      const output = spy.mock.calls.map((c) => c.join(" ")).join("\n");
+      expect(output).toContain("2.0 KB");
+      expect(output).toContain("text/x-shellscript");
+      expect(output).toContain(`Downloaded 2 file(s) to ${dir}.`);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
 
 describe("user commands", () => {
@@ -782,3 +1985,85 @@ describe("top-level alias commands", () => {
     expect(getAliases()).toEqual({});
   });
 });
+
+describe("profile commands", () => {
+  afterEach(() => {
+    setProfileOverride(undefined);
+  });
+
+  beforeEach(() => {
+    setConfig({ ssoEndpoint: "https://sso.test.com", activeEndpoint: "https://api.a.com", tokenv2: "tok-a" });
+    setConfig(
+      { ssoEndpoint: "https://sso.test.com", activeEndpoint: "https://api.acme.com", tokenv2: "tok-acme" },
+      "acme",
+    );
+  });
+
+  function profileProgram(): Command {
+    const program = createProgram();
+    registerProfileCommands(program);
+    registerConfigCommands(program);
+    registerTicketCommands(program);
+    return program;
+  }
+
+  it("--profile routes a command through that profile's credentials", async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse([]));
+    vi.stubGlobal("fetch", mockFetch);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await profileProgram().parseAsync([
+      "node", "itx", "ticket", "list", "--profile", "acme", "--json", ALL_FIELDS["ticket list"],
+    ]);
+
+    const url = mockFetch.mock.calls[0][0] as string;
+    expect(url).toContain("https://api.acme.com/");
+    expect(url).toContain("tokenv2=tok-acme");
+  });
+
+  it("profile use switches the active profile; profile list marks it", async () => {
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await profileProgram().parseAsync(["node", "itx", "profile", "use", "acme"]);
+    expect(getActiveProfile()).toBe("acme");
+
+    spy.mockClear();
+    await profileProgram().parseAsync(["node", "itx", "profile", "list", "--json"]);
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data).toEqual([
+      expect.objectContaining({ name: "acme", active: true, current: true, configured: true }),
+      expect.objectContaining({ name: "default", active: false, current: false, configured: true }),
+    ]);
+  });
+
+  it("profile use exits NOT_FOUND for an unknown profile", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await profileProgram()
+      .parseAsync(["node", "itx", "profile", "use", "nope"])
+      .catch(() => {});
+
+    expect(exitSpy).toHaveBeenCalledWith(3);
+    expect(getActiveProfile()).toBe("default");
+  });
+
+  it("logout --profile only clears that profile", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await profileProgram().parseAsync(["node", "itx", "logout", "--profile", "acme"]);
+
+    expect(listProfiles()).toEqual(["default"]);
+    expect(getConfig("default").tokenv2).toBe("tok-a");
+  });
+
+  it("profile remove deletes a profile", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await profileProgram().parseAsync(["node", "itx", "profile", "rm", "acme"]);
+
+    expect(listProfiles()).toEqual(["default"]);
+  });
+});
@@ -1,4 +1,7 @@
-import { describe, it, expect, afterEach } from "vitest";
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { chmodSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
 import {
   getConfig,
   setConfig,
@@ -9,10 +12,27 @@ import {
   setAlias,
   removeAlias,
   resolveAlias,
+  getTemplates,
+  getTemplate,
+  setTemplate,
+  removeTemplate,
+  isValidTemplateName,
+  getCurrentProfile,
+  setProfileOverride,
+  setActiveProfile,
+  getActiveProfile,
+  listProfiles,
+  removeProfile,
+  isValidProfileName,
+  loginCommand,
+  migrateSecrets,
+  getSecretStore,
 } from "../lib/config.js";
 
 afterEach(() => {
   clearConfig();
+  setProfileOverride(undefined);
+  vi.unstubAllEnvs();
 });
 
 describe("config", () => {
@@ -153,4 +173,213 @@ describe("config", () => {
       expect(c.aliases).toEqual({ dave: "dave@company.com" });
     });
   });
+
+  describe("ticket templates", () => {
+    it("saves, replaces and removes templates in the current profile", () => {
+      setTemplate("outage", { subject: "Outage at {{site}}", priority: "critical" });
+      setTemplate("outage", { subject: "Outage: {{site}}", followers: ["dave"] });
+      expect(getTemplate("outage")).toEqual({ subject: "Outage: {{site}}", followers: ["dave"] });
+      expect(getConfig("other").templates).toEqual({});
+
+      expect(removeTemplate("outage")).toBe(true);
+      expect(removeTemplate("outage")).toBe(false);
+      expect(getTemplates()).toEqual({});
+    });
+
+    it("validates template names like profile names", () => {
+      expect(isValidTemplateName("license-renewal_2")).toBe(true);
+      expect(isValidTemplateName("__proto__")).toBe(false);
+      expect(isValidTemplateName("a b")).toBe(false);
+    });
+  });
+
+  describe("profiles", () => {
+    it("defaults to the `default` profile", () => {
+      expect(getCurrentProfile()).toBe("default");
+      expect(loginCommand()).toBe("itx login");
+    });
+
+    it("keeps credentials, endpoint and aliases separate per profile", () => {
+      setConfig({ ssoEndpoint: "https://sso.a.com", tokenv2: "tok-a", activeEndpoint: "https://a1.com" });
+      setAlias("dave", "dave@a.com");
+      setConfig({ ssoEndpoint: "https://sso.b.com", tokenv2: "tok-b" }, "acme");
+
+      expect(getConfig().tokenv2).toBe("tok-a");
+      expect(getConfig("acme")).toEqual({
+        ssoEndpoint: "https://sso.b.com",
+        tokenv2: "tok-b",
+        rcntrl: "",
+        ccntrl: "",
+        activeEndpoint: "",
+        aliases: {},
+        templates: {},
+      });
+      expect(listProfiles()).toEqual(["acme", "default"]);
+      expect(isConfigured("acme")).toBe(true);
+    });
+
+    it("picks --profile over ITX_PROFILE over the active profile", () => {
+      setConfig({ tokenv2: "tok-b" }, "beta");
+      setActiveProfile("beta");
+      expect(getCurrentProfile()).toBe("beta");
+      expect(getConfig().tokenv2).toBe("tok-b");
+
+      vi.stubEnv("ITX_PROFILE", "acme");
+      expect(getCurrentProfile()).toBe("acme");
+
+      setProfileOverride("gamma");
+      expect(getCurrentProfile()).toBe("gamma");
+      expect(loginCommand()).toBe("itx login --profile gamma");
+      setAlias("dave", "dave@gamma.com");
+      expect(getConfig("gamma").aliases).toEqual({ dave: "dave@gamma.com" });
+      expect(getConfig("beta").aliases).toEqual({});
+    });
+
+    it("removes a profile and falls back to `default` when it was active", () => {
+      setConfig({ tokenv2: "tok" }, "acme");
+      setActiveProfile("acme");
+      expect(removeProfile("acme")).toBe(true);
+      expect(getActiveProfile()).toBe("default");
+      expect(removeProfile("acme")).toBe(false);
+    });
+
+    it("validates profile names", () => {
+      expect(isValidProfileName("acme-prod_2")).toBe(true);
+      expect(isValidProfileName("a.b")).toBe(false);
+      expect(isValidProfileName("")).toBe(false);
+      expect(isValidProfileName("-x")).toBe(false);
+    });
+
+    it("migrates a flat pre-profile config into `default`", async () => {
+      writeFileSync(
+        getConfigPath(),
+        JSON.stringify({
+          ssoEndpoint: "https://sso.old.com",
+          tokenv2: "old-token",
+          rcntrl: "1",
+          ccntrl: "2",
+          activeEndpoint: "https://node1.old.com",
+          aliases: { dave: "dave@old.com" },
+        }),
+      );
+      vi.resetModules();
+      const fresh = await import("../lib/config.js");
+
+      expect(fresh.getActiveProfile()).toBe("default");
+      expect(fresh.getConfig()).toEqual({
+        ssoEndpoint: "https://sso.old.com",
+        tokenv2: "old-token",
+        rcntrl: "1",
+        ccntrl: "2",
+        activeEndpoint: "https://node1.old.com",
+        aliases: { dave: "dave@old.com" },
+        templates: {},
+      });
+      const onDisk = JSON.parse(readFileSync(getConfigPath(), "utf8"));
+      expect(Object.keys(onDisk)).not.toContain("tokenv2");
+      expect(Object.keys(onDisk)).not.toContain("aliases");
+    });
+  });
+
+  describe("secret stores", () => {
+    const TOKENS = { ssoEndpoint: "https://sso.example.com", tokenv2: "secret-token", rcntrl: "rc", ccntrl: "cc" };
+
+    function configFile(): string {
+      return readFileSync(getConfigPath(), "utf8");
+    }
+
+    it("file: moves tokens into an encrypted secrets.json", () => {
+      vi.stubEnv("ITX_SECRET_PASSPHRASE", "hunter2");
+      setConfig(TOKENS);
+      setConfig({ tokenv2: "acme-token" }, "acme");
+
+      expect(migrateSecrets("file").sort()).toEqual(["acme", "default"]);
+
+      expect(configFile()).not.toContain("secret-token");
+      const secretsFile = readFileSync(join(dirname(getConfigPath()), "secrets.json"), "utf8");
+      expect(secretsFile).not.toContain("secret-token");
+      expect(getConfig()).toMatchObject(TOKENS);
+      expect(getConfig("acme").tokenv2).toBe("acme-token");
+      expect(getSecretStore()?.name).toBe("file");
+
+      // New logins go straight to the store
+      setConfig({ tokenv2: "rotated" });
+      expect(configFile()).not.toContain("rotated");
+      expect(getConfig().tokenv2).toBe("rotated");
+    });
+
+    it("file: needs the right passphrase to read tokens, but not to check login state", () => {
+      vi.stubEnv("ITX_SECRET_PASSPHRASE", "hunter2");
+      setConfig(TOKENS);
+      migrateSecrets("file");
+
+      vi.stubEnv("ITX_SECRET_PASSPHRASE", "");
+      expect(isConfigured()).toBe(true);
+      expect(getConfig(undefined, { secrets: false }).ssoEndpoint).toBe("https://sso.example.com");
+      expect(() => getConfig()).toThrow(/^Not authenticated: credentials are encrypted/);
+
+      vi.stubEnv("ITX_SECRET_PASSPHRASE", "wrong");
+      expect(() => getConfig()).toThrow(/wrong ITX_SECRET_PASSPHRASE/);
+    });
+
+    it("file: refuses to add entries under a different passphrase", () => {
+      vi.stubEnv("ITX_SECRET_PASSPHRASE", "hunter2");
+      setConfig(TOKENS);
+      migrateSecrets("file");
+      const secretsPath = join(dirname(getConfigPath()), "secrets.json");
+      const before = readFileSync(secretsPath, "utf8");
+
+      vi.stubEnv("ITX_SECRET_PASSPHRASE", "wrong");
+      expect(() => setConfig({ tokenv2: "acme-token" }, "acme")).toThrow(/wrong ITX_SECRET_PASSPHRASE/);
+      expect(readFileSync(secretsPath, "utf8")).toBe(before);
+
+      vi.stubEnv("ITX_SECRET_PASSPHRASE", "hunter2");
+      setConfig({ tokenv2: "acme-token" }, "acme");
+      expect(getConfig().tokenv2).toBe("secret-token");
+      expect(getConfig("acme").tokenv2).toBe("acme-token");
+    });
+
+    it("migrates back to plain", () => {
+      vi.stubEnv("ITX_SECRET_PASSPHRASE", "hunter2");
+      setConfig(TOKENS);
+      migrateSecrets("file");
+
+      expect(migrateSecrets("plain")).toEqual(["default"]);
+      expect(getSecretStore()).toBeUndefined();
+      expect(configFile()).toContain("secret-token");
+      expect(getConfig()).toMatchObject(TOKENS);
+    });
+
+    it("libsecret: stores tokens through secret-tool", () => {
+      // A stand-in secret-tool that keeps each secret in a file named by account.
+      const bin = mkdtempSync(join(tmpdir(), "itx-secret-tool-"));
+      const tool = join(bin, "secret-tool");
+      writeFileSync(
+        tool,
+        [
+          "#!/bin/sh",
+          'dir="$(dirname "$0")/store"; mkdir -p "$dir"',
+          'cmd="$1"; shift',
+          'case "$cmd" in',
+          '  store) cat > "$dir/$(echo "$5" | tr / _)" ;;',
+          '  lookup) f="$dir/$(echo "$4" | tr / _)"; [ -f "$f" ] || exit 1; cat "$f" ;;',
+          '  clear) if [ -n "$4" ]; then rm -f "$dir/$(echo "$4" | tr / _)"; else rm -f "$dir"/*; fi ;;',
+          "  *) exit 2 ;;",
+          "esac",
+        ].join("\n"),
+      );
+      chmodSync(tool, 0o755);
+      vi.stubEnv("PATH", `${bin}:${process.env.PATH}`);
+
+      setConfig(TOKENS);
+      expect(migrateSecrets("libsecret")).toEqual(["default"]);
+
+      expect(configFile()).not.toContain("secret-token");
+      expect(readFileSync(join(bin, "store", "default_tokenv2"), "utf8")).toBe("secret-token");
+      expect(getConfig()).toMatchObject(TOKENS);
+
+      expect(removeProfile("default")).toBe(true);
+      expect(isConfigured()).toBe(false);
+    });
+  });
 });
@@ -2,7 +2,9 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { Command } from "commander";
 import { setConfig, clearConfig } from "../lib/config.js";
 import { registerCustomerCommands } from "../commands/customer.js";
+import { registerProspectCommands } from "../commands/prospect.js";
 import { clearRefdataCache } from "../lib/refdata.js";
+import { ALL_FIELDS } from "./helpers.js";
 
 afterEach(() => {
   clearConfig();
@@ -63,7 +65,7 @@ describe("customer search", () => {
     const spy = vi.spyOn(console, "log").mockImplementation(() => {});
 
     await createProgram().parseAsync([
-      "node", "itx", "customer", "search", "Wright", "--json",
+      "node", "itx", "customer", "search", "Wright", "--json", ALL_FIELDS["customer search"],
     ]);
 
     const env = JSON.parse(spy.mock.calls[0][0] as string);
@@ -82,13 +84,12 @@ describe("customer view", () => {
     const mockFetch = vi
       .fn()
       .mockResolvedValueOnce(jsonResponse([sampleCustomer])) // search by seqNo
-      .mockResolvedValueOnce(jsonResponse(sampleCustomer))    // re-fetch full
-      .mockResolvedValueOnce(jsonResponse([]));               // contact lookup
+      .mockResolvedValueOnce(jsonResponse(sampleCustomer));   // re-fetch full
     vi.stubGlobal("fetch", mockFetch);
     const spy = vi.spyOn(console, "log").mockImplementation(() => {});
 
     await createProgram().parseAsync([
-      "node", "itx", "customer", "view", "10058", "--json",
+      "node", "itx", "customer", "view", "10058", "--json", ALL_FIELDS["customer view"],
     ]);
 
     const env = JSON.parse(spy.mock.calls[0][0] as string);
@@ -106,7 +107,7 @@ describe("customer view", () => {
     }) as never);
 
     await createProgram()
-      .parseAsync(["node", "itx", "customer", "view", "99999", "--json"])
+      .parseAsync(["node", "itx", "customer", "view", "99999", "--json", ALL_FIELDS["customer view"]])
       .catch(() => {});
 
     const env = JSON.parse(spy.mock.calls[0][0] as string);
@@ -154,7 +155,7 @@ describe("customer tickets", () => {
     const spy = vi.spyOn(console, "log").mockImplementation(() => {});
 
     await createProgram().parseAsync([
-      "node", "itx", "customer", "tickets", "10058", "--status", "any", "--json",
+      "node", "itx", "customer", "tickets", "10058", "--status", "any", "--json", ALL_FIELDS["customer tickets"],
     ]);
 
     const env = JSON.parse(spy.mock.calls[0][0] as string);
@@ -191,7 +192,7 @@ describe("customer activities", () => {
     const spy = vi.spyOn(console, "log").mockImplementation(() => {});
 
     await createProgram().parseAsync([
-      "node", "itx", "customer", "activities", "10058", "--json",
+      "node", "itx", "customer", "activities", "10058", "--json", ALL_FIELDS["customer activities"],
     ]);
 
     const env = JSON.parse(spy.mock.calls[0][0] as string);
@@ -204,3 +205,492 @@ describe("customer activities", () => {
     expect(env.data.counts.sale).toBe(0);
   });
 });
+
+describe("customer contacts", () => {
+  it("lists linked contacts with their own eeexId and open-ticket count", async () => {
+    const customerWithContacts = {
+      ...sampleCustomer,
+      extensions: [
+        {
+          ...sampleCustomer.extensions[0],
+          extensionLinks: [{ from: { eeexId: 8001 }, to: { eeexId: 6846705 }, type: 10 }],
+        },
+      ],
+    };
+    const contact = {
+      emenId: 7001,
+      name1: "Jane",
+      name2: "Wright",
+      entityType: 1,
+      extensions: [{ eeexId: 8001, extType: 40, title: "CFO" }],
+      emails: [{ email: "jane@wright.test" }],
+      numbers: [{ number: "+4412345" }],
+    };
+    const refStatuses = [
+      { emstId: 1, internalStatus: 1, name: { defaultText: "Open" } },
+      { emstId: 2, internalStatus: 3, name: { defaultText: "Closed" } },
+    ];
+    const contactActs = [
+      { eactId: 1, activityType: { eatyId: 15 }, emsStatus: { emstId: 1 } },
+      { eactId: 2, activityType: { eatyId: 15 }, emsStatus: { emstId: 2 } },
+      { eactId: 3, activityType: { eatyId: 11 } },
+    ];
+
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse([customerWithContacts])) // resolve search
+      .mockResolvedValueOnce(jsonResponse(customerWithContacts))   // re-fetch full
+      .mockResolvedValueOnce(jsonResponse([contact]))              // contact scan (short page)
+      .mockResolvedValueOnce(jsonResponse(refStatuses))            // refdata
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse([]))
+      .mockResolvedValueOnce(jsonResponse([contact]))              // getEntitiesByIds
+      .mockResolvedValueOnce(jsonResponse(contactActs));           // contact activities
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await createProgram().parseAsync([
+      "node", "itx", "customer", "contacts", "10058", "--json", ALL_FIELDS["customer contacts"],
+    ]);
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.ok).toBe(true);
+    expect(env.data.identity.seqNo).toBe(10058);
+    expect(env.data.linkedContacts).toEqual([
+      {
+        emenId: 7001,
+        eeexId: 8001,
+        name1: "Jane",
+        name2: "Wright",
+        emails: ["jane@wright.test"],
+        numbers: ["+4412345"],
+        role: "CFO",
+        openTickets: 1,
+      },
+    ]);
+    const activitiesUrl = mockFetch.mock.calls[7][0] as string;
+    expect(activitiesUrl).toContain("emenId=7001");
+  });
+});
+
+describe("customer create", () => {
+  const created = {
+    ...sampleCustomer,
+    emenId: 7000001,
+    entityId: "912345678",
+    extensions: [
+      {
+        eeexId: 7000010,
+        extType: 10,
+        seqNo: 10300,
+        active: true,
+        thirdPartySystemEntityExtList: [{ id: "5551234", thirdPartySystem: { estpId: 87 } }],
+      },
+    ],
+    emails: [{ emailType: 1, email: "office@wright.test" }],
+  };
+
+  it("checks for duplicates, posts the entity and prints it as a CustomerView", async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse([]))                   // exactNames
+      .mockResolvedValueOnce(jsonResponse([sampleCustomer]))     // orgNo scan (short page)
+      .mockResolvedValueOnce(jsonResponse({ emenId: 7000001 })) // POST /entity
+      .mockResolvedValueOnce(jsonResponse(created));             // re-fetch
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await createProgram().parseAsync([
+      "node", "itx", "customer", "create", "--name1", "Wright Electrical AS", "--org-no", "912345678",
+      "--email", "office@wright.test", "--number", "+4712345678", "--line1", "Storgata 1",
+      "--postal-code", "0155", "--city", "Oslo", "--hubspot-id", "5551234",
+      "--json", ALL_FIELDS["customer create"],
+    ]);
+
+    const nameSearch = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(nameSearch).toMatchObject({ exactNames: ["Wright Electrical AS"], extensionTypes: [10, 9] });
+    const [url, init] = mockFetch.mock.calls[2];
+    expect(url).toContain("/rest/itxems/entity?");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body)).toEqual({
+      name1: "Wright Electrical AS",
+      name2: null,
+      entityType: 2,
+      entityId: "912345678",
+      active: true,
+      emails: [{ emailType: 1, email: "office@wright.test" }],
+      numbers: [{ numberType: 1, number: "+4712345678" }],
+      addresses: [{ addressType: 1, line1: "Storgata 1", postalCode: "0155", postalCity: "Oslo" }],
+      extensions: [
+        {
+          extType: 10,
+          active: true,
+          thirdPartySystemEntityExtList: [{ id: "5551234", thirdPartySystem: { estpId: 87 } }],
+        },
+      ],
+    });
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data.identity).toMatchObject({
+      emenId: 7000001,
+      seqNo: 10300,
+      role: "customer",
+      externalIds: [{ system: "HUBSPOTCUST", estpId: 87, id: "5551234" }],
+    });
+    expect(env.data.contact.emails).toEqual([{ type: 1, address: "office@wright.test" }]);
+  });
+
+  it("refuses a duplicate with AMBIGUOUS and the existing records as candidates", async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce(jsonResponse([sampleCustomer]));
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await createProgram()
+      .parseAsync([
+        "node", "itx", "customer", "create", "--name1", "Wright Electrical Ltd",
+        "--json", ALL_FIELDS["customer create"],
+      ])
+      .catch(() => {});
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.error.code).toBe("AMBIGUOUS");
+    expect(env.error.message).toMatch(/^Duplicate: 1 existing entity matches name "Wright Electrical Ltd"/);
+    expect(env.error.candidates).toEqual([{ id: 6846831, name: "Wright Electrical Ltd", seqNo: 10058 }]);
+    expect(exitSpy).toHaveBeenCalledWith(4);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips the duplicate check with --force and creates a private prospect", async () => {
+    const prospect = {
+      emenId: 7000002,
+      name1: "Ola",
+      name2: "Nordmann",
+      entityType: 1,
+      extensions: [{ eeexId: 7000020, extType: 9, seqNo: 20400, active: true }],
+    };
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ emenId: 7000002 }))
+      .mockResolvedValueOnce(jsonResponse(prospect));
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = new Command();
+    program.exitOverride();
+    program.configureOutput({ writeOut: () => {}, writeErr: () => {} });
+    registerProspectCommands(program);
+    await program.parseAsync([
+      "node", "itx", "prospect", "create", "--name1", "Ola", "--name2", "Nordmann",
+      "--type", "private", "--force", "--json", ALL_FIELDS["prospect create"],
+    ]);
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body).toMatchObject({ entityType: 1, extensions: [{ extType: 9 }] });
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data.identity).toMatchObject({ seqNo: 20400, role: "prospect", classification: "private" });
+  });
+
+  it("exits API when the create response has no emenId", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValueOnce(jsonResponse({})));
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await createProgram()
+      .parseAsync([
+        "node", "itx", "customer", "create", "--name1", "Wright Electrical AS", "--force",
+        "--json", ALL_FIELDS["customer create"],
+      ])
+      .catch(() => {});
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.error).toMatchObject({ code: "API", message: "API error: created entity has no emenId", retryable: false });
+    expect(exitSpy).toHaveBeenCalledWith(2);
+  });
+
+  it("validates --name1, --type and --email before calling the API", async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    for (const args of [
+      ["--type", "corporate"],
+      ["--name1", "X", "--type", "company"],
+      ["--name1", "X", "--email", "not-an-email"],
+    ]) {
+      await createProgram()
+        .parseAsync(["node", "itx", "customer", "create", ...args, "--json", ALL_FIELDS["customer create"]])
+        .catch(() => {});
+    }
+
+    const codes = spy.mock.calls.map((c) => JSON.parse(c[0] as string).error.code);
+    expect(codes).toEqual(["USAGE", "USAGE", "USAGE"]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("customer update", () => {
+  const existing = {
+    ...sampleCustomer,
+    emails: [{ emailType: 1, email: "office@wright.test" }],
+    numbers: [{ numberType: 2, number: "+44 1234 5678" }],
+    addresses: [{ addressType: 1, line1: "1 High St", postalCode: "LS1 1AA", postalCity: "Leeds" }],
+  };
+
+  it("applies the edits to the full record, PUTs it and reports a field-level diff", async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse([existing])) // search by seqNo
+      .mockResolvedValueOnce(jsonResponse(existing))   // re-fetch full
+      .mockResolvedValueOnce(jsonResponse(existing));  // PUT /entity
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await createProgram().parseAsync([
+      "node", "itx", "customer", "update", "10058",
+      "--add-email", "billing@wright.test", "OFFICE@wright.test",
+      "--remove-number", "+4412345678",
+      "--set-address", "type=1,line1=2 Low St,postalCode=LS2 2BB,city=Leeds",
+      "--set-address", "type=2,line1=PO Box 9",
+      "--json", ALL_FIELDS["customer update"],
+    ]);
+
+    const [url, init] = mockFetch.mock.calls[2];
+    expect(url).toContain("/rest/itxems/entity?");
+    expect(init.method).toBe("PUT");
+    expect(JSON.parse(init.body)).toEqual({
+      ...existing,
+      emails: [
+        { emailType: 1, email: "office@wright.test" },
+        { emailType: 1, email: "billing@wright.test" },
+      ],
+      numbers: [],
+      addresses: [
+        { addressType: 1, line1: "2 Low St", postalCode: "LS2 2BB", postalCity: "Leeds" },
+        { addressType: 2, line1: "PO Box 9" },
+      ],
+    });
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data.dryRun).toBe(false);
+    expect(env.data.identity.seqNo).toBe(10058);
+    expect(env.data.changes).toEqual([
+      { field: "emails", before: "office@wright.test", after: "office@wright.test; billing@wright.test" },
+      { field: "numbers", before: "+44 1234 5678", after: null },
+      {
+        field: "addresses",
+        before: "[1] 1 High St, LS1 1AA Leeds",
+        after: "[1] 2 Low St, LS2 2BB Leeds; [2] PO Box 9",
+      },
+    ]);
+  });
+
+  it("shows the diff without sending the PUT under --dry-run", async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse([existing]))
+      .mockResolvedValueOnce(jsonResponse(existing));
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await createProgram().parseAsync([
+      "node", "itx", "customer", "update", "10058", "--name1", "Wright Electrical Group", "--dry-run",
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const output = spy.mock.calls.map((c) => String(c[0])).join("\n");
+    expect(output).toContain("Dry run");
+    expect(output).toContain("Wright Electrical Ltd → Wright Electrical Group");
+  });
+
+  it("fails with NOT_FOUND when removing an email the entity doesn't have", async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse([existing]))
+      .mockResolvedValueOnce(jsonResponse(existing));
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await createProgram()
+      .parseAsync([
+        "node", "itx", "customer", "update", "10058", "--remove-email", "nobody@wright.test",
+        "--json", ALL_FIELDS["customer update"],
+      ])
+      .catch(() => {});
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.error.code).toBe("NOT_FOUND");
+    expect(exitSpy).toHaveBeenCalledWith(3);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("validates the identifier, the edit flags and --set-address before calling the API", async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    for (const args of [
+      ["--add-email", "a@b.test"],
+      ["10058"],
+      ["10058", "--add-email", "not-an-email"],
+      ["10058", "--set-address", "type=home,line1=x"],
+      ["10058", "--set-address", "street=x"],
+      ["10058", "--set-address", "type=2"],
+    ]) {
+      await createProgram()
+        .parseAsync(["node", "itx", "customer", "update", ...args, "--json", ALL_FIELDS["customer update"]])
+        .catch(() => {});
+    }
+
+    const codes = spy.mock.calls.map((c) => JSON.parse(c[0] as string).error.code);
+    expect(codes).toEqual(["USAGE", "USAGE", "USAGE", "USAGE", "USAGE", "USAGE"]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("prospect convert", () => {
+  const prospectExt = {
+    eeexId: 950,
+    extType: 9,
+    seqNo: 20100,
+    active: true,
+    thirdPartySystemEntityExtList: [{ id: "3330001", thirdPartySystem: { estpId: 87 } }],
+    extensionLinks: [{ from: { eeexId: 8002 }, to: { eeexId: 950 }, type: 10 }],
+  };
+  const prospect = {
+    ...sampleCustomer,
+    emenId: 600,
+    name1: "Nordic Pumps AS",
+    extensions: [prospectExt],
+  };
+
+  function prospectProgram(): Command {
+    const program = new Command();
+    program.exitOverride();
+    program.configureOutput({ writeOut: () => {}, writeErr: () => {} });
+    registerProspectCommands(program);
+    return program;
+  }
+
+  it("adds a customer extension with the external ids, then links the prospect's contacts to it", async () => {
+    const customerExt = {
+      eeexId: 951,
+      extType: 10,
+      seqNo: 10300,
+      active: true,
+      thirdPartySystemEntityExtList: prospectExt.thirdPartySystemEntityExtList,
+      extensionLinks: [],
+    };
+    const saved = { ...prospect, extensions: [{ ...prospectExt, active: false }, customerExt] };
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse([prospect])) // search by seqNo
+      .mockResolvedValueOnce(jsonResponse(prospect))   // re-fetch full
+      .mockResolvedValueOnce(jsonResponse(prospect))   // PUT with the new extension
+      .mockResolvedValueOnce(jsonResponse(saved))      // re-fetch for the eeexId
+      .mockResolvedValueOnce(jsonResponse(saved));     // PUT with the contact links
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await prospectProgram().parseAsync([
+      "node", "itx", "prospect", "convert", "20100", "--deactivate",
+      "--json", ALL_FIELDS["prospect convert"],
+    ]);
+
+    const first = JSON.parse(mockFetch.mock.calls[2][1].body);
+    expect(mockFetch.mock.calls[2][1].method).toBe("PUT");
+    expect(first.extensions).toEqual([
+      { ...prospectExt, active: false },
+      {
+        extType: 10,
+        active: true,
+        thirdPartySystemEntityExtList: [{ id: "3330001", thirdPartySystem: { estpId: 87 } }],
+        extensionLinks: [],
+      },
+    ]);
+    const second = JSON.parse(mockFetch.mock.calls[4][1].body);
+    expect(second.extensions[1].extensionLinks).toEqual([
+      { from: { eeexId: 8002 }, to: { eeexId: 951 }, type: 10 },
+    ]);
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data).toMatchObject({
+      identity: {
+        emenId: 600,
+        eeexId: 951,
+        seqNo: 10300,
+        role: "customer",
+        externalIds: [{ system: "HUBSPOTCUST", id: "3330001" }],
+      },
+      prospect: { eeexId: 950, seqNo: 20100, role: "prospect" },
+      prospectDeactivated: true,
+      contactLinks: 1,
+    });
+  });
+
+  it("finishes an earlier conversion whose contact links were never carried over", async () => {
+    const customerExt = { eeexId: 951, extType: 10, seqNo: 10300, active: true, extensionLinks: [] };
+    const halfway = { ...prospect, extensions: [prospectExt, customerExt] };
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse([halfway])) // search by seqNo
+      .mockResolvedValueOnce(jsonResponse(halfway))   // re-fetch full
+      .mockResolvedValueOnce(jsonResponse(halfway));  // PUT with the contact links
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await prospectProgram().parseAsync([
+      "node", "itx", "prospect", "convert", "20100", "--deactivate",
+      "--json", ALL_FIELDS["prospect convert"],
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    const put = JSON.parse(mockFetch.mock.calls[2][1].body);
+    expect(mockFetch.mock.calls[2][1].method).toBe("PUT");
+    expect(put.extensions).toEqual([
+      { ...prospectExt, active: false },
+      { ...customerExt, extensionLinks: [{ from: { eeexId: 8002 }, to: { eeexId: 951 }, type: 10 }] },
+    ]);
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.data).toMatchObject({ identity: { seqNo: 10300, role: "customer" }, contactLinks: 1 });
+  });
+
+  it("refuses an entity that is already an active customer", async () => {
+    const both = {
+      ...prospect,
+      extensions: [{ ...prospectExt, extensionLinks: [] }, { eeexId: 951, extType: 10, seqNo: 10300, active: true }],
+    };
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse([both]))
+      .mockResolvedValueOnce(jsonResponse(both));
+    vi.stubGlobal("fetch", mockFetch);
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    await prospectProgram()
+      .parseAsync(["node", "itx", "prospect", "convert", "20100", "--json", ALL_FIELDS["prospect convert"]])
+      .catch(() => {});
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.error.code).toBe("USAGE");
+    expect(env.error.message).toMatch(/^Already a customer: Nordic Pumps AS is customer #10300/);
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    expect(mockFetch.mock.calls.every(([, init]) => init.method !== "PUT")).toBe(true);
+  });
+});
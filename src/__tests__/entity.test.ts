@@ -118,8 +118,7 @@ describe("resolveEntity", () => {
     const mockFetch = vi
       .fn()
       .mockResolvedValueOnce(jsonResponse(sampleCorporateCustomer))   // getEntity
-      .mockResolvedValueOnce(jsonResponse(sampleCorporateCustomer))   // re-fetch full
-      .mockResolvedValueOnce(jsonResponse([]));                       // contact lookup
+      .mockResolvedValueOnce(jsonResponse(sampleCorporateCustomer));  // re-fetch full
     vi.stubGlobal("fetch", mockFetch);
 
     const result = await resolveEntity(new ItxClient(), {
@@ -134,8 +133,7 @@ describe("resolveEntity", () => {
     const mockFetch = vi
       .fn()
       .mockResolvedValueOnce(jsonResponse([sampleCorporateCustomer])) // search
-      .mockResolvedValueOnce(jsonResponse(sampleCorporateCustomer))   // re-fetch full
-      .mockResolvedValueOnce(jsonResponse([]));                       // contact lookup
+      .mockResolvedValueOnce(jsonResponse(sampleCorporateCustomer));  // re-fetch full
     vi.stubGlobal("fetch", mockFetch);
 
     const result = await resolveEntity(new ItxClient(), {
@@ -152,6 +150,51 @@ describe("resolveEntity", () => {
     expect(searchBody.extensionSeqNoFilters).toEqual([{ seqNo: 13918 }]);
   });
 
+  it("pages past the 1000-row cap when resolving by eeexId", async () => {
+    const filler = Array.from({ length: 1000 }, (_, i) => ({
+      emenId: 100_000 + i,
+      extensions: [{ eeexId: 100_000 + i, extType: EXT_TYPE.CUSTOMER }],
+    }));
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(filler))                    // page 1, no match
+      .mockResolvedValueOnce(jsonResponse([sampleCorporateCustomer])) // page 2, match
+      .mockResolvedValueOnce(jsonResponse(sampleCorporateCustomer));  // re-fetch full
+    vi.stubGlobal("fetch", mockFetch);
+
+    const result = await resolveEntity(new ItxClient(), {
+      eeexId: 555,
+      role: "customer",
+    });
+
+    expect(result.identity.emenId).toBe(1000);
+    expect(result.warnings).toEqual([]);
+    expect(mockFetch.mock.calls[1][0]).toContain("limitFrom=1000");
+  });
+
+  it("caps the linked-contact scan and warns that contacts may be missing", async () => {
+    const page = Array.from({ length: 1000 }, (_, i) => ({
+      emenId: 200_000 + i,
+      extensions: [{ eeexId: 200_000 + i, extType: EXT_TYPE.CONTACT }],
+    }));
+    const mockFetch = vi.fn(async (url: string) =>
+      jsonResponse(url.includes("/entities/search") ? page : sampleCorporateCustomer),
+    );
+    vi.stubGlobal("fetch", mockFetch);
+
+    const result = await resolveEntity(
+      new ItxClient(),
+      { emenId: 1000, role: "customer" },
+      { contacts: true },
+    );
+
+    expect(result.linkedContacts).toEqual([]);
+    expect(result.warnings).toEqual([
+      "Linked contacts lookup stopped after scanning 50000 rows — 2 of 2 contacts not found.",
+    ]);
+    expect(mockFetch.mock.calls.filter(([url]) => url.includes("/entities/search"))).toHaveLength(50);
+  });
+
   it("throws NotFound when nothing matches", async () => {
     const mockFetch = vi
       .fn()
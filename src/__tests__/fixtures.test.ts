@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Command } from "commander";
+import { setConfig, clearConfig } from "../lib/config.js";
+import { ItxClient } from "../lib/client.js";
+import { clearRefdataCache } from "../lib/refdata.js";
+import { resetFixtures, type Fixture } from "../lib/fixtures.js";
+import { resetTracing } from "../lib/trace.js";
+import { registerCustomerCommands } from "../commands/customer.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "itx-fixtures-"));
+  setConfig({
+    ssoEndpoint: "https://sso.test.com",
+    activeEndpoint: "https://api.test.com",
+    tokenv2: "live-token",
+    rcntrl: "live-rc",
+    ccntrl: "live-cc",
+  });
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  resetFixtures();
+  clearConfig();
+  clearRefdataCache();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+function createProgram(): Command {
+  const program = new Command();
+  program.exitOverride();
+  program.configureOutput({ writeOut: () => {}, writeErr: () => {} });
+  registerCustomerCommands(program);
+  return program;
+}
+
+const customer = {
+  emenId: 500,
+  name1: "Wright Electrical Ltd",
+  entityType: 2,
+  extensions: [{ eeexId: 900, extType: 10, seqNo: 10058, active: true, extensionLinks: [] }],
+  emails: [],
+  numbers: [],
+  addresses: [],
+};
+
+/** A live ITX that echoes the token back in one body, as some endpoints do. */
+async function liveItx(url: string) {
+  const path = new URL(url).pathname;
+  let data: unknown = [];
+  if (path === "/rest/itxems/entities/search") data = [customer];
+  else if (path === "/rest/itxems/entity") data = { ...customer, note: "session live-token" };
+  return new Response(JSON.stringify(data), {
+    headers: { "content-type": "application/json", "set-cookie": "JSESSIONID=abc" },
+  });
+}
+
+async function runJson(argv: string[]) {
+  resetTracing();
+  const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+  await createProgram().parseAsync(["node", "itx", ...argv]).catch(() => {});
+  const env = JSON.parse(spy.mock.calls[0][0] as string);
+  spy.mockRestore();
+  return env;
+}
+
+const argv = ["customer", "summary", "10058", "--json", "identity,tickets,communication,health"];
+
+describe("ITX_RECORD / ITX_REPLAY", () => {
+  it("records a command run and replays it offline with the same output", async () => {
+    vi.stubEnv("ITX_RECORD", dir);
+    vi.stubGlobal("fetch", vi.fn(liveItx));
+    const live = await runJson(argv);
+    expect(live.ok, JSON.stringify(live)).toBe(true);
+
+    const files = readdirSync(dir).sort();
+    expect(files.length).toBeGreaterThan(1);
+    expect(files[0]).toMatch(/^0001-(get|post)-itxems-/);
+    for (const file of files) {
+      const text = readFileSync(join(dir, file), "utf8");
+      expect(text).not.toMatch(/live-(token|rc|cc)/);
+      const fixture = JSON.parse(text) as Fixture;
+      expect(fixture.request.query).not.toContain("tokenv2");
+      expect(Object.keys(fixture.response.headers)).toEqual(["content-type"]);
+    }
+
+    // Replay on a machine with no login and no network.
+    clearConfig();
+    clearRefdataCache();
+    vi.unstubAllEnvs();
+    vi.stubEnv("ITX_REPLAY", dir);
+    const fetchMock = vi.fn().mockRejectedValue(new Error("network used during replay"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const replayed = await runJson(argv);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(replayed.data).toEqual(live.data);
+    expect(replayed.meta.requests).toBe(live.meta.requests);
+  });
+
+  it("stores binary downloads as base64 and replays the exact bytes", async () => {
+    // Not valid UTF-8: a text round trip would turn these into U+FFFD.
+    const bytes = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x00, 0xff, 0xfe, 0x80, 0xc3]);
+    vi.stubEnv("ITX_RECORD", dir);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(bytes, { headers: { "content-type": "application/pdf" } })),
+    );
+    expect(await new ItxClient().downloadFile(77)).toEqual(bytes);
+
+    const [file] = readdirSync(dir);
+    const fixture = JSON.parse(readFileSync(join(dir, file), "utf8")) as Fixture;
+    expect(fixture.response).toMatchObject({ encoding: "base64", body: bytes.toString("base64") });
+
+    vi.unstubAllEnvs();
+    vi.stubEnv("ITX_REPLAY", dir);
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("network used during replay")));
+    expect(await new ItxClient().downloadFile(77)).toEqual(bytes);
+  });
+
+  it("fails on a request with no fixture", async () => {
+    vi.stubEnv("ITX_REPLAY", dir);
+    vi.stubGlobal("fetch", vi.fn());
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("exit");
+    }) as never);
+
+    const env = await runJson(["customer", "view", "10058", "--json", "identity"]);
+
+    expect(exitSpy).toHaveBeenCalledWith(2);
+    expect(env.error.code).toBe("API");
+    expect(env.error.message).toMatch(/^API error: no recorded fixture for POST \/rest\/itxems\/entities\/search/);
+    expect(env.error.retryable).toBe(false);
+  });
+});
@@ -0,0 +1,6 @@
+import { COMMAND_FIELDS } from "../lib/schemas.js";
+
+/** Every field of each command, for `--json <fields>`. */
+export const ALL_FIELDS = Object.fromEntries(
+  Object.entries(COMMAND_FIELDS).map(([command, fields]) => [command, fields.join(",")]),
+);
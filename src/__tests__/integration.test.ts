@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { execFile } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { MockItxServer } from "../mock/server.js";
+import { FAR_CUSTOMER, MOCK_API_KEY } from "../mock/seed.js";
+import type { JsonErr, JsonOk } from "../lib/output.js";
+import type {
+  CustomerContactsResult,
+  CustomerSummary,
+  CustomerUpdateResult,
+  CustomerView,
+  ProspectConvertResult,
+  TicketAttachmentsResult,
+  TicketReplyResult,
+  TicketUpdateResult,
+  TicketView,
+} from "../lib/schemas.js";
+
+/**
+ * Runs the real CLI entry point in a child process against the mock ITX
+ * server, so endpoint discovery, paging, retries and exit codes are exercised
+ * over HTTP rather than through a stubbed fetch.
+ */
+
+const ENTRY = resolve(dirname(fileURLToPath(import.meta.url)), "../index.ts");
+
+let server: MockItxServer;
+let url: string;
+let configDir: string;
+
+interface Run {
+  code: number;
+  stdout: string;
+  stderr: string;
+  /** The success envelope, `data` typed as the command's result (projected fields only). */
+  json: <T = unknown>() => JsonOk<T>;
+  /** The `error` of a failure envelope. */
+  error: () => JsonErr["error"];
+}
+
+/** `itx <args>` with an isolated config dir and no inherited ITX_* settings. */
+function itx(args: string[], env: Record<string, string> = {}): Promise<Run> {
+  const base = Object.fromEntries(
+    Object.entries(process.env).filter(([key]) => !key.startsWith("ITX_")),
+  );
+  return new Promise((done) => {
+    execFile(
+      process.execPath,
+      ["--import", "tsx", ENTRY, ...args],
+      { env: { ...base, ITX_CONFIG_DIR: configDir, ...env }, timeout: 30_000 },
+      (err, stdout, stderr) => {
+        const code = err ? (typeof err.code === "number" ? err.code : -1) : 0;
+        done({
+          code,
+          stdout,
+          stderr,
+          json: () => JSON.parse(stdout),
+          error: () => (JSON.parse(stdout) as JsonErr).error,
+        });
+      },
+    );
+  });
+}
+
+beforeAll(async () => {
+  configDir = mkdtempSync(join(tmpdir(), "itx-integration-"));
+  server = new MockItxServer();
+  url = await server.listen();
+  const login = await itx(["login", "--api-key", MOCK_API_KEY, "--sso-endpoint", url]);
+  expect(login.code, login.stderr).toBe(0);
+});
+
+afterAll(async () => {
+  await server?.close();
+  rmSync(configDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  server.requests.length = 0;
+});
+
+// Each `itx` call is a fresh Node process, so a test making several is slow on a busy machine.
+describe("CLI against the mock ITX server", { timeout: 20_000 }, () => {
+  it("logs in, caches the resolved endpoint and reports status", async () => {
+    const status = await itx(["status", "--json"]);
+    expect(status.code).toBe(0);
+    expect(status.json().data).toMatchObject({
+      credentials: "profile",
+      endpoint: url,
+      user: { userId: 7 },
+    });
+
+    // Other commands reuse the endpoint login cached instead of asking the SSO again.
+    server.requests.length = 0;
+    await itx(["ticket", "view", "42", "--json", "seqNo"]);
+    expect(server.requests.map((r) => r.path)).not.toContain("/rest/api/state");
+  });
+
+  it("lists and views tickets with refdata names", async () => {
+    const list = await itx(["ticket", "list", "--jq", ".data[] | [.seqNo, .status.name]"]);
+    expect(list.code, list.stderr).toBe(0);
+    expect(list.stdout.trim().split("\n").map((l) => JSON.parse(l))).toEqual([
+      [42, "Open"],
+      [43, "Closed"],
+    ]);
+
+    const view = await itx(["ticket", "view", "42", "--json", "seqNo,priority,customer"]);
+    expect(view.json().data).toMatchObject({
+      seqNo: 42,
+      priority: { name: "Critical" },
+      customer: { seqNo: 10058 },
+    });
+    expect(view.json().meta?.requests).toBeGreaterThan(0);
+  });
+
+  it("exits 3 for a ticket that doesn't exist", async () => {
+    const run = await itx(["ticket", "view", "999", "--json", "seqNo"]);
+    expect(run.code).toBe(3);
+    expect(run.error().code).toBe("NOT_FOUND");
+  });
+
+  it("writes updates and comments that later reads see", async () => {
+    const update = await itx([
+      "ticket", "update", "42", "--status", "in progress", "--assignee", "bob@itx.test",
+      "--json", "changes",
+    ]);
+    expect(update.code, update.stdout + update.stderr).toBe(0);
+    expect(update.json<TicketUpdateResult>().data.changes.map((c) => c.field).sort()).toEqual([
+      "assignee",
+      "status",
+    ]);
+
+    const comment = await itx(["ticket", "comment", "42", "Checked on site"]);
+    expect(comment.code, comment.stderr).toBe(0);
+
+    const view = await itx(["ticket", "view", "42", "--json", "status,assignedUser"]);
+    expect(view.json().data).toMatchObject({
+      status: { name: "In progress" },
+      assignedUser: { name: "Bob Jones" },
+    });
+    const activities = await itx(["ticket", "activities", "42", "--jq", ".data.comments[-1].text"]);
+    expect(activities.stdout).toContain("Checked on site");
+  });
+
+  it("creates a ticket for a prospect with refdata, assignee and an initial comment", async () => {
+    const run = await itx([
+      "ticket", "create", "Quote for pump service", "--prospect", "20100", "--priority", "low",
+      "--category", "billing", "--assignee", "me", "--follower", "bob@itx.test",
+      "--body", "Customer asked for <3 visits a year.", "--json", "seqNo,priority,category,assignedUser,customer",
+    ]);
+    expect(run.code, run.stdout + run.stderr).toBe(0);
+    const data = run.json<TicketView>().data;
+    expect(data).toMatchObject({
+      priority: { name: "Low" },
+      category: { name: "Billing" },
+      assignedUser: { name: "Alice Smith" },
+      customer: { seqNo: 20100, role: "prospect" },
+    });
+
+    const activities = await itx(["ticket", "activities", String(data.seqNo), "--jq", ".data.comments[0].text"]);
+    expect(activities.stdout).toContain("Customer asked for <3 visits a year.");
+  });
+
+  it("replies on the ticket's email conversation with the quote and an attachment", async () => {
+    const invoice = join(configDir, "invoice-2026-118.pdf");
+    writeFileSync(invoice, "%PDF-1.4 copy");
+    const dry = await itx(["ticket", "reply", "43", "Attached.", "--dry-run", "--json", "eactId,to,dryRun"]);
+    expect(dry.json().data).toEqual({ eactId: null, to: ["accounts@wright.test"], dryRun: true });
+    expect(server.requests).not.toContainEqual({ method: "POST", path: "/rest/itxems/activities" });
+
+    const run = await itx([
+      "ticket", "reply", "43", "Here is the copy you asked for.", "--attach", invoice,
+      "--json", "eactId,conversationId,subject,attachments",
+    ]);
+    expect(run.code, run.stdout + run.stderr).toBe(0);
+    expect(run.json().data).toMatchObject({
+      conversationId: 1010,
+      subject: "Re: Copy of invoice 2026-118",
+      attachments: ["invoice-2026-118.pdf"],
+    });
+
+    const activities = await itx(["ticket", "activities", "43", "--jq", ".data.activities[-1]"]);
+    const sent = JSON.parse(activities.stdout);
+    expect(sent).toMatchObject({ eactId: run.json<TicketReplyResult>().data.eactId, direction: "outbound", toMail: "accounts@wright.test" });
+    expect(sent.body).toContain("Here is the copy you asked for.");
+    expect(sent.body).toContain("accounts@wright.test wrote:");
+  });
+
+  it("lists and downloads a ticket's files and call recordings", async () => {
+    const list = await itx(["ticket", "attachments", "42", "--jq", ".data.attachments[] | [.name, .size, .contentType, .kind, .activityKind]"]);
+    expect(list.code, list.stderr).toBe(0);
+    expect(list.stdout.trim().split("\n").map((l) => JSON.parse(l))).toEqual([
+      ["breaker-panel.jpg", 24, "image/jpeg", "attachment", "email"],
+      ["call-2026-04-01.mp3", 18, "audio/mpeg", "recording", "call"],
+    ]);
+
+    const dir = join(configDir, "downloads");
+    const download = await itx(["ticket", "attachments", "42", "--recordings", "--download", dir, "--json", "attachments"]);
+    expect(download.code, download.stderr).toBe(0);
+    const [saved] = download.json<TicketAttachmentsResult>().data.attachments;
+    expect(saved.path).toBe(join(dir, "call-2026-04-01.mp3"));
+    expect(readFileSync(saved.path!, "utf8")).toBe("ID3 call recording");
+  });
+
+  it("uploads files to a ticket that attachments then lists", async () => {
+    const notes = join(configDir, "site-notes.txt");
+    writeFileSync(notes, "Breaker 4 replaced.");
+    const attach = await itx(["ticket", "attach", "42", notes, "--json", "attachments"]);
+    expect(attach.code, attach.stdout + attach.stderr).toBe(0);
+    const [uploaded] = attach.json<TicketAttachmentsResult>().data.attachments;
+    expect(uploaded).toMatchObject({ name: "site-notes.txt", size: 19, contentType: "text/plain", activityKind: "ticket" });
+
+    const again = await itx(["ticket", "attachments", "42", "--cfre-id", String(uploaded.cfreId), "--jq", ".data.attachments[].name"]);
+    expect(again.stdout.trim()).toBe("site-notes.txt");
+    const missing = await itx(["ticket", "attachments", "42", "--cfre-id", "99999", "--json", "attachments"]);
+    expect(missing.code).toBe(3);
+  });
+
+  it("pages past the 1000-row cap when scanning by org number", async () => {
+    const run = await itx(["customer", "view", "--org-no", FAR_CUSTOMER.orgNo, "--json", "identity"]);
+    expect(run.code, run.stderr).toBe(0);
+    expect(run.json<CustomerView>().data.identity).toMatchObject({ seqNo: FAR_CUSTOMER.seqNo, name1: "Faraway Holdings" });
+    const searches = server.requests.filter((r) => r.path === "/rest/itxems/entities/search");
+    expect(searches.length).toBe(2);
+  });
+
+  it("builds a customer summary from entity, activities and tickets", async () => {
+    const run = await itx(["customer", "summary", "10058", "--json", "identity,tickets,contact"]);
+    expect(run.code, run.stderr).toBe(0);
+    const data = run.json<CustomerSummary>().data;
+    expect(data.identity.name1).toBe("Wright Electrical Ltd");
+    expect(data.tickets.totalOpen + data.tickets.totalClosed).toBe(2);
+    expect(data.contact.emails).toContainEqual({ type: 1, address: "office@wright.test" });
+  });
+
+  it("creates a customer that search and view then find", async () => {
+    const args = ["customer", "create", "--name1", "Brightside Solar AS", "--org-no", "923456789",
+      "--email", "post@brightside.test", "--hubspot-id", "777"];
+    const created = await itx([...args, "--json", "identity"]);
+    expect(created.code, created.stdout + created.stderr).toBe(0);
+    const { seqNo } = created.json<CustomerView>().data.identity;
+
+    const view = await itx(["customer", "view", String(seqNo), "--json", "identity,contact"]);
+    expect(view.json().data).toMatchObject({
+      identity: { name1: "Brightside Solar AS", externalIds: [{ system: "HUBSPOTCUST", id: "777" }] },
+      contact: { emails: [{ address: "post@brightside.test" }] },
+    });
+
+    const again = await itx([...args, "--json", "identity"]);
+    expect(again.code).toBe(4);
+    expect(again.error().candidates).toEqual([
+      { id: created.json<CustomerView>().data.identity.emenId, name: "Brightside Solar AS", seqNo },
+    ]);
+  });
+
+  it("updates a prospect's channels by org number, with --dry-run leaving it untouched", async () => {
+    const args = ["prospect", "update", "--org-no", "987654321", "--add-email", "sales@nordicpumps.test",
+      "--set-address", "line1=Pumpeveien 3,city=Bergen"];
+    const dry = await itx([...args, "--dry-run", "--json", "changes,dryRun"]);
+    expect(dry.code, dry.stderr).toBe(0);
+    expect(dry.json().data).toMatchObject({ dryRun: true, changes: [{ field: "emails" }, { field: "addresses" }] });
+    const before = await itx(["prospect", "view", "20100", "--json", "contact"]);
+    expect(before.json<CustomerView>().data.contact.emails).toHaveLength(1);
+
+    const run = await itx([...args, "--json", "changes,dryRun"]);
+    expect(run.json<CustomerUpdateResult>().data.dryRun).toBe(false);
+    const after = await itx(["prospect", "view", "20100", "--json", "contact"]);
+    expect(after.json<CustomerView>().data.contact).toMatchObject({
+      emails: [{ address: "post@nordicpumps.test" }, { address: "sales@nordicpumps.test" }],
+      addresses: [{ type: 1, line1: "Pumpeveien 3", postalCity: "Bergen" }],
+    });
+  });
+
+  it("converts a prospect into a customer that keeps its HubSpot id and contacts", async () => {
+    const run = await itx(["prospect", "convert", "20100", "--deactivate", "--json", "identity,contactLinks"]);
+    expect(run.code, run.stderr).toBe(0);
+    const { identity, contactLinks } = run.json<ProspectConvertResult>().data;
+    expect(identity).toMatchObject({ emenId: 600, role: "customer" });
+    expect(contactLinks).toBe(1);
+
+    const byHubspot = await itx(["customer", "view", "--hubspot-id", "31337000", "--json", "identity"]);
+    expect(byHubspot.json<CustomerView>().data.identity.seqNo).toBe(identity.seqNo);
+    const contacts = await itx(["customer", "contacts", String(identity.seqNo), "--json", "linkedContacts"]);
+    expect(contacts.json<CustomerContactsResult>().data.linkedContacts).toMatchObject([{ name1: "Kari", name2: "Nordmann" }]);
+
+    const again = await itx(["prospect", "convert", "--emen-id", "600", "--json", "identity"]);
+    expect(again.code).toBe(1);
+  });
+
+  it("retries a 503 and surfaces other API errors with exit code 2", async () => {
+    server.failNext("/rest/itxems/cases", { status: 503, headers: { "retry-after": "0" } });
+    const retried = await itx(["ticket", "view", "43", "--json", "seqNo", "--debug"]);
+    expect(retried.code, retried.stderr).toBe(0);
+    expect(retried.stderr).toMatch(/\[itx\] GET \S+\/rest\/itxems\/cases\?tokenv2=\*\*\*\S* 503 /);
+    expect(retried.stderr).not.toContain("mock-token");
+
+    server.failNext("/rest/itxems/cases", { status: 500, body: "kaboom", times: 5 });
+    const failed = await itx(["ticket", "view", "43", "--json", "seqNo"]);
+    expect(failed.code).toBe(2);
+    expect(failed.error()).toMatchObject({ code: "API", status: 500, retryable: false });
+  });
+
+  it("exits 5 when the server rejects the credentials", async () => {
+    const run = await itx(["ticket", "list", "--json", "seqNo"], {
+      ITX_API_KEY: "?tokenv2=wrong&rcntrl=x&ccntrl=y",
+      ITX_SSO_ENDPOINT: url,
+    });
+    expect(run.code).toBe(5);
+    expect(run.error().code).toBe("AUTH");
+  });
+});
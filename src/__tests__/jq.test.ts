@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { runJq, parseJq } from "../lib/jq.js";
+
+const env = {
+  ok: true,
+  data: [
+    { seqNo: 1, subject: "Bug", status: { name: "Open" }, priority: { id: 2 }, tags: ["a", "b"] },
+    { seqNo: 2, subject: "Feature", status: { name: "Closed" }, priority: { id: 1 }, tags: [] },
+    { seqNo: 3, subject: "Crash", status: { name: "Open" }, priority: { id: 1 }, tags: ["a"] },
+  ],
+  pagination: { limit: 25, offset: 0, hasMore: false },
+};
+
+describe("runJq", () => {
+  it("walks paths, iterators, indexes and slices", () => {
+    expect(runJq(".ok", env)).toEqual([true]);
+    expect(runJq(".data[].seqNo", env)).toEqual([1, 2, 3]);
+    expect(runJq(".data[-1].subject", env)).toEqual(["Crash"]);
+    expect(runJq('.pagination["limit"]', env)).toEqual([25]);
+    expect(runJq(".data[1:].[0].seqNo", env)).toEqual([2]);
+    expect(runJq(".missing.deeper", env)).toEqual([null]);
+  });
+
+  it("filters with select, comparisons and boolean operators", () => {
+    expect(
+      runJq('[.data[] | select(.status.name == "Open" and .priority.id < 2) | .seqNo]', env),
+    ).toEqual([[3]]);
+    expect(runJq(".data | map(.seqNo > 1 or .tags == [])", env)).toEqual([[false, true, true]]);
+  });
+
+  it("constructs objects and arrays with a cartesian product over outputs", () => {
+    expect(runJq("{seqNo, s: .status.name}", env.data[0])).toEqual([{ seqNo: 1, s: "Open" }]);
+    expect(runJq("{k: (1, 2)}", null)).toEqual([{ k: 1 }, { k: 2 }]);
+    expect(runJq('{("x" + "y"): .seqNo}', env.data[0])).toEqual([{ xy: 1 }]);
+  });
+
+  it("supports string interpolation, arithmetic and alternatives", () => {
+    expect(runJq('.data[0] | "#\\(.seqNo): \\(.subject)"', env)).toEqual(["#1: Bug"]);
+    expect(runJq(".pagination.limit * 2 - 1", env)).toEqual([49]);
+    expect(runJq(".nope // \"fallback\"", env)).toEqual(["fallback"]);
+  });
+
+  it("evaluates common builtins", () => {
+    expect(runJq(".data | length", env)).toEqual([3]);
+    expect(runJq(".pagination | keys", env)).toEqual([["hasMore", "limit", "offset"]]);
+    expect(runJq("[.data[].tags[]] | unique", env)).toEqual([["a", "b"]]);
+    expect(runJq(".data | sort_by(.priority.id) | map(.seqNo)", env)).toEqual([[2, 3, 1]]);
+    expect(runJq(".data | group_by(.status.name) | map(length)", env)).toEqual([[1, 2]]);
+    expect(runJq('.data | map(.subject) | join(", ")', env)).toEqual(["Bug, Feature, Crash"]);
+    expect(runJq('.data[] | select(.subject | test("^c"; "i")) | .seqNo', env)).toEqual([3]);
+    expect(runJq(".pagination | to_entries | map(.key) | first", env)).toEqual(["limit"]);
+    expect(runJq("if .ok then \"yes\" elif .x then 1 else \"no\" end", env)).toEqual(["yes"]);
+  });
+
+  it("suppresses errors with ? and reports them otherwise", () => {
+    expect(runJq(".ok[]?", env)).toEqual([]);
+    expect(() => runJq(".ok[]", env)).toThrow(/^jq error: Cannot iterate/);
+  });
+});
+
+describe("parseJq", () => {
+  it("rejects syntax errors and unknown functions up front", () => {
+    expect(() => parseJq(".data[")).toThrow(/^Invalid --jq expression/);
+    expect(() => parseJq(".data | frobnicate")).toThrow(/unknown function "frobnicate"/);
+    expect(() => parseJq('"unterminated')).toThrow(/unterminated string/);
+  });
+
+  it("rejects builtins called with the wrong number of arguments", () => {
+    expect(() => parseJq(".data | map")).toThrow(/map\/0 is not defined near "map"/);
+    expect(() => parseJq("length(1)")).toThrow(/length\/1 is not defined/);
+    expect(parseJq('test("a"; "i")')).toMatchObject({ kind: "call", name: "test" });
+  });
+});
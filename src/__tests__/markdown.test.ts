@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { markdownToHtml, type Mention } from "../lib/markdown.js";
+import { htmlToText } from "../lib/activities.js";
+
+const USERS: Record<string, Mention> = {
+  dave: { label: "@Dave Smith", data: "123" },
+  ann: { label: "@Ann O'Neil & Co", data: "456" },
+};
+const resolveMention = (name: string) => USERS[name];
+
+describe("markdownToHtml", () => {
+  it("splits paragraphs on blank lines and keeps single newlines as <br>", () => {
+    expect(markdownToHtml("First line\nsecond line\n\n\nNext paragraph\n").html).toBe(
+      "<p>First line<br>second line</p><p>Next paragraph</p>",
+    );
+  });
+
+  it("escapes HTML in text, code and link targets", () => {
+    const { html } = markdownToHtml(
+      'Fuse <3 & "breaker" `a<b && c` [docs](https://x.test/?a=1&b=2)',
+    );
+    expect(html).toBe(
+      "<p>Fuse &lt;3 &amp; &quot;breaker&quot; <code>a&lt;b &amp;&amp; c</code> " +
+        '<a href="https://x.test/?a=1&amp;b=2">docs</a></p>',
+    );
+  });
+
+  it("renders bullet and ordered lists, continuation lines and bold", () => {
+    const md = "Checklist:\n- **Power** off\n- Replace fuse\n  then test\n\n3. Call back\n4. Close";
+    expect(markdownToHtml(md).html).toBe(
+      "<p>Checklist:</p><ul><li><strong>Power</strong> off</li><li>Replace fuse<br>then test</li></ul>" +
+        '<ol start="3"><li>Call back</li><li>Close</li></ol>',
+    );
+  });
+
+  it("keeps fenced code verbatim and leaves unsafe link schemes as text", () => {
+    const md = "```\n**not bold**\n<tag>\n```\n[x](javascript:alert(1))";
+    expect(markdownToHtml(md).html).toBe(
+      "<pre><code>**not bold**\n&lt;tag&gt;</code></pre><p>[x](javascript:alert(1))</p>",
+    );
+  });
+
+  it("tags inline mentions at their index in the final HTML", () => {
+    const { html, tags, unresolved } = markdownToHtml(
+      "Fixed <fuse>.\n\nThanks @dave, see \\@dave and mail dave@co.test. cc @ann @nobody",
+      { resolveMention },
+    );
+    expect(tags).toEqual([
+      { startIndex: expect.any(Number), length: 11, type: "user", data: "123" },
+      { startIndex: expect.any(Number), length: "@Ann O&#39;Neil &amp; Co".length, type: "user", data: "456" },
+    ]);
+    for (const tag of tags) {
+      expect(html[tag.startIndex - 1]).toBe("\uFEFF");
+      expect(html.slice(tag.startIndex + tag.length, tag.startIndex + tag.length + 1)).toBe("\uFEFF");
+    }
+    expect(html.slice(tags[0].startIndex, tags[0].startIndex + tags[0].length)).toBe("@Dave Smith");
+    expect(html).toContain("see @dave and mail dave@co.test.");
+    expect(unresolved).toEqual(["nobody"]);
+  });
+
+  it("puts prefix mentions at the start of the first paragraph", () => {
+    const { html, tags } = markdownToHtml("Please look", { prefix: [USERS.dave] });
+    expect(html).toBe("<p>\uFEFF@Dave Smith\uFEFF Please look</p>");
+    expect(tags[0].startIndex).toBe(4);
+
+    expect(markdownToHtml("- item", { prefix: [USERS.dave] }).html).toBe(
+      "<p>\uFEFF@Dave Smith\uFEFF</p><ul><li>item</li></ul>",
+    );
+  });
+
+  it("round-trips through htmlToText", () => {
+    const html = markdownToHtml("Steps:\n- a & b\n- <c>").html;
+    expect(htmlToText(html)).toBe("Steps:\n\n- a & b\n- <c>");
+    expect(markdownToHtml(htmlToText(html)).html).toBe(html);
+    expect(htmlToText(markdownToHtml("literal &lt;").html)).toBe("literal &lt;");
+  });
+});
@@ -9,8 +9,16 @@ import {
   printSuccess,
   printInfo,
   inferErrorCode,
+  errorCodeOf,
+  handleError,
   EXIT,
 } from "../lib/output.js";
+import {
+  ItxAmbiguousError,
+  ItxApiError,
+  ItxAuthError,
+  ItxNotFoundError,
+} from "../lib/errors.js";
 
 afterEach(() => {
   vi.restoreAllMocks();
@@ -97,7 +105,18 @@ describe("output", () => {
       const spy = vi.spyOn(console, "log").mockImplementation(() => {});
       printJsonOk({ id: 7, name: "Acme" });
       const env = JSON.parse(spy.mock.calls[0][0] as string);
-      expect(env).toEqual({ ok: true, data: { id: 7, name: "Acme" } });
+      expect(env).toEqual({
+        ok: true,
+        data: { id: 7, name: "Acme" },
+        meta: { durationMs: expect.any(Number), requests: expect.any(Number) },
+      });
+    });
+
+    it("keeps command meta alongside the timing fields", () => {
+      const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+      printJsonOk([], { meta: { truncated: true, warnings: ["scan capped"] } });
+      const env = JSON.parse(spy.mock.calls[0][0] as string);
+      expect(env.meta).toMatchObject({ truncated: true, warnings: ["scan capped"], requests: expect.any(Number) });
     });
 
     it("includes pagination when provided", () => {
@@ -126,6 +145,7 @@ describe("output", () => {
         code: "NOT_FOUND",
         message: "Customer 999 not found",
         hint: "try `customer search`",
+        retryable: false,
       });
     });
 
@@ -133,7 +153,19 @@ describe("output", () => {
       const spy = vi.spyOn(console, "log").mockImplementation(() => {});
       printJsonError("API", "Backend exploded");
       const env = JSON.parse(spy.mock.calls[0][0] as string);
-      expect(env.error).toEqual({ code: "API", message: "Backend exploded" });
+      expect(env.error).toEqual({ code: "API", message: "Backend exploded", retryable: false });
+    });
+
+    it("adds status, candidates and retryable from details", () => {
+      const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+      printJsonError("AMBIGUOUS", "Ambiguous: 2 match", undefined, {
+        candidates: [{ id: 1, name: "A" }, { id: 2, name: "B" }],
+      });
+      printJsonError("API", "API error 503", undefined, { status: 503, retryable: true });
+      const [amb, api] = spy.mock.calls.map((c) => JSON.parse(c[0] as string).error);
+      expect(amb.candidates).toEqual([{ id: 1, name: "A" }, { id: 2, name: "B" }]);
+      expect(amb.retryable).toBe(false);
+      expect(api).toMatchObject({ status: 503, retryable: true });
     });
   });
 
@@ -180,4 +212,52 @@ describe("output", () => {
       expect(inferErrorCode("something completely unexpected")).toBe("UNKNOWN");
     });
   });
+
+  describe("typed errors", () => {
+    const api503 = new ItxApiError("API error 503 Service Unavailable: busy", {
+      status: 503,
+      method: "GET",
+      path: "/rest/x",
+      body: "busy",
+      requestId: "req-1",
+    });
+
+    it("errorCodeOf maps each class regardless of message", () => {
+      expect(errorCodeOf(new ItxAuthError("session expired", 401))).toBe("AUTH");
+      expect(errorCodeOf(new ItxNotFoundError("no such ticket"))).toBe("NOT_FOUND");
+      expect(errorCodeOf(new ItxAmbiguousError("two of them", []))).toBe("AMBIGUOUS");
+      expect(errorCodeOf(new ItxApiError("not found in body", { status: 500, method: "GET", path: "/" }))).toBe("API");
+      expect(errorCodeOf(new Error("Not found: x"))).toBe("NOT_FOUND");
+    });
+
+    it("ItxApiError is retryable for throttling, gateway errors and network failures", () => {
+      expect(api503.retryable).toBe(true);
+      expect(new ItxApiError("timeout", { status: null, method: "GET", path: "/" }).retryable).toBe(true);
+      expect(new ItxApiError("boom", { status: 500, method: "GET", path: "/" }).retryable).toBe(false);
+    });
+
+    it("handleError fills the JSON envelope and exits with the class's code", () => {
+      const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+      const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+        throw new Error("exit");
+      }) as never);
+
+      expect(() => handleError(api503, { json: true })).toThrow("exit");
+      expect(exitSpy).toHaveBeenLastCalledWith(EXIT.API);
+      expect(JSON.parse(spy.mock.calls[0][0] as string).error).toEqual({
+        code: "API",
+        message: "API error 503 Service Unavailable: busy",
+        status: 503,
+        retryable: true,
+      });
+
+      const ambiguous = new ItxAmbiguousError("Ambiguous: 2 customer entities match orgNo=1", [
+        { id: 500, name: "Wright Ltd", seqNo: 10058 },
+        { id: 501, name: "Wright AS", seqNo: 10059 },
+      ]);
+      expect(() => handleError(ambiguous, { json: true })).toThrow("exit");
+      expect(exitSpy).toHaveBeenLastCalledWith(EXIT.AMBIGUOUS);
+      expect(JSON.parse(spy.mock.calls[1][0] as string).error.candidates).toHaveLength(2);
+    });
+  });
 });
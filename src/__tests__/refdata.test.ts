@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Command } from "commander";
+import { setConfig, clearConfig } from "../lib/config.js";
+import { ItxClient } from "../lib/client.js";
+import { buildCategoryTree, clearRefdataCache, loadRefdata } from "../lib/refdata.js";
+import { registerRefdataCommands } from "../commands/refdata.js";
+import { ALL_FIELDS } from "./helpers.js";
+
+beforeEach(() => {
+  setConfig({
+    ssoEndpoint: "https://sso.test.com",
+    activeEndpoint: "https://api.test.com",
+    tokenv2: "test-token",
+    rcntrl: "rc",
+    ccntrl: "cc",
+  });
+});
+
+afterEach(() => {
+  clearConfig();
+  clearRefdataCache();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+function jsonResponse(data: unknown) {
+  return {
+    ok: true,
+    headers: new Headers({ "content-type": "application/json" }),
+    json: async () => data,
+  };
+}
+
+const statuses = [{ emstId: 1, internalStatus: 1, sort: 2, name: { defaultText: "Open" } }];
+const priorities = [{ empriId: 10, sort: 1, name: { defaultText: "Normal" } }];
+const categories = [
+  { emcaId: 100, name: { defaultText: "Support" } },
+  { emcaId: 101, name: { defaultText: "Billing" }, parent: { emcaId: 100 } },
+];
+
+function refdataFetch() {
+  return vi
+    .fn()
+    .mockResolvedValueOnce(jsonResponse(statuses))
+    .mockResolvedValueOnce(jsonResponse(priorities))
+    .mockResolvedValueOnce(jsonResponse(categories));
+}
+
+describe("loadRefdata disk cache", () => {
+  it("serves a fresh process from disk without re-fetching", async () => {
+    const mockFetch = refdataFetch();
+    vi.stubGlobal("fetch", mockFetch);
+    await loadRefdata(new ItxClient());
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+
+    // New module instance = empty per-process memo, same cache file.
+    vi.resetModules();
+    const fresh = await import("../lib/refdata.js");
+    const { ItxClient: FreshClient } = await import("../lib/client.js");
+    const data = await fresh.loadRefdata(new FreshClient());
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(data.statuses[0].name).toBe("Open");
+    expect(data.categories[1].parent).toBe(100);
+  });
+
+  it("re-fetches once the TTL has expired", async () => {
+    vi.stubEnv("ITX_REFDATA_TTL", "0");
+    const mockFetch = refdataFetch()
+      .mockResolvedValueOnce(jsonResponse(statuses))
+      .mockResolvedValueOnce(jsonResponse(priorities))
+      .mockResolvedValueOnce(jsonResponse(categories));
+    vi.stubGlobal("fetch", mockFetch);
+    await loadRefdata(new ItxClient());
+
+    vi.resetModules();
+    const fresh = await import("../lib/refdata.js");
+    const { ItxClient: FreshClient } = await import("../lib/client.js");
+    await fresh.loadRefdata(new FreshClient());
+
+    expect(mockFetch).toHaveBeenCalledTimes(6);
+  });
+
+  it("keeps entries apart per profile and per tenant on the same host", async () => {
+    const other = [{ emstId: 7, internalStatus: 1, sort: 1, name: { defaultText: "Åpen" } }];
+    const mockFetch = refdataFetch()
+      .mockResolvedValueOnce(jsonResponse(other))
+      .mockResolvedValueOnce(jsonResponse(priorities))
+      .mockResolvedValueOnce(jsonResponse(categories))
+      .mockResolvedValueOnce(jsonResponse(other))
+      .mockResolvedValueOnce(jsonResponse(priorities))
+      .mockResolvedValueOnce(jsonResponse(categories));
+    vi.stubGlobal("fetch", mockFetch);
+    await loadRefdata(new ItxClient());
+
+    setConfig(
+      {
+        ssoEndpoint: "https://sso.test.com",
+        activeEndpoint: "https://api.test.com",
+        tokenv2: "other-token",
+        rcntrl: "rc2",
+        ccntrl: "cc2",
+      },
+      "other",
+    );
+    const credentials = {
+      ssoEndpoint: "https://sso.test.com",
+      activeEndpoint: "https://api.test.com",
+      tokenv2: "env-token",
+      rcntrl: "rc3",
+      ccntrl: "cc3",
+    };
+    for (const client of [new ItxClient("other"), new ItxClient("default", credentials)]) {
+      vi.resetModules();
+      const fresh = await import("../lib/refdata.js");
+      const data = await fresh.loadRefdata(client);
+      expect(data.statuses[0].emstId).toBe(7);
+    }
+    expect(mockFetch).toHaveBeenCalledTimes(9);
+  });
+});
+
+describe("buildCategoryTree", () => {
+  it("nests children under parents and treats orphans as roots", () => {
+    const tree = buildCategoryTree([
+      { emcaId: 1, name: "Support", parent: null },
+      { emcaId: 2, name: "Login", parent: 1 },
+      { emcaId: 3, name: "Orphan", parent: 999 },
+    ]);
+    expect(tree.map((n) => n.name)).toEqual(["Orphan", "Support"]);
+    expect(tree[1].children.map((n) => n.emcaId)).toEqual([2]);
+  });
+});
+
+describe("refdata commands", () => {
+  it("refdata list --json emits tables and the category tree", async () => {
+    vi.stubGlobal("fetch", refdataFetch());
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const program = new Command();
+    program.exitOverride();
+    registerRefdataCommands(program);
+    await program.parseAsync(["node", "itx", "refdata", "list", "--json", ALL_FIELDS["refdata list"]]);
+
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.ok).toBe(true);
+    expect(env.data.statuses[0].emstId).toBe(1);
+    expect(env.data.priorities[0].name).toBe("Normal");
+    expect(env.data.categoryTree).toEqual([
+      {
+        emcaId: 100,
+        name: "Support",
+        children: [{ emcaId: 101, name: "Billing", children: [] }],
+      },
+    ]);
+  });
+});
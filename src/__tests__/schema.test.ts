@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Command } from "commander";
+import { Ajv2020 } from "ajv/dist/2020.js";
+import { setConfig, clearConfig } from "../lib/config.js";
+import { clearRefdataCache } from "../lib/refdata.js";
+import { COMMAND_FIELDS } from "../lib/schemas.js";
+import { commandJsonSchema, JSON_SCHEMA_DIALECT, type JsonSchema } from "../lib/jsonschema.js";
+import { registerTicketCommands } from "../commands/ticket.js";
+import { registerCustomerCommands } from "../commands/customer.js";
+import { registerProspectCommands } from "../commands/prospect.js";
+import { registerRefdataCommands } from "../commands/refdata.js";
+import { registerHelpCommands } from "../commands/help.js";
+
+afterEach(() => {
+  clearConfig();
+  clearRefdataCache();
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  setConfig({
+    ssoEndpoint: "https://sso.test.com",
+    activeEndpoint: "https://api.test.com",
+    tokenv2: "test-token",
+  });
+  vi.stubGlobal("fetch", vi.fn(fakeItx));
+});
+
+function createProgram(): Command {
+  const program = new Command();
+  program.exitOverride();
+  program.configureOutput({ writeOut: () => {}, writeErr: () => {} });
+  registerTicketCommands(program);
+  registerCustomerCommands(program);
+  registerProspectCommands(program);
+  registerRefdataCommands(program);
+  registerHelpCommands(program);
+  return program;
+}
+
+// ---------- fixtures ----------
+
+const customerExt = {
+  eeexId: 900,
+  extType: 10,
+  seqNo: 10058,
+  active: true,
+  thirdPartySystemEntityExtList: [{ id: "56610569434", thirdPartySystem: { estpId: 87 } }],
+  extensionLinks: [{ from: { eeexId: 8001 }, to: { eeexId: 900 }, type: 10 }],
+};
+
+const customer = {
+  emenId: 500,
+  name1: "Wright Electrical Ltd",
+  name2: null,
+  entityType: 2,
+  extensions: [customerExt, { ...customerExt, eeexId: 901, extType: 9, seqNo: 20058 }],
+  emails: [{ emailType: 1, email: "office@wright.test" }],
+  numbers: [{ numberType: 2, number: "+4412345" }],
+  addresses: [{ addressType: 1, line1: "1 High St", postalCity: "Leeds" }],
+};
+
+const contact = {
+  emenId: 7001,
+  name1: "Jane",
+  name2: "Wright",
+  entityType: 1,
+  extensions: [{ eeexId: 8001, extType: 40, title: "CFO" }],
+  emails: [{ email: "jane@wright.test" }],
+  numbers: [],
+};
+
+const members = [
+  { role: 1, user: { userId: 7, firstName: "Alice", lastName: "Smith" } },
+  { role: 2, user: { userId: 8, firstName: "Bob", lastName: "Jones" } },
+  {
+    role: 20,
+    anon: true,
+    entityExtension: { eeexId: 900, seqNo: 10058, extType: 10, entity: { emenId: 500, name1: "Wright Electrical Ltd" } },
+  },
+];
+
+const ticketCase = {
+  seqNo: 42,
+  eactId: 420,
+  description: "Server issue",
+  activityType: { eatyId: 15 },
+  emsStatus: { emstId: 1, name: { defaultText: "Open" } },
+  priority: { empriId: 11 },
+  category: { emcaId: 3 },
+  creationTs: "2026-04-01T00:00:00Z",
+  updateTs: "2026-04-02T00:00:00Z",
+  members,
+  links: [{ type: 14, from: { eactId: 1001 }, to: { eactId: 420 } }],
+  texts: [{ creationTs: "2026-04-02T00:00:00Z", creator: { firstName: "Alice" }, text: "<p>On it</p>" }],
+};
+
+const activities = [
+  ticketCase,
+  { eactId: 1001, activityType: { eatyId: 11 }, direction: 2, creationTs: "2026-04-01T01:00:00Z", subject: "Help", fromMail: "jane@wright.test", coreFileReferences: [{ cfreId: 3001, name: "photo.jpg", size: 10 }] },
+  { eactId: 1002, activityType: { eatyId: 4 }, direction: 1, creationTs: "2026-04-01T02:00:00Z", startTs: "2026-04-01T02:00:00Z", endTs: "2026-04-01T02:05:00Z" },
+  { eactId: 1003, activityType: { eatyId: 9 }, creationTs: "2026-04-01T03:00:00Z", value: 1250.5, saleProbability: 40, saleStep: { name: "Proposal" } },
+];
+
+const refdata: Record<string, unknown[]> = {
+  "/rest/itxems/statuses": [
+    { emstId: 1, internalStatus: 1, sort: 1, name: { defaultText: "Open" } },
+    { emstId: 2, internalStatus: 3, sort: 2, name: { defaultText: "Closed" } },
+  ],
+  "/rest/itxems/priorities": [
+    { empriId: 10, sort: 2, name: { defaultText: "Normal" } },
+    { empriId: 11, sort: 1, name: { defaultText: "Critical" } },
+  ],
+  "/rest/itxems/categories": [
+    { emcaId: 3, name: { defaultText: "Support" } },
+    { emcaId: 4, name: { defaultText: "Billing" }, parent: { emcaId: 3 } },
+  ],
+};
+
+/** Route fetches by path so every command sees a consistent fake ITX. */
+async function fakeItx(url: string, init?: RequestInit) {
+  const path = new URL(url).pathname;
+  const body = init?.body ? JSON.parse(init.body as string) : {};
+  let data: unknown = [];
+  if (refdata[path]) data = refdata[path];
+  else if (path === "/rest/itxems/entities/search") {
+    const wantsContacts = body.extensionTypes?.includes(40) || body.emenIds?.includes(7001);
+    data = wantsContacts ? [contact] : [customer];
+  } else if (path === "/rest/itxems/entity") data = customer;
+  else if (path === "/rest/itxems/activities") data = activities;
+  else if (path === "/rest/itxems/activities/search") data = activities.slice(1, 2);
+  else if (path === "/rest/itxems/cases" && init?.method === "PUT") data = {};
+  else if (path === "/rest/itxems/cases" && init?.method === "POST") data = ticketCase;
+  else if (path === "/rest/itxems/cases" || path === "/rest/itxems/cases/search") data = [ticketCase];
+  else if (path === "/rest/core/users/search") {
+    data = [{ userId: 8, firstName: "Bob", lastName: "Jones", email: "bob@test.com" }];
+  }
+  return {
+    ok: true,
+    headers: new Headers({ "content-type": "application/json" }),
+    json: async () => data,
+  };
+}
+
+// ---------- helpers ----------
+
+const ajv = new Ajv2020({ strict: true, allErrors: true });
+
+async function runJson(argv: string[]): Promise<unknown> {
+  const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+  await createProgram().parseAsync(["node", "itx", ...argv]);
+  const env = JSON.parse(spy.mock.calls[0][0] as string);
+  expect(env.ok).toBe(true);
+  spy.mockRestore();
+  return env.data;
+}
+
+/** Top-level property names of a command's data (array roots use the item). */
+function topLevelFields(schema: JsonSchema): string[] {
+  const defs = schema.$defs as Record<string, JsonSchema>;
+  let node: JsonSchema = schema.type === "array" ? (schema.items as JsonSchema) : schema;
+  while (typeof node.$ref === "string") node = defs[node.$ref.slice("#/$defs/".length)];
+  return Object.keys(node.properties as Record<string, unknown>);
+}
+
+// ---------- tests ----------
+
+describe("commandJsonSchema", () => {
+  it("covers every command in COMMAND_FIELDS with matching top-level fields", () => {
+    for (const [command, fields] of Object.entries(COMMAND_FIELDS)) {
+      const schema = commandJsonSchema(command);
+      expect(schema, command).toBeDefined();
+      expect(schema!.$schema).toBe(JSON_SCHEMA_DIALECT);
+      expect(ajv.validateSchema(schema!), command).toBe(true);
+      expect(topLevelFields(schema!).sort(), command).toEqual([...fields].sort());
+    }
+  });
+
+  it("returns undefined for unknown commands", () => {
+    expect(commandJsonSchema("ticket frobnicate")).toBeUndefined();
+  });
+
+  it("declares enums for ActivityKind and the health signal", () => {
+    const schema = commandJsonSchema("customer summary")!;
+    const defs = schema.$defs as Record<string, { enum?: string[] }>;
+    expect(defs.ActivityKind.enum).toContain("emailConversation");
+    const summary = defs.CustomerSummary as unknown as {
+      properties: { health: { properties: { signal: { enum: string[] } } } };
+    };
+    expect(summary.properties.health.properties.signal.enum).toEqual([
+      "ok", "attention", "trouble", "stalled",
+    ]);
+  });
+});
+
+describe("command output validates against its schema", () => {
+  const cases: [string, string[]][] = [
+    ["ticket list", ["ticket", "list", "--status", "open", "--sort", "priority"]],
+    ["ticket view", ["ticket", "view", "42"]],
+    ["ticket create", ["ticket", "create", "Power outage", "--customer", "10058", "--priority", "crit"]],
+    ["ticket update", ["ticket", "update", "42", "--status", "closed", "--add-follower", "bob@test.com"]],
+    ["ticket activities", ["ticket", "activities", "42"]],
+    ["ticket attachments", ["ticket", "attachments", "42"]],
+    ["ticket reply", ["ticket", "reply", "42", "Fixed", "--cc", "bob@test.com", "--dry-run"]],
+    ["customer search", ["customer", "search", "Wright"]],
+    ["customer view", ["customer", "view", "10058", "--include-contacts"]],
+    ["customer create", ["customer", "create", "--name1", "Wright Electrical Ltd", "--force"]],
+    ["customer update", ["customer", "update", "10058", "--add-email", "billing@wright.test", "--dry-run"]],
+    ["customer tickets", ["customer", "tickets", "10058", "--status", "any"]],
+    ["customer activities", ["customer", "activities", "10058"]],
+    ["customer summary", ["customer", "summary", "10058", "--depth", "full"]],
+    ["customer contacts", ["customer", "contacts", "10058"]],
+    ["prospect view", ["prospect", "view", "20058"]],
+    ["refdata list", ["refdata", "list"]],
+  ];
+
+  for (const [command, argv] of cases) {
+    it(command, async () => {
+      const validate = ajv.compile(commandJsonSchema(command)!);
+      const data = await runJson([...argv, "--json", COMMAND_FIELDS[command].join(",")]);
+      expect(validate(data), ajv.errorsText(validate.errors)).toBe(true);
+    });
+  }
+
+  it("rejects fields the contract doesn't declare", async () => {
+    const validate = ajv.compile(commandJsonSchema("ticket view")!);
+    const data = (await runJson([
+      "ticket", "view", "42", "--json", COMMAND_FIELDS["ticket view"].join(","),
+    ])) as Record<string, unknown>;
+    expect(validate({ ...data, someNewField: 1 })).toBe(false);
+  });
+});
+
+describe("itx schema", () => {
+  it("prints the JSON Schema alongside the field list", async () => {
+    const data = (await runJson(["schema", "customer summary"])) as {
+      fields: string[];
+      schema: JsonSchema;
+    };
+    expect(data.fields).toEqual(COMMAND_FIELDS["customer summary"]);
+    expect(data.schema.$schema).toBe(JSON_SCHEMA_DIALECT);
+    expect(data.schema.$ref).toBe("#/$defs/CustomerSummary");
+    expect(Object.keys(data.schema.$defs as object)).toEqual(
+      expect.arrayContaining(["EntityIdentity", "ActivitySummary", "ContactInfo"]),
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { setConfig, clearConfig } from "../lib/config.js";
+import { ItxClient } from "../lib/client.js";
+import { printJsonOk } from "../lib/output.js";
+import {
+  configureTracing,
+  redactUrl,
+  resetTracing,
+  traceHar,
+  traceMeta,
+} from "../lib/trace.js";
+
+beforeEach(() => {
+  setConfig({
+    ssoEndpoint: "https://sso.example.com",
+    activeEndpoint: "https://node1.example.com",
+    tokenv2: "secret-token",
+    rcntrl: "rc-val",
+    ccntrl: "cc-val",
+  });
+  resetTracing();
+});
+
+afterEach(() => {
+  configureTracing({ debug: undefined, traceFile: undefined });
+  clearConfig();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+function stubFetch(body: unknown, status = 200) {
+  const fetchMock = vi.fn(async () =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json", "set-cookie": "JSESSIONID=abc" },
+    }),
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("redactUrl", () => {
+  it("masks the auth params and leaves the rest", () => {
+    expect(redactUrl("https://h.test/rest/x?tokenv2=t&rcntrl=r&ccntrl=c&limitTo=5")).toBe(
+      "https://h.test/rest/x?tokenv2=***&rcntrl=***&ccntrl=***&limitTo=5",
+    );
+  });
+});
+
+describe("request tracing", () => {
+  it("counts every request for meta, even without --debug", async () => {
+    stubFetch({ ok: 1 });
+    const client = new ItxClient();
+    await client.request("/rest/a");
+    await client.request("/rest/b");
+
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    printJsonOk({});
+    const env = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(env.meta.requests).toBe(2);
+    expect(env.meta.durationMs).toBeGreaterThanOrEqual(0);
+    expect(traceHar().log.entries).toEqual([]);
+  });
+
+  it("logs method, redacted URL, status, latency and size to stderr with --debug", async () => {
+    stubFetch({ hello: "world" });
+    configureTracing({ debug: true });
+    const stderr = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await new ItxClient().request("/rest/itxems/cases", { params: { limitTo: 5 } });
+
+    expect(result).toEqual({ hello: "world" });
+    const line = stderr.mock.calls[0][0] as string;
+    expect(line).toMatch(
+      /^\[itx\] GET https:\/\/node1\.example\.com\/rest\/itxems\/cases\?tokenv2=\*\*\*&rcntrl=\*\*\*&ccntrl=\*\*\*&limitTo=5 200 \d+ms 17 B$/,
+    );
+    expect(line).not.toContain("secret-token");
+  });
+
+  it("turns on with ITX_DEBUG and logs network failures", async () => {
+    vi.stubEnv("ITX_DEBUG", "1");
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(Object.assign(new TypeError("fetch failed"), {
+      cause: { code: "EHOSTUNREACH" },
+    })));
+    const stderr = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(new ItxClient().request("/rest/x")).rejects.toThrow("EHOSTUNREACH");
+    expect(stderr.mock.calls[0][0]).toMatch(/GET \S+ failed \(EHOSTUNREACH\) \d+ms/);
+    expect(traceMeta().requests).toBe(1);
+  });
+
+  it("records HAR entries with secrets redacted when a trace file is set", async () => {
+    stubFetch({ seqNo: 42 });
+    configureTracing({ traceFile: "/nonexistent/itx-trace.har", creator: { name: "itx", version: "9.9.9" } });
+
+    await new ItxClient().request("/rest/itxems/cases/search", { method: "POST", body: { eactIds: [1] } });
+
+    const har = traceHar();
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.creator).toEqual({ name: "itx", version: "9.9.9" });
+    const [entry] = har.log.entries;
+    expect(entry.request.method).toBe("POST");
+    expect(entry.request.url).not.toContain("secret-token");
+    expect(entry.request.queryString).toContainEqual({ name: "tokenv2", value: "***" });
+    expect(entry.request.postData).toEqual({ mimeType: "application/json", text: '{"eactIds":[1]}' });
+    expect(entry.response.status).toBe(200);
+    expect(entry.response.content).toEqual({
+      size: 12,
+      mimeType: "application/json",
+      text: '{"seqNo":42}',
+    });
+    expect(entry.response.headers).toContainEqual({ name: "set-cookie", value: "***" });
+  });
+
+  it("records binary and oversized bodies by size only", async () => {
+    const big = "x".repeat(2 * 1024 * 1024);
+    vi.stubGlobal("fetch", vi.fn()
+      .mockResolvedValueOnce(new Response(Buffer.from("ID3 recording"), {
+        headers: { "content-type": "audio/mpeg", "content-length": "13" },
+      }))
+      .mockResolvedValueOnce(new Response(big, {
+        headers: { "content-type": "text/plain", "content-length": String(big.length) },
+      })));
+    configureTracing({ debug: true, traceFile: "/nonexistent/itx-trace.har" });
+    const stderr = vi.spyOn(console, "error").mockImplementation(() => {});
+    const client = new ItxClient();
+
+    const recording = await client.downloadFile(3002);
+    await client.request("/rest/big");
+
+    expect(recording.toString()).toBe("ID3 recording");
+    expect(stderr.mock.calls[0][0]).toMatch(/ 200 \d+ms 13 B$/);
+    expect(stderr.mock.calls[1][0]).toMatch(/ 200 \d+ms 2048\.0 kB$/);
+    const [recorded, oversized] = traceHar().log.entries;
+    expect(recorded.response.content).toEqual({ size: 13, mimeType: "audio/mpeg" });
+    expect(oversized.response.content).toEqual({ size: big.length, mimeType: "text/plain" });
+  });
+});
@@ -3,36 +3,43 @@ import { Command } from "commander";
 import {
   getConfig,
   setConfig,
-  clearConfig,
   isConfigured,
   getConfigPath,
+  getCurrentProfile,
+  getActiveProfile,
+  setActiveProfile,
+  removeProfile,
+  clearConfig,
+  getEnvCredentials,
+  loginCommand,
+  parseApiKey,
+  DEFAULT_PROFILE,
+  DEFAULT_SSO_ENDPOINT,
+  getSecretStore,
+  migrateSecrets,
+  type ItxCredentials,
 } from "../lib/config.js";
+import {
+  isLibsecretAvailable,
+  PASSPHRASE_ENV,
+  SECRET_STORE_NAMES,
+  type SecretField,
+  type SecretStoreName,
+} from "../lib/secrets.js";
 import { ItxClient } from "../lib/client.js";
 import {
   printError,
   printSuccess,
+  printInfo,
   printJsonOk,
   printJsonError,
   handleError,
   exitWithError,
 } from "../lib/output.js";
+import { readStdin } from "../lib/stdin.js";
 
-const DEFAULT_SSO_ENDPOINT = "https://app.itxuc.com";
-
-/** Parse an ITX API key string like `?tokenv2=...&rcntrl=...&ccntrl=...` */
-export function parseApiKey(input: string): { tokenv2: string; rcntrl: string; ccntrl: string } | null {
-  const trimmed = input.trim();
-  // Accept with or without leading ?
-  const qs = trimmed.startsWith("?") ? trimmed.slice(1) : trimmed;
-  const params = new URLSearchParams(qs);
-  const tokenv2 = params.get("tokenv2");
-  if (!tokenv2) return null;
-  return {
-    tokenv2,
-    rcntrl: params.get("rcntrl") ?? "",
-    ccntrl: params.get("ccntrl") ?? "",
-  };
-}
+// Re-exported for callers that predate the move to lib/config.
+export { parseApiKey };
 
 async function prompt(question: string, defaultValue?: string): Promise<string> {
   const rl = createInterface({ input: process.stdin, output: process.stdout });
@@ -42,35 +49,94 @@ async function prompt(question: string, defaultValue?: string): Promise<string>
   return answer.trim() || defaultValue || "";
 }
 
+interface LoginOpts {
+  apiKey?: string;
+  apiKeyStdin?: boolean;
+  ssoEndpoint?: string;
+  json?: boolean;
+}
+
+function failLogin(opts: LoginOpts, code: "USAGE" | "AUTH", message: string): never {
+  if (opts.json) {
+    printJsonError(code, message);
+  } else {
+    printError(message);
+  }
+  exitWithError(code);
+}
+
 export function registerConfigCommands(program: Command): void {
-  // Top-level interactive login command
+  // Top-level login command — prompts unless the key comes from a flag or stdin
   program
     .command("login")
-    .description("Log in with your ITX API key")
-    .action(async () => {
-      const apiKeyInput = await prompt("Paste API key (?tokenv2=...&rcntrl=...&ccntrl=...)");
+    .description("Log in with your ITX API key (itx login --profile acme)")
+    .option("--api-key <key>", "API key (?tokenv2=...&rcntrl=...&ccntrl=...) instead of prompting")
+    .option("--api-key-stdin", "Read the API key from stdin (echo $KEY | itx login --api-key-stdin)")
+    .option("--sso-endpoint <url>", `SSO endpoint (env: ITX_SSO_ENDPOINT, default: ${DEFAULT_SSO_ENDPOINT})`)
+    .option("--json", "Output raw JSON")
+    .action(async (opts: LoginOpts) => {
+      if (opts.apiKey !== undefined && opts.apiKeyStdin) {
+        failLogin(opts, "USAGE", "Use either --api-key or --api-key-stdin, not both.");
+      }
+      const apiKeyInput =
+        opts.apiKey ??
+        (opts.apiKeyStdin
+          ? await readStdin()
+          : await prompt("Paste API key (?tokenv2=...&rcntrl=...&ccntrl=...)"));
       const parsed = parseApiKey(apiKeyInput);
       if (!parsed) {
-        printError("Invalid API key. Expected format: ?tokenv2=...&rcntrl=...&ccntrl=...");
-        exitWithError("USAGE");
+        failLogin(opts, "USAGE", "Invalid API key. Expected format: ?tokenv2=...&rcntrl=...&ccntrl=...");
       }
 
-      setConfig({
-        ssoEndpoint: DEFAULT_SSO_ENDPOINT,
-        tokenv2: parsed.tokenv2,
-        rcntrl: parsed.rcntrl,
-        ccntrl: parsed.ccntrl,
-      });
-      printSuccess("Logged in.");
+      const profile = getCurrentProfile();
+      const credentials: ItxCredentials = {
+        ssoEndpoint: (opts.ssoEndpoint || process.env.ITX_SSO_ENDPOINT || DEFAULT_SSO_ENDPOINT).replace(/\/$/, ""),
+        ...parsed,
+      };
+
+      // Prove the key works before it replaces whatever the profile held.
+      let user: Record<string, unknown>;
+      let endpoint: string;
+      try {
+        const client = new ItxClient(profile, credentials);
+        endpoint = await client.resolveEndpoint();
+        user = (await client.getActiveUser()) as Record<string, unknown>;
+      } catch (err) {
+        failLogin(opts, "AUTH", `Login failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+
+      // Saving can fail too, e.g. an encrypted secret store without its passphrase.
+      try {
+        setConfig({ ...credentials, activeEndpoint: endpoint }, profile);
+        // The first profile you log in to becomes the one used without --profile.
+        if (!isConfigured(getActiveProfile())) setActiveProfile(profile);
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+
+      if (opts.json) {
+        printJsonOk({ profile, user, endpoint, ssoEndpoint: credentials.ssoEndpoint });
+        return;
+      }
+      const name = [user.firstName, user.lastName].filter(Boolean).join(" ") || "(unknown)";
+      const where = profile === DEFAULT_PROFILE ? "" : ` (profile ${profile})`;
+      printSuccess(`Logged in as ${name}${where}.`);
     });
 
   // Top-level logout command (replaces config clear)
   program
     .command("logout")
-    .description("Log out and clear stored credentials")
-    .action(() => {
-      clearConfig();
-      printSuccess("Logged out.");
+    .description("Log out and clear the current profile's stored credentials")
+    .option("--all", "Log out of every profile and delete all settings, aliases and templates")
+    .action((opts: { all?: boolean }) => {
+      if (opts.all) {
+        clearConfig();
+        printSuccess("Logged out of all profiles.");
+        return;
+      }
+      const profile = getCurrentProfile();
+      removeProfile(profile);
+      printSuccess(profile === DEFAULT_PROFILE ? "Logged out." : `Logged out of profile ${profile}.`);
     });
 
   // Top-level status command (replaces config test)
@@ -79,25 +145,41 @@ export function registerConfigCommands(program: Command): void {
     .description("Show login status and test API connectivity")
     .option("--json", "Output raw JSON")
     .action(async (opts: { json: boolean }) => {
-      if (!isConfigured()) {
+      const profile = getCurrentProfile();
+      let env: ItxCredentials | undefined;
+      try {
+        env = getEnvCredentials();
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+      if (!env && !isConfigured(profile)) {
+        const message = `Not configured. Run "${loginCommand(profile)}" first.`;
         if (opts.json) {
-          printJsonError("AUTH", 'Not configured. Run "itx login" first.');
+          printJsonError("AUTH", message);
         } else {
-          printError('Not configured. Run "itx login" first.');
+          printError(message);
         }
         exitWithError("AUTH");
       }
 
-      const c = getConfig();
+      const c = getConfig(profile, { secrets: false });
       const aliases = c.aliases ? Object.keys(c.aliases) : [];
 
       try {
-        const client = new ItxClient();
+        const client = new ItxClient(profile, env);
         const endpoint = await client.resolveEndpoint();
         const user = await client.getActiveUser() as Record<string, unknown>;
 
         if (opts.json) {
-          printJsonOk({ user, endpoint, ssoEndpoint: c.ssoEndpoint, configPath: getConfigPath(), aliases: c.aliases });
+          printJsonOk({
+            user,
+            profile,
+            credentials: env ? "env" : "profile",
+            endpoint,
+            ssoEndpoint: env?.ssoEndpoint ?? c.ssoEndpoint,
+            configPath: getConfigPath(),
+            aliases: c.aliases,
+          });
           return;
         }
 
@@ -109,8 +191,9 @@ export function registerConfigCommands(program: Command): void {
         console.log();
         console.log(`  User:      ${name}${email ? ` <${email}>` : ""}`);
         console.log(`  User ID:   ${userId}`);
+        console.log(`  Profile:   ${env ? "(ITX_API_KEY)" : profile}`);
         console.log(`  Endpoint:  ${endpoint}`);
-        console.log(`  SSO:       ${c.ssoEndpoint}`);
+        console.log(`  SSO:       ${env?.ssoEndpoint ?? c.ssoEndpoint}`);
         console.log(`  Aliases:   ${aliases.length > 0 ? aliases.join(", ") : "(none)"}`);
         console.log(`  Config:    ${getConfigPath()}`);
       } catch (err) {
@@ -118,24 +201,80 @@ export function registerConfigCommands(program: Command): void {
       }
     });
 
-  const config = program.command("config").description("View raw CLI configuration");
+  const config = program.command("config").description("View and manage CLI configuration");
 
   config
     .command("show")
     .description("Show stored configuration values")
     .option("--reveal", "Show full token values")
     .action((opts: { reveal: boolean }) => {
-      const c = getConfig();
-      const mask = (val: string) =>
-        opts.reveal || !val
+      const profile = getCurrentProfile();
+      const store = getSecretStore();
+      let c: ReturnType<typeof getConfig>;
+      try {
+        // Only unlock the secret store when tokens are actually shown.
+        c = getConfig(profile, { secrets: !store || opts.reveal });
+      } catch (err) {
+        handleError(err);
+      }
+      const show = (field: SecretField) => {
+        const val = c[field];
+        if (store && !opts.reveal) {
+          return store.has(`${profile}/${field}`) ? `(in ${store.name} store)` : "(not set)";
+        }
+        return opts.reveal || !val
           ? val || "(not set)"
           : val.slice(0, 8) + "..." + val.slice(-4);
+      };
 
+      console.log(`Profile:         ${profile}`);
       console.log(`SSO Endpoint:    ${c.ssoEndpoint || "(not set)"}`);
       console.log(`Active Endpoint: ${c.activeEndpoint || "(not resolved)"}`);
-      console.log(`tokenv2:         ${mask(c.tokenv2)}`);
-      console.log(`rcntrl:          ${mask(c.rcntrl)}`);
-      console.log(`ccntrl:          ${mask(c.ccntrl)}`);
+      console.log(`tokenv2:         ${show("tokenv2")}`);
+      console.log(`rcntrl:          ${show("rcntrl")}`);
+      console.log(`ccntrl:          ${show("ccntrl")}`);
+      console.log(`Secrets:         ${store ? `${store.name} — ${store.location}` : "plain (config file)"}`);
       console.log(`\nConfig file: ${getConfigPath()}`);
     });
+
+  config
+    .command("migrate-secrets")
+    .description("Move stored tokens out of the plaintext config file into a secret store")
+    .option(
+      "--to <store>",
+      "file | libsecret | plain (default: libsecret when secret-tool is available, else file)",
+    )
+    .action((opts: { to?: string }) => {
+      const target = (opts.to ?? (isLibsecretAvailable() ? "libsecret" : "file")) as SecretStoreName;
+      if (!SECRET_STORE_NAMES.includes(target)) {
+        printError(`Unknown secret store: ${opts.to}. Use one of: ${SECRET_STORE_NAMES.join(", ")}`);
+        exitWithError("USAGE");
+      }
+      if (target === "file" && !process.env[PASSPHRASE_ENV]) {
+        printError(`Set ${PASSPHRASE_ENV} to the passphrase that should encrypt your tokens.`);
+        exitWithError("USAGE");
+      }
+      if (target === "libsecret" && !isLibsecretAvailable()) {
+        printError("secret-tool not found. Install libsecret-tools, or use --to file.");
+        exitWithError("USAGE");
+      }
+
+      if ((getSecretStore()?.name ?? "plain") === target) {
+        printInfo(`Secrets are already in the ${target} store.`);
+        return;
+      }
+
+      let moved: string[];
+      try {
+        moved = migrateSecrets(target);
+      } catch (err) {
+        handleError(err);
+      }
+      printSuccess(
+        moved.length > 0
+          ? `Moved tokens for ${moved.join(", ")} to the ${target} store.`
+          : `Now using the ${target} store.`,
+      );
+      if (target === "file") printInfo(`Keep ${PASSPHRASE_ENV} set for future itx commands.`);
+    });
 }
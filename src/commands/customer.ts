@@ -1,22 +1,32 @@
 import { Command } from "commander";
 import { ItxClient } from "../lib/client.js";
 import { requireAuth } from "../lib/auth.js";
+import { ItxApiError } from "../lib/errors.js";
 import {
   printTable,
   printJsonOk,
   printJsonError,
   printError,
   printInfo,
+  printSuccess,
   handleError,
   exitWithError,
+  enableJsonOutput,
 } from "../lib/output.js";
 import {
   resolveEntity,
   identityFrom,
+  contactFrom,
   validateSingleLookup,
+  newEntityPayload,
+  assertNoDuplicates,
+  applyEntityChanges,
+  convertProspect,
   ENTITY_TYPE,
   EXT_TYPE,
   type EntityLookup,
+  type NewEntityInput,
+  type AddressInput,
 } from "../lib/entity.js";
 import {
   ACTIVITY_TYPES,
@@ -25,11 +35,20 @@ import {
   projectActivity,
   htmlToText,
 } from "../lib/activities.js";
-import { loadRefdata, buildLookup as buildRefLookup } from "../lib/refdata.js";
+import {
+  loadRefdata,
+  openStatusIds,
+  buildLookup as buildRefLookup,
+} from "../lib/refdata.js";
+import { projectTicket } from "../lib/tickets.js";
 import { summarize } from "../lib/summarize.js";
 import type {
   CustomerSearchResult,
   CustomerView,
+  CustomerUpdateResult,
+  ProspectConvertResult,
+  CustomerContactsResult,
+  LinkedContact,
   ExtensionRole,
   ActivityKind,
   ActivitySummary,
@@ -103,7 +122,8 @@ function addSearch(parent: Command, role: ExtensionRole) {
     )
     .option("-l, --limit <n>", "Page size (max 1000)", "50")
     .option("-o, --offset <n>", "Pagination offset", "0")
-    .option("--json", "Output JSON envelope")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
     .action(async (query: string | undefined, opts: SearchOpts) => {
       const client = requireAuth(opts);
       try {
@@ -170,6 +190,25 @@ function addSearch(parent: Command, role: ExtensionRole) {
     });
 }
 
+/** Project a raw contact-person entity into the stable LinkedContact shape. */
+function projectLinkedContact(
+  raw: Record<string, unknown>,
+  eeexId: number,
+): LinkedContact {
+  return {
+    emenId: (raw.emenId as number) ?? 0,
+    eeexId,
+    name1: (raw.name1 as string) ?? null,
+    name2: (raw.name2 as string) ?? null,
+    emails: ((raw.emails as { email?: string }[]) ?? [])
+      .map((e) => e.email ?? "")
+      .filter(Boolean),
+    numbers: ((raw.numbers as { number?: string }[]) ?? [])
+      .map((n) => n.number ?? "")
+      .filter(Boolean),
+  };
+}
+
 /** Register the "view" subcommand. */
 function addView(parent: Command, role: ExtensionRole) {
   parent
@@ -182,7 +221,8 @@ function addView(parent: Command, role: ExtensionRole) {
     .option("--hubspot-id <id>", "Lookup by HubSpot id")
     .option("--org-no <id>", "Lookup by org number / SSN")
     .option("--include-contacts", "Include linked contact persons", false)
-    .option("--json", "Output JSON envelope")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
     .action(async (positional: string | undefined, opts: ViewOpts) => {
       const { lookup, error } = buildLookup(positional, opts, role);
       if (error || !lookup) {
@@ -193,7 +233,7 @@ function addView(parent: Command, role: ExtensionRole) {
       }
       const client = requireAuth(opts);
       try {
-        const resolved = await resolveEntity(client, lookup);
+        const resolved = await resolveEntity(client, lookup, { contacts: opts.includeContacts });
 
         const view: CustomerView = {
           identity: resolved.identity,
@@ -204,18 +244,12 @@ function addView(parent: Command, role: ExtensionRole) {
           const contacts = await client.getEntitiesByIds(
             resolved.linkedContactEmenIds,
           );
-          view.linkedContacts = contacts.map((c) => ({
-            emenId: (c.emenId as number) ?? 0,
-            eeexId: 0,
-            name1: (c.name1 as string) ?? null,
-            name2: (c.name2 as string) ?? null,
-            emails: ((c.emails as { email?: string }[]) ?? [])
-              .map((e) => e.email ?? "")
-              .filter(Boolean),
-            numbers: ((c.numbers as { number?: string }[]) ?? [])
-              .map((n) => n.number ?? "")
-              .filter(Boolean),
-          }));
+          const eeexIds = new Map(
+            resolved.linkedContacts.map((c) => [c.emenId, c.eeexId]),
+          );
+          view.linkedContacts = contacts.map((c) =>
+            projectLinkedContact(c, eeexIds.get(c.emenId as number) ?? 0),
+          );
         }
 
         if (opts.json) {
@@ -323,9 +357,7 @@ function partitionByStatus(
   activities: Record<string, unknown>[],
   refStatuses: { emstId: number; internalStatus: number; name: string }[],
 ): { open: Record<string, unknown>[]; closed: Record<string, unknown>[] } {
-  const openIds = new Set(
-    refStatuses.filter((s) => s.internalStatus === 1 || s.internalStatus === 7 || s.internalStatus === 8).map((s) => s.emstId),
-  );
+  const openIds = openStatusIds(refStatuses);
   const open: Record<string, unknown>[] = [];
   const closed: Record<string, unknown>[] = [];
   for (const a of activities) {
@@ -341,27 +373,6 @@ function withinSince(ts: string, sinceIso: string | undefined): boolean {
   return new Date(ts).getTime() >= new Date(sinceIso).getTime();
 }
 
-function projectTicket(
-  raw: Record<string, unknown>,
-  statusMap: Map<number, string>,
-  priorityMap: Map<number, string>,
-  categoryMap: Map<number, string>,
-): TicketSummary {
-  const status = (raw.emsStatus as { emstId?: number }) ?? {};
-  const priority = (raw.priority as { empriId?: number }) ?? {};
-  const category = (raw.category as { emcaId?: number }) ?? {};
-  return {
-    seqNo: (raw.seqNo as number) ?? 0,
-    eactId: (raw.eactId as number) ?? 0,
-    subject: (raw.description as string) ?? "",
-    status: { id: status.emstId ?? null, name: statusMap.get(status.emstId ?? 0) ?? "" },
-    priority: { id: priority.empriId ?? null, name: priorityMap.get(priority.empriId ?? 0) ?? "" },
-    category: { id: category.emcaId ?? null, name: categoryMap.get(category.emcaId ?? 0) ?? "" },
-    creationTs: (raw.creationTs as string) ?? "",
-    updateTs: (raw.updateTs as string) ?? "",
-  };
-}
-
 /** Register the "tickets" subcommand. */
 function addTickets(parent: Command, role: ExtensionRole) {
   parent
@@ -375,7 +386,8 @@ function addTickets(parent: Command, role: ExtensionRole) {
     .option("--since <iso>", "Only tickets newer than this ISO date")
     .option("-l, --limit <n>", "Cap returned tickets", "200")
     .option("--include-contacts", "Aggregate across linked contacts (slower)", false)
-    .option("--json", "Output JSON envelope")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
     .action(async (positional: string | undefined, opts: TicketsOpts) => {
       const { lookup, error } = buildLookup(positional, opts, role);
       if (error || !lookup) {
@@ -386,7 +398,7 @@ function addTickets(parent: Command, role: ExtensionRole) {
       }
       const client = requireAuth(opts);
       try {
-        const resolved = await resolveEntity(client, lookup);
+        const resolved = await resolveEntity(client, lookup, { contacts: opts.includeContacts });
         const refdata = await loadRefdata(client);
         const statusMap = buildRefLookup(refdata.statuses, (s) => s.emstId);
         const priorityMap = buildRefLookup(refdata.priorities, (p) => p.empriId);
@@ -483,7 +495,8 @@ function addActivities(parent: Command, role: ExtensionRole) {
     .option("--include-bodies", "Fetch email body text (slower)", false)
     .option("--include-contacts", "Aggregate across linked contacts (slower)", false)
     .option("-l, --limit <n>", "Cap returned activities", "200")
-    .option("--json", "Output JSON envelope")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
     .action(async (positional: string | undefined, opts: ActivitiesOpts) => {
       const { lookup, error } = buildLookup(positional, opts, role);
       if (error || !lookup) {
@@ -494,7 +507,7 @@ function addActivities(parent: Command, role: ExtensionRole) {
       }
       const client = requireAuth(opts);
       try {
-        const resolved = await resolveEntity(client, lookup);
+        const resolved = await resolveEntity(client, lookup, { contacts: opts.includeContacts });
         const ids = [resolved.identity.emenId];
         if (opts.includeContacts) ids.push(...resolved.linkedContactEmenIds);
         const all = await fetchAggregateActivities(client, ids);
@@ -572,6 +585,82 @@ function addActivities(parent: Command, role: ExtensionRole) {
     });
 }
 
+/** Register the "contacts" subcommand. */
+function addContacts(parent: Command, role: ExtensionRole) {
+  parent
+    .command("contacts [seqNo]")
+    .description(
+      `List contact persons linked to a ${role}, with role, channels and open-ticket count.`,
+    )
+    .option("--emen-id <n>", "Lookup by internal entity id")
+    .option("--eeex-id <n>", "Lookup by extension id")
+    .option("--hubspot-id <id>", "Lookup by HubSpot id")
+    .option("--org-no <id>", "Lookup by org number / SSN")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .action(async (positional: string | undefined, opts: IdOpts) => {
+      const { lookup, error } = buildLookup(positional, opts, role);
+      if (error || !lookup) {
+        const msg = `${error ?? "missing identifier"}.`;
+        if (opts.json) printJsonError("USAGE", msg);
+        else printError(msg);
+        exitWithError("USAGE");
+      }
+      const client = requireAuth(opts);
+      try {
+        const resolved = await resolveEntity(client, lookup, { contacts: true });
+        const refs = new Map(resolved.linkedContacts.map((c) => [c.emenId, c]));
+
+        let linkedContacts: CustomerContactsResult["linkedContacts"] = [];
+        if (refs.size > 0) {
+          const refdata = await loadRefdata(client);
+          const contacts = await client.getEntitiesByIds([...refs.keys()]);
+          linkedContacts = await pMap(contacts, 5, async (c) => {
+            const ref = refs.get(c.emenId as number);
+            const acts = await client.getActivities(c.emenId as number);
+            const cases = acts.filter(
+              (a) => ((a.activityType as { eatyId?: number }) ?? {}).eatyId === ACTIVITY_TYPES.TICKET,
+            );
+            return {
+              ...projectLinkedContact(c, ref?.eeexId ?? 0),
+              role: ref?.role ?? null,
+              openTickets: partitionByStatus(cases, refdata.statuses).open.length,
+            };
+          });
+        }
+
+        const result: CustomerContactsResult = {
+          identity: resolved.identity,
+          linkedContacts,
+        };
+
+        if (opts.json) {
+          printJsonOk(result, metaFromWarnings(resolved.warnings));
+          return;
+        }
+        printInfo(`${linkedContacts.length} contacts for ${resolved.identity.name1}`);
+        printTable(
+          linkedContacts.map((c) => ({
+            name: [c.name1, c.name2].filter(Boolean).join(" "),
+            role: c.role ?? "",
+            emails: c.emails.join(", "),
+            numbers: c.numbers.join(", "),
+            open: c.openTickets,
+          })),
+          [
+            { key: "name", label: "Name", width: 25 },
+            { key: "role", label: "Role", width: 15 },
+            { key: "emails", label: "Emails", width: 30 },
+            { key: "numbers", label: "Numbers", width: 16 },
+            { key: "open", label: "Open", width: 5 },
+          ],
+        );
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+    });
+}
+
 interface SummaryOpts extends IdOpts {
   depth: "brief" | "standard" | "full";
   since?: string;
@@ -595,7 +684,8 @@ function addSummary(parent: Command, role: ExtensionRole) {
     )
     .option("--since <iso>", "Bound history to this ISO date")
     .option("--include-contacts", "Aggregate across linked contacts (slower)", false)
-    .option("--json", "Output JSON envelope")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
     .action(async (positional: string | undefined, opts: SummaryOpts) => {
       const { lookup, error } = buildLookup(positional, opts, role);
       if (error || !lookup) {
@@ -608,7 +698,7 @@ function addSummary(parent: Command, role: ExtensionRole) {
         opts.depth ?? (opts.json ? "standard" : "brief");
       const client = requireAuth(opts);
       try {
-        const resolved = await resolveEntity(client, lookup);
+        const resolved = await resolveEntity(client, lookup, { contacts: opts.includeContacts });
         const refdata = await loadRefdata(client);
 
         const ids = [resolved.identity.emenId];
@@ -667,6 +757,324 @@ function addSummary(parent: Command, role: ExtensionRole) {
     });
 }
 
+interface CreateOpts {
+  name1?: string;
+  name2?: string;
+  type: string;
+  orgNo?: string;
+  email?: string[];
+  number?: string[];
+  line1?: string;
+  line2?: string;
+  postalCode?: string;
+  city?: string;
+  country?: string;
+  hubspotId?: string;
+  force: boolean;
+  json: boolean;
+}
+
+/** Register the "create" subcommand. */
+function addCreate(parent: Command, role: ExtensionRole) {
+  parent
+    .command("create")
+    .description(
+      `Create a ${role} (itx ${role} create --name1 "Wright Electrical Ltd" --org-no 912345678 --email office@wright.no)`,
+    )
+    .option("--name1 <name>", "Company name, or first name for a private person")
+    .option("--name2 <name>", "Second name line, or last name for a private person")
+    .option("--type <type>", "private or corporate", "corporate")
+    .option("--org-no <id>", "Org number (corporate) or SSN (private)")
+    .option("--email <address...>", "Email address (repeatable)")
+    .option("--number <number...>", "Phone number (repeatable)")
+    .option("--line1 <text>", "Address line 1")
+    .option("--line2 <text>", "Address line 2")
+    .option("--postal-code <code>", "Postal code")
+    .option("--city <city>", "Postal city")
+    .option("--country <country>", "Country")
+    .option("--hubspot-id <id>", "HubSpot company/contact id to link")
+    .option("--force", "Create even if a customer or prospect with the same name or org number exists", false)
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .action(async (opts: CreateOpts) => {
+      let usageError: string | undefined;
+      if (!opts.name1?.trim()) {
+        usageError = "--name1 is required.";
+      } else if (opts.type !== "private" && opts.type !== "corporate") {
+        usageError = `Invalid --type: ${opts.type} (expected private or corporate).`;
+      } else {
+        const bad = (opts.email ?? []).find((e) => !/^[^@\s]+@[^@\s]+$/.test(e));
+        if (bad) usageError = `Invalid --email: ${bad}`;
+      }
+      if (usageError) {
+        if (opts.json) printJsonError("USAGE", usageError);
+        else printError(usageError);
+        exitWithError("USAGE");
+      }
+      const input: NewEntityInput = {
+        name1: opts.name1!.trim(),
+        name2: opts.name2?.trim() || undefined,
+        classification: opts.type as NewEntityInput["classification"],
+        orgNo: opts.orgNo,
+        emails: opts.email,
+        numbers: opts.number,
+        address: {
+          line1: opts.line1,
+          line2: opts.line2,
+          postalCode: opts.postalCode,
+          postalCity: opts.city,
+          country: opts.country,
+        },
+        hubspotId: opts.hubspotId,
+      };
+
+      const client = requireAuth(opts);
+      try {
+        const warnings: string[] = [];
+        if (!opts.force) await assertNoDuplicates(client, input, warnings);
+
+        const created = await client.createEntity(newEntityPayload(input, role));
+        const emenId = created?.emenId as number | undefined;
+        if (!emenId) {
+          throw new ItxApiError("API error: created entity has no emenId", {
+            status: null,
+            method: "POST",
+            path: "/rest/itxems/entity",
+            retryable: false,
+          });
+        }
+        // seqNo is assigned server-side — read the record back.
+        const full = await client.getEntity(emenId);
+        const view: CustomerView = {
+          identity: identityFrom(full, role),
+          contact: contactFrom(full),
+        };
+
+        if (opts.json) {
+          printJsonOk(view, metaFromWarnings(warnings));
+          return;
+        }
+        const id = view.identity;
+        printSuccess(
+          `${role === "customer" ? "Customer" : "Prospect"} created: #${id.seqNo} ${[id.name1, id.name2].filter(Boolean).join(" ")}`,
+        );
+        console.log(`  emenId: ${id.emenId}  eeexId: ${id.eeexId}`);
+        for (const x of id.externalIds) console.log(`  ${x.system}: ${x.id}`);
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+    });
+}
+
+interface UpdateOpts extends IdOpts {
+  name1?: string;
+  name2?: string;
+  addEmail?: string[];
+  removeEmail?: string[];
+  addNumber?: string[];
+  removeNumber?: string[];
+  setAddress?: string[];
+  dryRun: boolean;
+}
+
+const ADDRESS_KEYS: Record<string, keyof Omit<AddressInput, "type">> = {
+  line1: "line1",
+  line2: "line2",
+  postalcode: "postalCode",
+  "postal-code": "postalCode",
+  postalcity: "postalCity",
+  city: "postalCity",
+  country: "country",
+};
+
+/**
+ * Parse `type=1,line1=1 High St,postalCode=LS1 1AA,city=Leeds`. `type`
+ * defaults to 1 (ITX's main address); values cannot contain commas.
+ */
+function parseAddressSpec(spec: string): { address?: AddressInput; error?: string } {
+  const address: AddressInput = { type: 1 };
+  for (const pair of spec.split(",")) {
+    const eq = pair.indexOf("=");
+    const key = (eq === -1 ? pair : pair.slice(0, eq)).trim().toLowerCase();
+    const value = eq === -1 ? "" : pair.slice(eq + 1).trim();
+    if (eq === -1 || !key) return { error: `Invalid --set-address: expected key=value, got "${pair}"` };
+    if (key === "type") {
+      if (!/^\d+$/.test(value) || Number(value) < 1) {
+        return { error: `Invalid --set-address: type must be a positive integer, got "${value}"` };
+      }
+      address.type = Number(value);
+      continue;
+    }
+    const field = ADDRESS_KEYS[key];
+    if (!field) {
+      return {
+        error: `Invalid --set-address: unknown key "${key}" (expected type, line1, line2, postalCode, city, country)`,
+      };
+    }
+    address[field] = value;
+  }
+  if (Object.keys(address).length === 1) {
+    return { error: `Invalid --set-address: "${spec}" sets no address fields` };
+  }
+  return { address };
+}
+
+/** Register the "update" subcommand. */
+function addUpdate(parent: Command, role: ExtensionRole) {
+  parent
+    .command("update [seqNo]")
+    .description(
+      `Update a ${role}'s names, emails, numbers and addresses (itx ${role} update 10058 --add-email billing@wright.no --dry-run)`,
+    )
+    .option("--emen-id <n>", "Lookup by internal entity id (emenId)")
+    .option("--eeex-id <n>", "Lookup by extension id (eeexId)")
+    .option("--hubspot-id <id>", "Lookup by HubSpot id")
+    .option("--org-no <id>", "Lookup by org number / SSN")
+    .option("--name1 <name>", "New company name, or first name for a private person")
+    .option("--name2 <name>", "New second name line (\"\" clears it)")
+    .option("--add-email <address...>", "Add an email address (repeatable)")
+    .option("--remove-email <address...>", "Remove an email address (repeatable)")
+    .option("--add-number <number...>", "Add a phone number (repeatable)")
+    .option("--remove-number <number...>", "Remove a phone number (repeatable)")
+    .option(
+      "--set-address <spec...>",
+      "Set the address of one type: type=1,line1=...,line2=...,postalCode=...,city=...,country=... (repeatable)",
+    )
+    .option("--dry-run", "Show the changes without saving them", false)
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .action(async (positional: string | undefined, opts: UpdateOpts) => {
+      const { lookup, error } = buildLookup(positional, opts, role);
+      let usageError: string | undefined;
+      const addresses: AddressInput[] = [];
+      if (error || !lookup) {
+        usageError = `${error ?? "missing identifier"}. Pass a seqNo as positional, or use --emen-id / --eeex-id / --hubspot-id / --org-no.`;
+      } else if (
+        opts.name1 === undefined &&
+        opts.name2 === undefined &&
+        !opts.addEmail?.length &&
+        !opts.removeEmail?.length &&
+        !opts.addNumber?.length &&
+        !opts.removeNumber?.length &&
+        !opts.setAddress?.length
+      ) {
+        usageError = "Provide at least one field to update (--name1, --name2, --add-email, --remove-email, --add-number, --remove-number, --set-address).";
+      } else if (opts.name1 !== undefined && !opts.name1.trim()) {
+        usageError = "--name1 cannot be empty.";
+      } else {
+        const bad = (opts.addEmail ?? []).find((e) => !/^[^@\s]+@[^@\s]+$/.test(e));
+        if (bad) usageError = `Invalid --add-email: ${bad}`;
+        for (const spec of opts.setAddress ?? []) {
+          if (usageError) break;
+          const parsed = parseAddressSpec(spec);
+          if (parsed.error) usageError = parsed.error;
+          else addresses.push(parsed.address!);
+        }
+      }
+      if (usageError || !lookup) {
+        const msg = usageError ?? "missing identifier";
+        if (opts.json) printJsonError("USAGE", msg);
+        else printError(msg);
+        exitWithError("USAGE");
+      }
+
+      const client = requireAuth(opts);
+      try {
+        const resolved = await resolveEntity(client, lookup);
+        const { entity, changes } = applyEntityChanges(resolved.raw, {
+          name1: opts.name1?.trim(),
+          name2: opts.name2?.trim(),
+          addEmails: opts.addEmail,
+          removeEmails: opts.removeEmail,
+          addNumbers: opts.addNumber,
+          removeNumbers: opts.removeNumber,
+          setAddresses: addresses,
+        });
+        if (!opts.dryRun && changes.length) await client.updateEntity(entity);
+
+        const out: CustomerUpdateResult = {
+          identity: identityFrom(entity, role),
+          changes,
+          dryRun: opts.dryRun,
+        };
+        if (opts.json) {
+          printJsonOk(out, metaFromWarnings(resolved.warnings));
+          return;
+        }
+
+        const label = `${role === "customer" ? "Customer" : "Prospect"} #${out.identity.seqNo}`;
+        if (!changes.length) {
+          printInfo(`No changes — ${label} is already up to date.`);
+          return;
+        }
+        if (opts.dryRun) printInfo(`Dry run — ${label} not updated. Would change:`);
+        else printSuccess(`${label} updated.`);
+        for (const c of changes) {
+          console.log(`  ${`${c.field}:`.padEnd(10)} ${c.before ?? "(none)"} \u2192 ${c.after ?? "(none)"}`);
+        }
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+    });
+}
+
+interface ConvertOpts extends IdOpts {
+  deactivate: boolean;
+}
+
+/** Register "convert" — prospects only. */
+function addConvert(parent: Command) {
+  parent
+    .command("convert [seqNo]")
+    .description(
+      "Convert a prospect to a customer, keeping external ids and contact links (itx prospect convert 20100 --deactivate)",
+    )
+    .option("--emen-id <n>", "Lookup by internal entity id (emenId)")
+    .option("--eeex-id <n>", "Lookup by extension id (eeexId)")
+    .option("--hubspot-id <id>", "Lookup by HubSpot id")
+    .option("--org-no <id>", "Lookup by org number / SSN")
+    .option("--deactivate", "Deactivate the prospect extension once the customer exists", false)
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .action(async (positional: string | undefined, opts: ConvertOpts) => {
+      const { lookup, error } = buildLookup(positional, opts, "prospect");
+      if (error || !lookup) {
+        const msg = `${error ?? "missing identifier"}. Pass a seqNo as positional, or use --emen-id / --eeex-id / --hubspot-id / --org-no.`;
+        if (opts.json) printJsonError("USAGE", msg);
+        else printError(msg);
+        exitWithError("USAGE");
+      }
+      const client = requireAuth(opts);
+      try {
+        const resolved = await resolveEntity(client, lookup);
+        const { entity, contactLinks } = await convertProspect(client, resolved.raw, {
+          deactivateProspect: opts.deactivate,
+        });
+        const out: ProspectConvertResult = {
+          identity: identityFrom(entity, "customer"),
+          prospect: resolved.identity,
+          prospectDeactivated: opts.deactivate,
+          contactLinks,
+        };
+
+        if (opts.json) {
+          printJsonOk(out, metaFromWarnings(resolved.warnings));
+          return;
+        }
+        const id = out.identity;
+        printSuccess(
+          `Prospect #${out.prospect.seqNo} converted: customer #${id.seqNo} ${[id.name1, id.name2].filter(Boolean).join(" ")}`,
+        );
+        console.log(`  emenId: ${id.emenId}  eeexId: ${id.eeexId}`);
+        for (const x of id.externalIds) console.log(`  ${x.system}: ${x.id}`);
+        if (contactLinks) console.log(`  Contact links carried over: ${contactLinks}`);
+        if (out.prospectDeactivated) console.log(`  Prospect #${out.prospect.seqNo} deactivated.`);
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+    });
+}
+
 /**
  * Build the parent command (customer or prospect) and attach all verbs.
  * Used by both registerCustomerCommands and registerProspectCommands.
@@ -679,14 +1087,19 @@ export function buildEntityGroup(
     .command(role)
     .description(
       role === "customer"
-        ? "Manage customers (read-only)"
-        : "Manage prospects (read-only)",
+        ? "Look up, create and update customers"
+        : "Look up, create, update and convert prospects",
     );
+  enableJsonOutput(parent);
   addSearch(parent, role);
   addView(parent, role);
+  addCreate(parent, role);
+  addUpdate(parent, role);
+  if (role === "prospect") addConvert(parent);
   addTickets(parent, role);
   addActivities(parent, role);
   addSummary(parent, role);
+  addContacts(parent, role);
   return parent;
 }
 
@@ -1,5 +1,6 @@
 import { Command } from "commander";
 import { COMMAND_FIELDS } from "../lib/schemas.js";
+import { commandJsonSchema } from "../lib/jsonschema.js";
 import { printJsonOk, printJsonError, exitWithError } from "../lib/output.js";
 
 /**
@@ -59,6 +60,7 @@ export function registerHelpCommands(program: Command): void {
         command,
         fields,
         envelope: ENVELOPE_DESCRIPTION.success,
+        schema: commandJsonSchema(command),
       });
     });
 
@@ -72,7 +74,10 @@ export function registerHelpCommands(program: Command): void {
         envelope: ENVELOPE_DESCRIPTION,
         exitCodes: EXIT_CODES,
         commands: Object.fromEntries(
-          Object.entries(COMMAND_FIELDS).map(([k, fields]) => [k, { fields }]),
+          Object.entries(COMMAND_FIELDS).map(([k, fields]) => [
+            k,
+            { fields, schema: commandJsonSchema(k) },
+          ]),
         ),
       });
     });
@@ -0,0 +1,104 @@
+import { Command } from "commander";
+import {
+  getConfig,
+  getCurrentProfile,
+  getActiveProfile,
+  setActiveProfile,
+  setProfileOverride,
+  listProfiles,
+  hasProfile,
+  removeProfile,
+  isConfigured,
+  isValidProfileName,
+} from "../lib/config.js";
+import {
+  printError,
+  printSuccess,
+  printInfo,
+  printJsonOk,
+  exitWithError,
+} from "../lib/output.js";
+
+function requireValidName(name: string): void {
+  if (!isValidProfileName(name)) {
+    printError(`Invalid profile name: ${name} (use letters, digits, "-" and "_")`);
+    exitWithError("USAGE");
+  }
+}
+
+export function registerProfileCommands(program: Command): void {
+  // Global --profile: applies to every command, before or after the subcommand
+  // (itx --profile acme ticket list, itx ticket list --profile acme).
+  program
+    .option("--profile <name>", "Use a named profile for this command (env: ITX_PROFILE)")
+    .hook("preAction", () => {
+      const name = program.opts().profile as string | undefined;
+      if (name !== undefined) requireValidName(name);
+      setProfileOverride(name);
+    });
+
+  const profile = program
+    .command("profile")
+    .description("Manage named login profiles for multiple ITX tenants");
+
+  profile
+    .command("list")
+    .alias("ls")
+    .description("List profiles (itx profile list)")
+    .option("--json", "Output raw JSON")
+    .action((opts: { json: boolean }) => {
+      const current = getCurrentProfile();
+      const rows = listProfiles().map((name) => {
+        // Plaintext settings only — listing must not unlock the secret store.
+        const c = getConfig(name, { secrets: false });
+        return {
+          name,
+          active: name === getActiveProfile(),
+          current: name === current,
+          configured: isConfigured(name),
+          ssoEndpoint: c.ssoEndpoint,
+          activeEndpoint: c.activeEndpoint || null,
+        };
+      });
+
+      if (opts.json) {
+        printJsonOk(rows);
+        return;
+      }
+      if (rows.length === 0) {
+        printInfo('No profiles configured. Run "itx login" first.');
+        return;
+      }
+      for (const row of rows) {
+        const marker = row.current ? "*" : " ";
+        const state = row.configured ? row.activeEndpoint ?? row.ssoEndpoint : "(not logged in)";
+        console.log(`${marker} ${row.name.padEnd(16)} ${state}`);
+      }
+    });
+
+  profile
+    .command("use <name>")
+    .description("Make a profile the default for future commands (itx profile use acme)")
+    .action((name: string) => {
+      requireValidName(name);
+      if (!hasProfile(name)) {
+        printError(`Not found: profile ${name}. Run "itx login --profile ${name}" to create it.`);
+        exitWithError("NOT_FOUND");
+      }
+      setActiveProfile(name);
+      printSuccess(`Using profile ${name}.`);
+    });
+
+  profile
+    .command("remove <name>")
+    .alias("rm")
+    .description("Delete a profile and its credentials (itx profile remove acme)")
+    .action((name: string) => {
+      requireValidName(name);
+      if (!removeProfile(name)) {
+        printError(`Not found: profile ${name}`);
+        exitWithError("NOT_FOUND");
+      }
+      printSuccess(`Profile removed: ${name}`);
+    });
+}
@@ -0,0 +1,129 @@
+import { Command } from "commander";
+import { requireAuth } from "../lib/auth.js";
+import { getCachePath } from "../lib/config.js";
+import {
+  loadRefdata,
+  clearRefdataCache,
+  buildCategoryTree,
+  type RefData,
+} from "../lib/refdata.js";
+import {
+  printTable,
+  printJsonOk,
+  printSuccess,
+  printInfo,
+  handleError,
+  enableJsonOutput,
+} from "../lib/output.js";
+import type { RefdataCategoryNode, RefdataListResult } from "../lib/schemas.js";
+
+/** Project loaded refdata into the stable `refdata list` shape. */
+function toResult(refdata: RefData): RefdataListResult {
+  const categories = refdata.categories.map((c) => ({
+    emcaId: c.emcaId,
+    name: c.name,
+    parent: c.parent ?? null,
+  }));
+  return {
+    statuses: [...refdata.statuses].sort((a, b) => a.sort - b.sort),
+    priorities: [...refdata.priorities].sort((a, b) => a.sort - b.sort),
+    categories,
+    categoryTree: buildCategoryTree(categories),
+  };
+}
+
+function printTree(nodes: RefdataCategoryNode[], depth = 0): void {
+  for (const n of nodes) {
+    console.log(`${"  ".repeat(depth + 1)}${n.name} (${n.emcaId})`);
+    printTree(n.children, depth + 1);
+  }
+}
+
+function printRefdata(result: RefdataListResult): void {
+  printInfo(`${result.statuses.length} statuses`);
+  printTable(
+    result.statuses.map((s) => ({
+      id: s.emstId,
+      name: s.name,
+      internal: s.internalStatus,
+    })),
+    [
+      { key: "id", label: "ID", width: 8 },
+      { key: "name", label: "Name", width: 30 },
+      { key: "internal", label: "Internal", width: 8 },
+    ],
+  );
+  console.log();
+  printInfo(`${result.priorities.length} priorities`);
+  printTable(
+    result.priorities.map((p) => ({ id: p.empriId, name: p.name })),
+    [
+      { key: "id", label: "ID", width: 8 },
+      { key: "name", label: "Name", width: 30 },
+    ],
+  );
+  console.log();
+  printInfo(`${result.categories.length} categories`);
+  printTree(result.categoryTree);
+}
+
+export function registerRefdataCommands(program: Command): void {
+  const refdata = program
+    .command("refdata")
+    .description("Inspect and manage cached reference data (statuses, priorities, categories)");
+  enableJsonOutput(refdata);
+
+  refdata
+    .command("list")
+    .alias("ls")
+    .description("Show statuses, priorities and the category tree (itx refdata list)")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .action(async (opts: { json: boolean }) => {
+      const client = requireAuth(opts);
+      try {
+        const result = toResult(await loadRefdata(client));
+        if (opts.json) {
+          printJsonOk(result);
+          return;
+        }
+        printRefdata(result);
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+    });
+
+  refdata
+    .command("refresh")
+    .description("Re-fetch reference data and rewrite the on-disk cache (itx refdata refresh)")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .action(async (opts: { json: boolean }) => {
+      const client = requireAuth(opts);
+      try {
+        const result = toResult(await loadRefdata(client, { refresh: true }));
+        if (opts.json) {
+          printJsonOk(result);
+          return;
+        }
+        printSuccess(
+          `Refreshed: ${result.statuses.length} statuses, ${result.priorities.length} priorities, ${result.categories.length} categories.`,
+        );
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+    });
+
+  refdata
+    .command("clear")
+    .description("Delete the on-disk reference data cache (itx refdata clear)")
+    .option("--json", "Output JSON envelope")
+    .action((opts: { json: boolean }) => {
+      clearRefdataCache();
+      if (opts.json) {
+        printJsonOk({ cleared: true, cachePath: getCachePath() });
+        return;
+      }
+      printSuccess("Reference data cache cleared.");
+    });
+}
@@ -1,7 +1,19 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, join } from "node:path";
 import { Command } from "commander";
-import { resolveAlias } from "../lib/config.js";
-import { type ItxUser } from "../lib/client.js";
+import {
+  resolveAlias,
+  getTemplate,
+  getTemplates,
+  setTemplate,
+  removeTemplate,
+  isValidTemplateName,
+  type TicketTemplate,
+} from "../lib/config.js";
+import { type ItxClient, type ItxUser } from "../lib/client.js";
 import { requireAuth } from "../lib/auth.js";
+import { ItxAmbiguousError, ItxApiError, ItxNotFoundError } from "../lib/errors.js";
+import { resolveEntity } from "../lib/entity.js";
 import {
   printTable,
   printJsonOk,
@@ -11,49 +23,250 @@ import {
   printJsonError,
   handleError,
   exitWithError,
+  enableJsonOutput,
 } from "../lib/output.js";
 import {
   ROLES,
   ACTIVITY_TYPES,
+  LINK_TYPES,
   activityTypeLabel,
+  escapeHtml,
   formatDuration,
   htmlToText,
   projectActivity,
   resolveTicketActivities,
+  textToHtml,
 } from "../lib/activities.js";
-import type { TicketActivitiesResult } from "../lib/schemas.js";
+import { markdownToHtml, type Mention } from "../lib/markdown.js";
+import { readStdin } from "../lib/stdin.js";
+import {
+  loadRefdata,
+  resolveRef,
+  openStatusIds,
+  buildLookup,
+} from "../lib/refdata.js";
+import {
+  projectTicketView,
+  assignedUserOf,
+  memberName,
+  sortTickets,
+  TICKET_SORT_KEYS,
+  MAX_CASE_SCAN_ROWS,
+  expandTemplate,
+  templateVars,
+  projectAttachments,
+  contentTypeFor,
+  type TicketSortKey,
+} from "../lib/tickets.js";
+import type {
+  TicketView,
+  TicketActivitiesResult,
+  TicketFieldChange,
+  TicketUpdateResult,
+  TicketReplyResult,
+  TicketAttachment,
+  TicketAttachmentsResult,
+} from "../lib/schemas.js";
 
 // Re-export for callers that imported ROLES from this module.
 export { ROLES };
 
-/** Extract a translated name, falling back to defaultText. */
-function translateName(nameObj: Record<string, unknown> | undefined): string {
-  if (!nameObj) return "";
-  const translations = nameObj.translations as
-    | Record<string, { translatedText?: string }>
-    | undefined;
-  return (
-    translations?.en?.translatedText ??
-    (nameObj.defaultText as string) ??
-    ""
-  );
+/** `YYYY-MM-DD` with no time part. */
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TicketListOpts {
+  limit: string;
+  offset: string;
+  status?: string;
+  assignee?: string;
+  priority?: string;
+  category?: string;
+  since?: string;
+  until?: string;
+  sort?: string;
+  json: boolean;
+  raw?: boolean;
+}
+
+/** Parse `--sort key[:asc|:desc]`; null when invalid. Dates default to newest first. */
+function parseSort(
+  input: string,
+): { key: TicketSortKey; direction: "asc" | "desc" } | null {
+  const [key, dir] = input.split(":");
+  if (!TICKET_SORT_KEYS.includes(key as TicketSortKey)) return null;
+  if (dir !== undefined && dir !== "asc" && dir !== "desc") return null;
+  const fallback = key === "priority" ? "asc" : "desc";
+  return { key: key as TicketSortKey, direction: (dir as "asc" | "desc" | undefined) ?? fallback };
+}
+
+function caseStatusId(raw: Record<string, unknown>): number {
+  return ((raw.emsStatus as { emstId?: number }) ?? {}).emstId ?? 0;
+}
+
+/** Look up a refdata name by id, or null when the id is unset/unknown. */
+function refName<T extends { name: string }>(
+  list: T[],
+  id: number | undefined,
+  idOf: (item: T) => number,
+): string | null {
+  if (id === undefined) return null;
+  return list.find((item) => idOf(item) === id)?.name ?? null;
+}
+
+interface CreateOpts {
+  subject?: string;
+  customer?: string;
+  prospect?: string;
+  status?: string;
+  priority?: string;
+  category?: string;
+  assignee?: string;
+  follower?: string[];
+  body?: string;
+  bodyFile?: string;
+  template?: string;
+  var?: string[];
+  json: boolean;
+}
+
+/** Parse repeated `--var key=value` flags; the value may itself contain `=`. */
+function parseVars(pairs: string[]): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf("=");
+    const key = pair.slice(0, eq);
+    if (eq <= 0 || !/^[A-Za-z0-9_-]+$/.test(key)) {
+      throw new Error(`Invalid --var: expected key=value, got "${pair}"`);
+    }
+    vars[key] = pair.slice(eq + 1);
+  }
+  return vars;
+}
+
+/**
+ * Layer `ticket create` flags over a saved template with its placeholders
+ * filled in. Flags win, followers add up, an explicit --customer/--prospect
+ * replaces the template's, and --body/--body-file replace its body. Throws
+ * ItxNotFoundError for an unknown template and Error for bad --var input.
+ */
+function withTemplate(opts: CreateOpts): CreateOpts {
+  if (opts.template === undefined) {
+    if (opts.var?.length) throw new Error("--var needs --template.");
+    return opts;
+  }
+  const saved = getTemplate(opts.template);
+  if (!saved) throw new ItxNotFoundError(`Not found: template "${opts.template}". See itx ticket template list.`);
+  const t = expandTemplate(saved, parseVars(opts.var ?? []));
+  const ownEntity = opts.customer !== undefined || opts.prospect !== undefined;
+  const ownBody = opts.body !== undefined || opts.bodyFile !== undefined;
+  return {
+    ...opts,
+    subject: opts.subject ?? t.subject,
+    customer: ownEntity ? opts.customer : t.customer,
+    prospect: ownEntity ? opts.prospect : t.prospect,
+    status: opts.status ?? t.status,
+    priority: opts.priority ?? t.priority,
+    category: opts.category ?? t.category,
+    assignee: opts.assignee ?? t.assignee,
+    follower: [...(t.followers ?? []), ...(opts.follower ?? [])],
+    body: ownBody ? opts.body : t.body,
+  };
+}
+
+/**
+ * Comment text given inline or read from `file` (`-` reads stdin), or
+ * undefined when neither is given. Throws with a user-facing message naming
+ * `fileFlag` when the file can't be read, or when the text is blank.
+ */
+async function readText(
+  text: string | undefined,
+  file: string | undefined,
+  fileFlag: string,
+): Promise<string | undefined> {
+  if (file === "-") {
+    text = await readStdin();
+  } else if (file !== undefined) {
+    try {
+      text = await readFile(file, "utf8");
+    } catch (err) {
+      throw new Error(`Cannot read ${fileFlag} ${file}: ${(err as Error).message}`);
+    }
+  }
+  if (text !== undefined && !text.trim()) throw new Error("Comment is empty.");
+  return text;
+}
+
+interface ReplyOpts {
+  message?: string;
+  file?: string;
+  stdin?: boolean;
+  to?: string[];
+  cc?: string[];
+  subject?: string;
+  attach?: string[];
+  quote: boolean;
+  dryRun?: boolean;
+  json: boolean;
+}
+
+const EMAIL_ADDRESS = /^[^\s@,]+@[^\s@,]+$/;
+
+/** The case behind a ticket number, with its members. */
+async function fetchCase(client: ItxClient, id: string): Promise<Record<string, unknown>> {
+  const result = await client.request<
+    Record<string, unknown> | Record<string, unknown>[]
+  >("/rest/itxems/cases", {
+    params: { seqNo: Number(id), getMembers: true },
+  });
+  const caseData = Array.isArray(result) ? result[0] : result;
+  if (!caseData) throw new ItxNotFoundError(`Ticket #${id} not found.`);
+  return caseData;
 }
 
-/** Build a display name from a member's user or entity. */
-function memberName(member: Record<string, unknown>): string {
-  const user = member.user as
-    | { firstName?: string; lastName?: string }
-    | undefined;
-  if (user?.firstName || user?.lastName) {
-    return [user.firstName, user.lastName].filter(Boolean).join(" ");
+/** The conversation an email belongs to, from its CONVERSATION link. */
+function conversationOf(email: Record<string, unknown>): number | undefined {
+  const links = (email.links as { type?: number; to?: { eactId?: number } }[] | undefined) ?? [];
+  return links.find((l) => l.type === LINK_TYPES.CONVERSATION)?.to?.eactId;
+}
+
+function formatSize(bytes: number | null): string {
+  if (bytes === null) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+}
+
+/**
+ * Name to save a download under: the file's own name without any directory
+ * part (ITX names are user-supplied), prefixed with the cfreId when another
+ * file in the same download already took it.
+ */
+function localFileName(file: TicketAttachment, taken: Set<string>): string {
+  let name = basename(file.name.replace(/\\/g, "/"));
+  if (!name || name === "." || name === "..") name = `file-${file.cfreId}`;
+  if (taken.has(name)) name = `${file.cfreId}-${name}`;
+  taken.add(name);
+  return name;
+}
+
+/**
+ * The message of `ticket comment`/`ticket reply`: exactly one of the
+ * positional argument, -m, --file or --stdin. Throws with a user-facing
+ * message otherwise.
+ */
+async function readMessage(
+  messageArg: string | undefined,
+  opts: { message?: string; file?: string; stdin?: boolean },
+): Promise<string> {
+  const sources = [messageArg, opts.message, opts.file, opts.stdin].filter((s) => s !== undefined);
+  if (sources.length === 0) {
+    throw new Error("Message is required. Provide as argument, with -m/--message, --file or --stdin.");
   }
-  const ext = member.entityExtension as
-    | { entity?: { name1?: string; name2?: string } }
-    | undefined;
-  if (ext?.entity?.name1 || ext?.entity?.name2) {
-    return [ext.entity.name1, ext.entity.name2].filter(Boolean).join(" ");
+  if (sources.length > 1) {
+    throw new Error("Give the message only once: as argument, -m/--message, --file or --stdin.");
   }
-  return (member.name as string) ?? "(unknown)";
+  return (await readText(messageArg ?? opts.message, opts.stdin ? "-" : opts.file, "--file")) ?? "";
 }
 
 export function registerTicketCommands(program: Command): void {
@@ -61,78 +274,185 @@ export function registerTicketCommands(program: Command): void {
     .command("ticket")
     .alias("t")
     .description("Manage tickets (cases)");
+  enableJsonOutput(ticket);
 
   ticket
     .command("list")
     .alias("ls")
-    .description("List tickets (itx ticket list --limit 10)")
+    .description(
+      "List tickets, optionally filtered (itx ticket list --status open --assignee me --since 2026-01-01)",
+    )
     .option("-l, --limit <n>", "Maximum number of tickets to return", "25")
     .option("-o, --offset <n>", "Offset for pagination", "0")
-    .option("--json", "Output raw JSON")
-    .action(async (opts: { limit: string; offset: string; json: boolean }) => {
-      const client = requireAuth(opts);
+    .option("--status <status>", "open | closed | status name, prefix, or id")
+    .option("--assignee <user>", "me | alias, email or name of the assigned user")
+    .option("--priority <priority>", "Priority name, prefix, or id")
+    .option("--category <category>", "Category name, prefix, or id")
+    .option("--since <iso>", "Only tickets updated on/after this ISO date")
+    .option("--until <iso>", "Only tickets updated on/before this ISO date")
+    .option(
+      "--sort <key>",
+      `Sort by ${TICKET_SORT_KEYS.join(" | ")}, optionally suffixed :asc or :desc`,
+    )
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .option("--raw", "Output the unprojected /cases payloads as JSON")
+    .action(async (opts: TicketListOpts) => {
+      const json = opts.json || opts.raw;
+      const sort = opts.sort ? parseSort(opts.sort) : undefined;
+      const since = opts.since ? new Date(opts.since).getTime() : undefined;
+      // A bare date covers that whole day (UTC), not just its first instant.
+      const until = opts.until
+        ? new Date(opts.until).getTime() + (DATE_ONLY.test(opts.until) ? DAY_MS - 1 : 0)
+        : undefined;
+      let usageError: string | undefined;
+      if (sort === null) {
+        usageError = `Invalid --sort "${opts.sort}". Use one of ${TICKET_SORT_KEYS.join(", ")}, optionally suffixed :asc or :desc.`;
+      } else if (Number.isNaN(since) || Number.isNaN(until)) {
+        usageError = "--since/--until must be ISO dates (e.g. 2026-01-31).";
+      }
+      if (usageError) {
+        if (json) printJsonError("USAGE", usageError);
+        else printError(usageError);
+        exitWithError("USAGE");
+      }
+
+      const client = requireAuth({ json });
       try {
         const limit = Number(opts.limit);
         const offset = Number(opts.offset);
-        const data = await client.request<Record<string, unknown>[]>(
-          "/rest/itxems/cases",
-          {
-            params: {
-              getMembers: true,
-              limitFrom: offset,
-              limitTo: limit,
-            },
-          },
-        );
+        const refdata = await loadRefdata(client);
+        const statusMap = buildLookup(refdata.statuses, (s) => s.emstId);
+        const priorityMap = buildLookup(refdata.priorities, (p) => p.empriId);
+        const categoryMap = buildLookup(refdata.categories, (c) => c.emcaId);
 
-        const cases = data ?? [];
+        // cases/search only filters by eactIds server-side, so every other
+        // filter is a client-side predicate over the scanned pages.
+        const predicates: ((raw: Record<string, unknown>) => boolean)[] = [];
+        if (opts.status) {
+          const keyword = opts.status.toLowerCase();
+          if (keyword === "open" || keyword === "closed") {
+            const openIds = openStatusIds(refdata.statuses);
+            predicates.push((c) => openIds.has(caseStatusId(c)) === (keyword === "open"));
+          } else {
+            const status = resolveRef(refdata.statuses, opts.status, (x) => x.emstId, "status");
+            predicates.push((c) => caseStatusId(c) === status.emstId);
+          }
+        }
+        if (opts.priority) {
+          const priority = resolveRef(refdata.priorities, opts.priority, (x) => x.empriId, "priority");
+          predicates.push(
+            (c) => ((c.priority as { empriId?: number }) ?? {}).empriId === priority.empriId,
+          );
+        }
+        if (opts.category) {
+          const category = resolveRef(refdata.categories, opts.category, (x) => x.emcaId, "category");
+          predicates.push(
+            (c) => ((c.category as { emcaId?: number }) ?? {}).emcaId === category.emcaId,
+          );
+        }
+        if (opts.assignee) {
+          const { userId } = await requireUser(client, opts.assignee);
+          predicates.push((c) => assignedUserOf(c)?.userId === userId);
+        }
+        if (since !== undefined || until !== undefined) {
+          predicates.push((c) => {
+            const ts = new Date((c.updateTs as string) ?? 0).getTime();
+            return (since === undefined || ts >= since) && (until === undefined || ts <= until);
+          });
+        }
 
-        if (opts.json) {
-          printJsonOk(cases, {
+        let raws: Record<string, unknown>[];
+        let total: number | undefined;
+        let hasMore: boolean;
+        const warnings: string[] = [];
+        const scan = Boolean(sort) || predicates.length > 0;
+
+        if (!scan) {
+          // Unfiltered queue in server order — a single page is enough.
+          raws = await client.searchCases({ getMembers: true }, { limitFrom: offset, limitTo: limit });
+          hasMore = raws.length === limit;
+        } else {
+          // Without --sort server order is kept, so stop one match past the page.
+          const stopAt = sort ? Infinity : offset + limit + 1;
+          const matches: Record<string, unknown>[] = [];
+          let scanned = 0;
+          for await (const c of client.iterateCases({ getMembers: true })) {
+            if (predicates.every((p) => p(c))) {
+              matches.push(c);
+              if (matches.length >= stopAt) break;
+            }
+            if (++scanned >= MAX_CASE_SCAN_ROWS) {
+              warnings.push(
+                `Stopped after scanning ${MAX_CASE_SCAN_ROWS} tickets — narrow the filters for complete results.`,
+              );
+              break;
+            }
+          }
+          raws = matches;
+          hasMore = matches.length > offset + limit;
+          if (sort && warnings.length === 0) total = matches.length;
+        }
+
+        let tickets: TicketView[] = raws.map((c) =>
+          projectTicketView(c, statusMap, priorityMap, categoryMap),
+        );
+        const rawOf = new Map(tickets.map((t, i) => [t, raws[i]]));
+        if (sort) {
+          const rank = new Map(refdata.priorities.map((p) => [p.empriId, p.sort]));
+          sortTickets(tickets, sort.key, sort.direction, rank);
+        }
+        if (scan) tickets = tickets.slice(offset, offset + limit);
+
+        if (json) {
+          const data = opts.raw ? tickets.map((t) => rawOf.get(t)) : tickets;
+          printJsonOk(data, {
             pagination: {
               limit,
               offset,
-              total: cases.length,
-              hasMore: cases.length === limit,
+              ...(total !== undefined ? { total } : {}),
+              hasMore,
             },
+            ...(warnings.length ? { meta: { truncated: true, warnings } } : {}),
           });
           return;
         }
 
-        printInfo(`Showing ${cases.length} tickets`);
+        printInfo(`Showing ${tickets.length} tickets`);
+        for (const w of warnings) printError(w);
 
         printTable(
-          cases.map((c) => {
-            const status = c.emsStatus as
-              | { name?: Record<string, unknown> }
-              | undefined;
-            return {
-              id: c.seqNo,
-              subject: c.description ?? "",
-              status: translateName(status?.name),
-              created: c.creationTs
-                ? new Date(c.creationTs as string).toLocaleDateString()
-                : "",
-            };
-          }),
+          tickets.map((t) => ({
+            id: t.seqNo,
+            subject: t.subject,
+            status: t.status.name,
+            priority: t.priority.name,
+            assignee: t.assignedUser?.name ?? "",
+            updated: t.updateTs ? new Date(t.updateTs).toLocaleDateString() : "",
+          })),
           [
             { key: "id", label: "ID", width: 10 },
             { key: "subject", label: "Subject", width: 40 },
             { key: "status", label: "Status", width: 15 },
-            { key: "created", label: "Created", width: 12 },
+            { key: "priority", label: "Priority", width: 10 },
+            { key: "assignee", label: "Assignee", width: 18 },
+            { key: "updated", label: "Updated", width: 12 },
           ],
         );
       } catch (err) {
-        handleError(err, { json: opts.json });
+        handleError(err, { json });
       }
     });
 
   ticket
     .command("view <id>")
     .description("View ticket details (itx ticket view 43146)")
-    .option("--json", "Output raw JSON")
-    .action(async (id: string, opts: { json: boolean }) => {
-      const client = requireAuth(opts);
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .option("--raw", "Output the unprojected /cases payload as JSON")
+    .action(async (id: string, opts: { json: boolean; raw?: boolean }) => {
+      const json = opts.json || opts.raw;
+      const client = requireAuth({ json });
       try {
         const result = await client.request<
           Record<string, unknown> | Record<string, unknown>[]
@@ -145,7 +465,7 @@ export function registerTicketCommands(program: Command): void {
 
         const data = Array.isArray(result) ? result[0] : result;
         if (!data) {
-          if (opts.json) {
+          if (json) {
             printJsonError("NOT_FOUND", `Ticket #${id} not found.`);
           } else {
             printError(`Ticket #${id} not found.`);
@@ -153,138 +473,344 @@ export function registerTicketCommands(program: Command): void {
           exitWithError("NOT_FOUND");
         }
 
-        if (opts.json) {
+        if (opts.raw) {
           printJsonOk(data);
           return;
         }
 
-        const status = data.emsStatus as
-          | { name?: Record<string, unknown> }
-          | undefined;
-        const priority = data.priority as
-          | { name?: Record<string, unknown> }
-          | undefined;
-        const category = data.category as
-          | { name?: Record<string, unknown> }
-          | undefined;
-
-        console.log(`ID:        #${data.seqNo}`);
-        console.log(`Subject:   ${data.description ?? ""}`);
-        console.log(`Status:    ${translateName(status?.name)}`);
-        console.log(`Priority:  ${translateName(priority?.name)}`);
-        console.log(`Category:  ${translateName(category?.name)}`);
+        const view = projectTicketView(data);
+        if (opts.json) {
+          printJsonOk(view);
+          return;
+        }
+
+        console.log(`ID:        #${view.seqNo}`);
+        console.log(`Subject:   ${view.subject}`);
+        console.log(`Status:    ${view.status.name}`);
+        console.log(`Priority:  ${view.priority.name}`);
+        console.log(`Category:  ${view.category.name}`);
+        if (view.customer) {
+          const c = view.customer;
+          console.log(
+            `Customer:  ${[c.name1, c.name2].filter(Boolean).join(" ")} (${c.role} #${c.seqNo})`,
+          );
+        }
         console.log(
-          `Created:   ${data.creationTs ? new Date(data.creationTs as string).toISOString() : ""}`,
+          `Created:   ${view.creationTs ? new Date(view.creationTs).toISOString() : ""}`,
         );
         console.log(
-          `Modified:  ${data.updateTs ? new Date(data.updateTs as string).toISOString() : ""}`,
+          `Modified:  ${view.updateTs ? new Date(view.updateTs).toISOString() : ""}`,
         );
 
-        const members = data.members as Record<string, unknown>[] | undefined;
-        if (members?.length) {
+        if (view.members.length) {
           console.log("\nMembers:");
-          for (const m of members) {
+          for (const m of view.members) {
             const roleLabel =
-              m.role === ROLES.ASSIGNED_USER
+              m.role === "assignee"
                 ? "Assigned"
-                : m.role === ROLES.CASE_FOLLOWER
+                : m.role === "follower"
                   ? "Follower"
-                  : m.role === ROLES.CONTACT_PERSON
+                  : m.role === "contact"
                     ? "Contact"
-                    : `Role ${m.role}`;
+                    : `Role ${m.roleId}`;
             console.log(
-              `  - ${memberName(m)} [${roleLabel}]${m.anon ? " (external)" : ""}`,
+              `  - ${m.name} [${roleLabel}]${m.external ? " (external)" : ""}`,
             );
           }
         }
       } catch (err) {
-        handleError(err, { json: opts.json });
+        handleError(err, { json });
       }
     });
 
   ticket
     .command("create [subject]")
-    .description("Create a new ticket (itx ticket create 'Bug in login')")
+    .description(
+      "Create a ticket (itx ticket create 'Power outage' --customer 10058 --priority critical --assignee me --body-file notes.txt)",
+    )
     .option("-s, --subject <text>", "Ticket subject (alternative to positional)")
-    .option("--json", "Output raw JSON")
-    .action(
-      async (subjectArg: string | undefined, opts: {
-        subject?: string;
-        json: boolean;
-      }) => {
-        const subject = subjectArg || opts.subject;
-        if (!subject) {
-          if (opts.json) {
-            printJsonError("USAGE", "Subject is required. Provide as argument or with -s/--subject.");
-          } else {
-            printError("Subject is required. Provide as argument or with -s/--subject.");
+    .option("--customer <seqNo>", "Attach a customer as contact person")
+    .option("--prospect <seqNo>", "Attach a prospect as contact person")
+    .option("--status <status>", "Initial status (name, name prefix, or id)")
+    .option("--priority <priority>", "Priority (name, name prefix, or id)")
+    .option("--category <category>", "Category (name, name prefix, or id)")
+    .option("--assignee <user>", "me | alias, email or name of the assigned user")
+    .option("--follower <user...>", "Followers by alias, email or name (repeatable)")
+    .option("--body <text>", "Initial comment")
+    .option("--body-file <path>", "Read the initial comment from a file (- for stdin)")
+    .option("--template <name>", "Start from a saved template (see itx ticket template)")
+    .option("--var <key=value...>", "Fill a template {{key}} placeholder (repeatable)")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .action(async (subjectArg: string | undefined, flags: CreateOpts) => {
+      let opts = flags;
+      try {
+        opts = withTemplate(flags);
+      } catch (err) {
+        const code = err instanceof ItxNotFoundError ? "NOT_FOUND" : "USAGE";
+        if (flags.json) printJsonError(code, (err as Error).message);
+        else printError((err as Error).message);
+        exitWithError(code);
+      }
+      const subject = (subjectArg || opts.subject)?.trim();
+      let usageError: string | undefined;
+      if (!subject) {
+        usageError = "Subject is required. Provide as argument or with -s/--subject.";
+      } else if (opts.customer && opts.prospect) {
+        usageError = "--customer and --prospect are mutually exclusive.";
+      } else if ([opts.customer, opts.prospect].some((n) => n !== undefined && !/^\d+$/.test(n))) {
+        usageError = `Invalid --${opts.customer ? "customer" : "prospect"}: ${opts.customer ?? opts.prospect} (expected a seqNo).`;
+      } else if (opts.body !== undefined && opts.bodyFile !== undefined) {
+        usageError = "--body and --body-file are mutually exclusive.";
+      }
+      let body: string | undefined;
+      if (!usageError) {
+        try {
+          body = await readText(opts.body, opts.bodyFile, "--body-file");
+        } catch (err) {
+          usageError = (err as Error).message;
+        }
+      }
+      if (usageError) {
+        if (opts.json) printJsonError("USAGE", usageError);
+        else printError(usageError);
+        exitWithError("USAGE");
+      }
+
+      const client = requireAuth(opts);
+      try {
+        const payload: Record<string, unknown> = { description: subject };
+        const members: Record<string, unknown>[] = [];
+
+        const entitySeqNo = opts.customer ?? opts.prospect;
+        if (entitySeqNo) {
+          const { identity } = await resolveEntity(client, {
+            seqNo: Number(entitySeqNo),
+            role: opts.customer ? "customer" : "prospect",
+          });
+          members.push({ role: ROLES.CONTACT_PERSON, entityExtension: { eeexId: identity.eeexId } });
+        }
+        if (opts.status || opts.priority || opts.category) {
+          const refdata = await loadRefdata(client);
+          if (opts.status) {
+            const status = resolveRef(refdata.statuses, opts.status, (s) => s.emstId, "status");
+            payload.emsStatus = { emstId: status.emstId };
+          }
+          if (opts.priority) {
+            const priority = resolveRef(refdata.priorities, opts.priority, (p) => p.empriId, "priority");
+            payload.priority = { empriId: priority.empriId };
+          }
+          if (opts.category) {
+            const category = resolveRef(refdata.categories, opts.category, (c) => c.emcaId, "category");
+            payload.category = { emcaId: category.emcaId };
           }
-          exitWithError("USAGE");
         }
-        const client = requireAuth(opts);
-        try {
-          const data = await client.request<Record<string, unknown>>(
-            "/rest/itxems/cases",
-            {
-              method: "POST",
-              body: { description: subject },
-            },
+        // One users/search for every --assignee/--follower name.
+        const users = opts.assignee || opts.follower?.length ? await client.searchUsers() : [];
+        if (opts.assignee) {
+          const { userId } = await requireUser(client, opts.assignee, users);
+          members.push({ role: ROLES.ASSIGNED_USER, user: { userId } });
+        }
+        for (const input of opts.follower ?? []) {
+          const { userId } = await requireUser(client, input, users);
+          const already = members.some((m) => m.role === ROLES.CASE_FOLLOWER && memberUserId(m) === userId);
+          if (!already) members.push({ role: ROLES.CASE_FOLLOWER, user: { userId } });
+        }
+        if (members.length) payload.members = members;
+
+        const created = await client.request<Record<string, unknown>>("/rest/itxems/cases", {
+          method: "POST",
+          body: payload,
+        });
+        // The ticket exists now: a retry would duplicate it, so name it in the error.
+        const incomplete = (message: string) =>
+          new ItxApiError(`API error: ${message}`, {
+            status: null,
+            method: "POST",
+            path: "/rest/itxems/cases",
+            retryable: false,
+          });
+        const seqNo = created.seqNo as number | undefined;
+        if (!seqNo) {
+          throw incomplete(
+            `ITX created a ticket${created.eactId ? ` (eactId ${created.eactId})` : ""} but returned no seqNo`,
           );
+        }
 
-          if (opts.json) {
-            printJsonOk(data);
-            return;
-          }
+        // Re-read for the refdata and member names ITX embeds on GET.
+        const result = await client.request<
+          Record<string, unknown> | Record<string, unknown>[]
+        >("/rest/itxems/cases", {
+          params: { seqNo, getMembers: true },
+        });
+        const data = (Array.isArray(result) ? result[0] : result) ?? created;
+        if (!data.eactId) {
+          const lost = body ? "; the comment was not added" : "";
+          throw incomplete(`ticket #${seqNo} was created but ITX returned no eactId${lost}`);
+        }
+        if (body) await client.addActivityText(data.eactId as number, markdownToHtml(body).html);
 
-          printSuccess(`Ticket created: #${data.seqNo}`);
-        } catch (err) {
-          handleError(err, { json: opts.json });
+        const view = projectTicketView(data);
+        if (opts.json) {
+          printJsonOk(view);
+          return;
         }
-      },
-    );
+
+        printSuccess(`Ticket created: #${view.seqNo}`);
+        if (view.customer) {
+          const c = view.customer;
+          console.log(`  Customer:  ${[c.name1, c.name2].filter(Boolean).join(" ")} (${c.role} #${c.seqNo})`);
+        }
+        if (opts.status) console.log(`  Status:    ${view.status.name}`);
+        if (opts.priority) console.log(`  Priority:  ${view.priority.name}`);
+        if (opts.category) console.log(`  Category:  ${view.category.name}`);
+        if (view.assignedUser) console.log(`  Assignee:  ${view.assignedUser.name}`);
+        const followers = view.members.filter((m) => m.role === "follower").map((m) => m.name);
+        if (followers.length) console.log(`  Followers: ${followers.join(", ")}`);
+        if (body) console.log("  Comment added.");
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+    });
 
   ticket
     .command("update <id>")
     .description("Update a ticket (itx ticket update 43146 --status resolved)")
     .option("-s, --subject <text>", "New subject")
-    .option("--status <status>", "New status")
-    .option("--category <category>", "New category")
-    .option("--assignee <user>", "Assign to user (email or alias)")
-    .option("--json", "Output raw JSON")
+    .option("--status <status>", "New status (name, name prefix, or id)")
+    .option("--priority <priority>", "New priority (name, name prefix, or id)")
+    .option("--category <category>", "New category (name, name prefix, or id)")
+    .option("--assignee <user>", "Assign to user (me, alias, email or name)")
+    .option("--unassign", "Remove the assigned user")
+    .option("--add-follower <user...>", "Add followers by alias, email or name (repeatable)")
+    .option("--remove-follower <user...>", "Remove followers by alias, email or name (repeatable)")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
     .action(
       async (
         id: string,
         opts: {
           subject?: string;
           status?: string;
+          priority?: string;
           category?: string;
           assignee?: string;
+          unassign?: boolean;
+          addFollower?: string[];
+          removeFollower?: string[];
           json: boolean;
         },
       ) => {
+        const membershipChange = Boolean(
+          opts.assignee || opts.unassign || opts.addFollower?.length || opts.removeFollower?.length,
+        );
+        let usageError: string | undefined;
+        if (!opts.subject && !opts.status && !opts.priority && !opts.category && !membershipChange) {
+          usageError = "Provide at least one field to update (--subject, --status, --priority, --category, --assignee, --unassign, --add-follower, --remove-follower).";
+        } else if (opts.assignee && opts.unassign) {
+          usageError = "--assignee and --unassign are mutually exclusive.";
+        }
+        if (usageError) {
+          if (opts.json) {
+            printJsonError("USAGE", usageError);
+          } else {
+            printError(usageError);
+          }
+          exitWithError("USAGE");
+        }
         const client = requireAuth(opts);
         try {
-          const body: Record<string, unknown> = { seqNo: Number(id) };
-          if (opts.subject) body.description = opts.subject;
-          if (opts.status) body.status = opts.status;
-          if (opts.category) body.category = opts.category;
-          if (opts.assignee) {
-            body.members = [
-              { role: ROLES.ASSIGNED_USER, name: resolveAlias(opts.assignee) },
-            ];
-          }
+          const result = await client.request<
+            Record<string, unknown> | Record<string, unknown>[]
+          >("/rest/itxems/cases", {
+            params: { seqNo: Number(id), getMembers: true },
+          });
 
-          if (Object.keys(body).length <= 1) {
-            const msg = "Provide at least one field to update (--subject, --status, --category, --assignee).";
+          const current = Array.isArray(result) ? result[0] : result;
+          if (!current) {
             if (opts.json) {
-              printJsonError("USAGE", msg);
+              printJsonError("NOT_FOUND", `Ticket #${id} not found.`);
             } else {
-              printError(msg);
+              printError(`Ticket #${id} not found.`);
+            }
+            exitWithError("NOT_FOUND");
+          }
+
+          const body: Record<string, unknown> = { seqNo: Number(id) };
+          const changes: TicketFieldChange[] = [];
+          const track = (field: TicketFieldChange["field"], before: string | null, after: string | null) => {
+            if (before !== after) changes.push({ field, before, after });
+          };
+
+          if (opts.subject) {
+            body.description = opts.subject;
+            track("subject", (current.description as string) ?? null, opts.subject);
+          }
+
+          if (opts.status || opts.priority || opts.category) {
+            const refdata = await loadRefdata(client);
+            if (opts.status) {
+              const status = resolveRef(refdata.statuses, opts.status, (s) => s.emstId, "status");
+              const beforeId = ((current.emsStatus as { emstId?: number }) ?? {}).emstId;
+              body.emsStatus = { emstId: status.emstId };
+              track("status", refName(refdata.statuses, beforeId, (s) => s.emstId), status.name);
+            }
+            if (opts.priority) {
+              const priority = resolveRef(refdata.priorities, opts.priority, (p) => p.empriId, "priority");
+              const beforeId = ((current.priority as { empriId?: number }) ?? {}).empriId;
+              body.priority = { empriId: priority.empriId };
+              track("priority", refName(refdata.priorities, beforeId, (p) => p.empriId), priority.name);
+            }
+            if (opts.category) {
+              const category = resolveRef(refdata.categories, opts.category, (c) => c.emcaId, "category");
+              const beforeId = ((current.category as { emcaId?: number }) ?? {}).emcaId;
+              body.category = { emcaId: category.emcaId };
+              track("category", refName(refdata.categories, beforeId, (c) => c.emcaId), category.name);
             }
-            exitWithError("USAGE");
           }
 
-          const data = await client.request<Record<string, unknown>>(
+          if (membershipChange) {
+            // Merge into the existing member list — a PUT with only the new
+            // assignee would silently drop followers and contact persons.
+            const users = await client.searchUsers();
+            const before = (current.members as Record<string, unknown>[] | undefined) ?? [];
+            let members = [...before];
+
+            if (opts.assignee || opts.unassign) {
+              members = members.filter((m) => m.role !== ROLES.ASSIGNED_USER);
+            }
+            if (opts.assignee) {
+              const user = await requireUser(client, opts.assignee, users);
+              members.push({ role: ROLES.ASSIGNED_USER, user: { userId: user.userId } });
+            }
+            for (const input of opts.addFollower ?? []) {
+              const user = await requireUser(client, input, users);
+              const already = members.some(
+                (m) => m.role === ROLES.CASE_FOLLOWER && memberUserId(m) === user.userId,
+              );
+              if (!already) members.push({ role: ROLES.CASE_FOLLOWER, user: { userId: user.userId } });
+            }
+            for (const input of opts.removeFollower ?? []) {
+              const user = await requireUser(client, input, users);
+              members = members.filter(
+                (m) => !(m.role === ROLES.CASE_FOLLOWER && memberUserId(m) === user.userId),
+              );
+            }
+            body.members = members;
+
+            const namesFor = (list: Record<string, unknown>[], role: number) =>
+              list
+                .filter((m) => m.role === role)
+                .map((m) => {
+                  const u = users.find((x) => x.userId === memberUserId(m));
+                  return u ? `${u.firstName} ${u.lastName}` : memberName(m);
+                })
+                .join(", ") || null;
+            track("assignee", namesFor(before, ROLES.ASSIGNED_USER), namesFor(members, ROLES.ASSIGNED_USER));
+            track("followers", namesFor(before, ROLES.CASE_FOLLOWER), namesFor(members, ROLES.CASE_FOLLOWER));
+          }
+
+          await client.request<Record<string, unknown>>(
             "/rest/itxems/cases",
             {
               method: "PUT",
@@ -293,11 +819,20 @@ export function registerTicketCommands(program: Command): void {
           );
 
           if (opts.json) {
-            printJsonOk(data);
+            const out: TicketUpdateResult = {
+              seqNo: Number(id),
+              eactId: (current.eactId as number) ?? 0,
+              changes,
+            };
+            printJsonOk(out);
             return;
           }
 
           printSuccess(`Ticket #${id} updated.`);
+          for (const c of changes) {
+            const label = `${c.field[0].toUpperCase()}${c.field.slice(1)}:`;
+            console.log(`  ${label.padEnd(10)} ${c.before ?? "(none)"} \u2192 ${c.after ?? "(none)"}`);
+          }
         } catch (err) {
           handleError(err, { json: opts.json });
         }
@@ -308,7 +843,8 @@ export function registerTicketCommands(program: Command): void {
     .command("activities <id>")
     .alias("act")
     .description("List activities on a ticket (itx ticket activities 43146)")
-    .option("--json", "Output raw JSON")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
     .action(async (id: string, opts: { json: boolean }) => {
       const client = requireAuth(opts);
       try {
@@ -493,23 +1029,28 @@ export function registerTicketCommands(program: Command): void {
 
   ticket
     .command("comment <id> [message]")
-    .description("Add a comment to a ticket (itx ticket comment 43146 'Looking into it')")
+    .description(
+      "Add a Markdown comment to a ticket (itx ticket comment 43146 'Looking into it, @dave')",
+    )
     .option("-m, --message <text>", "Comment text (alternative to positional)")
-    .option("--mention <user...>", "Mention users by alias or email (repeatable)")
+    .option("-f, --file <path>", "Read the comment from a file (- for stdin)")
+    .option("--stdin", "Read the comment from stdin")
+    .option("--mention <user...>", "Mention users by alias or email ahead of the text (repeatable)")
     .option("--json", "Output raw JSON")
     .action(
       async (
         id: string,
         messageArg: string | undefined,
-        opts: { message?: string; mention?: string[]; json: boolean },
+        opts: { message?: string; file?: string; stdin?: boolean; mention?: string[]; json: boolean },
       ) => {
-        const message = messageArg || opts.message;
-        if (!message) {
-          const msg = "Message is required. Provide as argument or with -m/--message.";
+        let message = "";
+        try {
+          message = await readMessage(messageArg, opts);
+        } catch (err) {
           if (opts.json) {
-            printJsonError("USAGE", msg);
+            printJsonError("USAGE", (err as Error).message);
           } else {
-            printError(msg);
+            printError((err as Error).message);
           }
           exitWithError("USAGE");
         }
@@ -534,71 +1075,517 @@ export function registerTicketCommands(program: Command): void {
 
           const eactId = caseData.eactId as number;
 
-          // Build text and tags for mentions
-          let mentionPrefix = "";
-          const tags: { startIndex: number; length: number; type: string; data: string }[] = [];
-
-          if (opts.mention?.length) {
-            const users = await client.searchUsers();
+          // Users are only fetched when something could be a mention.
+          const users = opts.mention?.length || message.includes("@") ? await client.searchUsers() : [];
+          const asMention = (user: ItxUser): Mention => ({
+            label: `@${user.firstName} ${user.lastName}`,
+            data: String(user.userId),
+          });
 
-            for (const mentionInput of opts.mention) {
-              const resolved = resolveAlias(mentionInput);
-              const user = findUser(users, resolved);
-              if (!user) {
-                const msg = `User not found for: ${mentionInput}`;
-                if (opts.json) {
-                  printJsonError("NOT_FOUND", msg);
-                } else {
-                  printError(msg);
-                }
-                exitWithError("NOT_FOUND");
+          const prefix: Mention[] = [];
+          for (const mentionInput of opts.mention ?? []) {
+            const user = findUser(users, resolveAlias(mentionInput));
+            if (!user) {
+              const msg = `User not found for: ${mentionInput}`;
+              if (opts.json) {
+                printJsonError("NOT_FOUND", msg);
+              } else {
+                printError(msg);
               }
-
-              const displayName = `@${user.firstName} ${user.lastName}`;
-              // startIndex is position of @ in the full HTML string
-              // prefix so far + "<p>" = 3 chars, plus existing mentionPrefix
-              const startIndex = 3 + mentionPrefix.length + 1; // +1 for leading \uFEFF
-              tags.push({
-                startIndex,
-                length: displayName.length,
-                type: "user",
-                data: String(user.userId),
-              });
-              mentionPrefix += `\uFEFF${displayName}\uFEFF `;
+              exitWithError("NOT_FOUND");
             }
+            prefix.push(asMention(user));
           }
 
-          const text = `<p>${mentionPrefix}${message}</p>`;
+          const { html, tags, unresolved } = markdownToHtml(message, {
+            prefix,
+            resolveMention: (name) => {
+              const user = findUser(users, resolveAlias(name));
+              return user && asMention(user);
+            },
+          });
+          const warnings = unresolved.map((name) => `@${name} is not a known user or alias; posted as plain text.`);
           const data = tags.length > 0 ? { tags } : undefined;
 
-          const response = await client.addActivityText(eactId, text, data);
+          const response = await client.addActivityText(eactId, html, data);
 
           if (opts.json) {
-            printJsonOk(response);
+            printJsonOk(response, warnings.length ? { meta: { warnings } } : {});
             return;
           }
 
+          for (const w of warnings) printError(w);
           printSuccess(`Comment added to ticket #${id}.`);
         } catch (err) {
           handleError(err, { json: opts.json });
         }
       },
     );
+
+  ticket
+    .command("reply <id> [message]")
+    .description(
+      "Email the customer on a ticket's conversation (itx ticket reply 43146 'Fixed — please try again')",
+    )
+    .option("-m, --message <text>", "Reply text in Markdown (alternative to positional)")
+    .option("-f, --file <path>", "Read the reply from a file (- for stdin)")
+    .option("--stdin", "Read the reply from stdin")
+    .option("--to <email...>", "Recipients (default: sender of the last inbound email)")
+    .option("--cc <email...>", "Cc recipients")
+    .option("-s, --subject <text>", "Subject (default: Re: the last email's subject)")
+    .option("--attach <file...>", "Attach files")
+    .option("--no-quote", "Don't quote the email being replied to")
+    .option("--dry-run", "Show the email without sending it")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .action(async (id: string, messageArg: string | undefined, opts: ReplyOpts) => {
+      let message = "";
+      const files: { name: string; content: Buffer }[] = [];
+      try {
+        message = await readMessage(messageArg, opts);
+        const bad = [...(opts.to ?? []), ...(opts.cc ?? [])].find((a) => !EMAIL_ADDRESS.test(a));
+        if (bad !== undefined) throw new Error(`Invalid email address: ${bad}`);
+        for (const path of opts.attach ?? []) {
+          try {
+            files.push({ name: basename(path), content: await readFile(path) });
+          } catch (err) {
+            throw new Error(`Cannot read --attach ${path}: ${(err as Error).message}`);
+          }
+        }
+      } catch (err) {
+        if (opts.json) printJsonError("USAGE", (err as Error).message);
+        else printError((err as Error).message);
+        exitWithError("USAGE");
+      }
+
+      const client = requireAuth(opts);
+      try {
+        const caseData = await fetchCase(client, id);
+        const eactId = caseData.eactId as number;
+
+        const { activities } = await resolveTicketActivities(client, eactId);
+        const emails = activities.filter(
+          (a) => (a.activityType as { eatyId?: number } | undefined)?.eatyId === ACTIVITY_TYPES.EMAIL,
+        );
+        const inbound = emails.filter((e) => e.direction === 2).at(-1);
+        const conversationId =
+          emails.map(conversationOf).filter((c) => c !== undefined).at(-1) ?? null;
+
+        const to = opts.to ?? (inbound?.fromMail ? [inbound.fromMail as string] : []);
+        if (!to.length) {
+          throw new ItxNotFoundError(
+            `Ticket #${id} has no inbound email to reply to. Give the recipients with --to.`,
+          );
+        }
+        const cc = opts.cc ?? [];
+        const lastSubject = (emails.at(-1)?.subject as string | undefined) ?? (caseData.description as string);
+        const subject = opts.subject ?? (/^re:/i.test(lastSubject) ? lastSubject : `Re: ${lastSubject}`);
+
+        let html = markdownToHtml(message).html;
+        if (opts.quote && inbound) {
+          const quoted = await client.getEmailContent(inbound.eactId as number);
+          if (typeof quoted === "string") {
+            // The stored email is a whole external document; quoting its
+            // markup would carry the sender's <head> and styles into ours.
+            const when = new Date(inbound.creationTs as string).toUTCString();
+            html +=
+              `<p>On ${when}, ${escapeHtml(inbound.fromMail as string)} wrote:</p>` +
+              `<blockquote>${textToHtml(htmlToText(quoted))}</blockquote>`;
+          }
+        }
+
+        const reply: TicketReplyResult = {
+          ticket: { seqNo: Number(id), eactId },
+          eactId: null,
+          conversationId,
+          inReplyTo: inbound ? (inbound.eactId as number) : null,
+          subject,
+          to,
+          cc,
+          attachments: files.map((f) => f.name),
+          dryRun: Boolean(opts.dryRun),
+        };
+
+        if (!opts.dryRun) {
+          const coreFileReferences: { cfreId: number }[] = [];
+          for (const file of files) {
+            const uploaded = await client.uploadFile(file.name, file.content, contentTypeFor(file.name));
+            coreFileReferences.push({ cfreId: uploaded.cfreId as number });
+          }
+          const contacts = ((caseData.members as Record<string, unknown>[] | undefined) ?? []).filter(
+            (m) => m.role === ROLES.CONTACT_PERSON,
+          );
+          const sent = await client.createActivity({
+            activityType: { eatyId: ACTIVITY_TYPES.EMAIL },
+            direction: 1,
+            subject,
+            toMail: to.join(", "),
+            ...(cc.length ? { ccMail: cc.join(", ") } : {}),
+            emailContent: html,
+            links: [
+              conversationId !== null
+                ? { type: LINK_TYPES.CONVERSATION, to: { eactId: conversationId } }
+                : { type: LINK_TYPES.CASE, to: { eactId } },
+            ],
+            ...(contacts.length
+              ? { members: contacts.map((m) => ({ role: ROLES.CONTACT_PERSON, entityExtension: m.entityExtension })) }
+              : {}),
+            ...(coreFileReferences.length ? { coreFileReferences } : {}),
+          });
+          reply.eactId = sent.eactId as number;
+        }
+
+        if (opts.json) {
+          printJsonOk(reply);
+          return;
+        }
+
+        if (opts.dryRun) printInfo(`Dry run — reply on ticket #${id} not sent.`);
+        else printSuccess(`Reply sent on ticket #${id}.`);
+        console.log(`  To:       ${to.join(", ")}`);
+        if (cc.length) console.log(`  Cc:       ${cc.join(", ")}`);
+        console.log(`  Subject:  ${subject}`);
+        if (files.length) console.log(`  Attached: ${reply.attachments.join(", ")}`);
+        if (opts.dryRun) {
+          console.log();
+          console.log(htmlToText(html));
+        }
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+    });
+
+  ticket
+    .command("attachments <id>")
+    .alias("files")
+    .description(
+      "List or download a ticket's files and call recordings (itx ticket attachments 43146 --download ./files)",
+    )
+    .option("--download <dir>", "Save the files into <dir> (created if missing)")
+    .option("--cfre-id <id...>", "Only these files (repeatable)")
+    .option("--recordings", "Only call recordings")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .action(async (id: string, opts: { download?: string; cfreId?: string[]; recordings?: boolean; json: boolean }) => {
+      const badId = opts.cfreId?.find((c) => !/^\d+$/.test(c));
+      if (badId !== undefined) {
+        const msg = `Invalid --cfre-id: ${badId} (expected a number).`;
+        if (opts.json) printJsonError("USAGE", msg);
+        else printError(msg);
+        exitWithError("USAGE");
+      }
+      const client = requireAuth(opts);
+      try {
+        const caseData = await fetchCase(client, id);
+        const eactId = caseData.eactId as number;
+        const { activities } = await resolveTicketActivities(client, eactId);
+
+        let attachments = projectAttachments(caseData, activities);
+        if (opts.recordings) attachments = attachments.filter((a) => a.kind === "recording");
+        if (opts.cfreId) {
+          const wanted = opts.cfreId.map(Number);
+          const missing = wanted.filter((c) => !attachments.some((a) => a.cfreId === c));
+          if (missing.length) {
+            throw new ItxNotFoundError(`Not found: file ${missing.join(", ")} is not on ticket #${id}.`);
+          }
+          attachments = attachments.filter((a) => wanted.includes(a.cfreId));
+        }
+
+        if (opts.download) {
+          await mkdir(opts.download, { recursive: true });
+          const taken = new Set<string>();
+          for (const file of attachments) {
+            const path = join(opts.download, localFileName(file, taken));
+            await writeFile(path, await client.downloadFile(file.cfreId));
+            file.path = path;
+          }
+        }
+
+        if (opts.json) {
+          const out: TicketAttachmentsResult = { ticket: { seqNo: Number(id), eactId }, attachments };
+          printJsonOk(out);
+          return;
+        }
+
+        if (!attachments.length) {
+          printInfo(`No ${opts.recordings ? "call recordings" : "attachments"} on ticket #${id}.`);
+          return;
+        }
+        printTable(
+          attachments.map((a) => ({
+            cfreId: a.cfreId,
+            name: a.name,
+            size: formatSize(a.size),
+            type: a.contentType ?? "",
+            from: a.kind === "recording" ? `${a.activityKind} recording` : a.activityKind,
+            date: a.ts ? new Date(a.ts).toLocaleString() : "",
+          })),
+          [
+            { key: "cfreId", label: "ID" },
+            { key: "name", label: "Name" },
+            { key: "size", label: "Size" },
+            { key: "type", label: "Type" },
+            { key: "from", label: "From" },
+            { key: "date", label: "Date" },
+          ],
+        );
+        if (opts.download) printSuccess(`Downloaded ${attachments.length} file(s) to ${opts.download}.`);
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+    });
+
+  ticket
+    .command("attach <id> <file...>")
+    .description("Upload files to a ticket (itx ticket attach 43146 screenshot.png logs.zip)")
+    .option("--json [fields]", "Output JSON envelope (bare: list fields; a,b: select fields)")
+    .option("--jq <expr>", "Filter the JSON envelope with a jq expression")
+    .action(async (id: string, paths: string[], opts: { json: boolean }) => {
+      const files: { name: string; content: Buffer }[] = [];
+      for (const path of paths) {
+        try {
+          files.push({ name: basename(path), content: await readFile(path) });
+        } catch (err) {
+          const msg = `Cannot read ${path}: ${(err as Error).message}`;
+          if (opts.json) printJsonError("USAGE", msg);
+          else printError(msg);
+          exitWithError("USAGE");
+        }
+      }
+      const client = requireAuth(opts);
+      try {
+        const caseData = await fetchCase(client, id);
+        const uploaded: Record<string, unknown>[] = [];
+        for (const file of files) {
+          uploaded.push(await client.uploadFile(file.name, file.content, contentTypeFor(file.name)));
+        }
+        const existing = (caseData.coreFileReferences as { cfreId: number }[] | undefined) ?? [];
+        await client.request("/rest/itxems/cases", {
+          method: "PUT",
+          body: {
+            seqNo: Number(id),
+            coreFileReferences: [...existing, ...uploaded].map((ref) => ({ cfreId: ref.cfreId })),
+          },
+        });
+
+        const attachments = projectAttachments({ ...caseData, coreFileReferences: uploaded }, []);
+        if (opts.json) {
+          const out: TicketAttachmentsResult = {
+            ticket: { seqNo: Number(id), eactId: caseData.eactId as number },
+            attachments,
+          };
+          printJsonOk(out);
+          return;
+        }
+
+        printSuccess(`Attached ${attachments.length} file(s) to ticket #${id}.`);
+        for (const a of attachments) console.log(`  ${a.name} (${formatSize(a.size)})`);
+      } catch (err) {
+        handleError(err, { json: opts.json });
+      }
+    });
+
+  addTemplateCommands(ticket);
+}
+
+interface TemplateSaveOpts {
+  subject?: string;
+  body?: string;
+  bodyFile?: string;
+  customer?: string;
+  prospect?: string;
+  status?: string;
+  priority?: string;
+  category?: string;
+  assignee?: string;
+  follower?: string[];
 }
 
+/** `itx ticket template ...` — presets for `ticket create --template`, kept per profile. */
+function addTemplateCommands(ticket: Command): void {
+  const template = ticket
+    .command("template")
+    .description("Manage ticket templates for ticket create --template");
+
+  template
+    .command("save <name>")
+    .description(
+      "Create or replace a template (itx ticket template save onboarding -s 'Onboarding: {{company}}' --customer '{{customer}}' --category onboarding)",
+    )
+    .option("-s, --subject <text>", "Subject; may contain {{var}} placeholders")
+    .option("--body <text>", "Initial comment; may contain {{var}} placeholders")
+    .option("--body-file <path>", "Read the initial comment from a file (- for stdin)")
+    .option("--customer <seqNo>", "Customer to attach (a seqNo or a placeholder)")
+    .option("--prospect <seqNo>", "Prospect to attach (a seqNo or a placeholder)")
+    .option("--status <status>", "Initial status")
+    .option("--priority <priority>", "Priority")
+    .option("--category <category>", "Category")
+    .option("--assignee <user>", "Assigned user (me, alias, email or name)")
+    .option("--follower <user...>", "Followers (repeatable)")
+    .action(async (name: string, opts: TemplateSaveOpts) => {
+      let usageError: string | undefined;
+      let body: string | undefined;
+      if (!isValidTemplateName(name)) {
+        usageError = `Invalid template name: ${name} (use letters, digits, - and _).`;
+      } else if (opts.customer && opts.prospect) {
+        usageError = "--customer and --prospect are mutually exclusive.";
+      } else if (opts.body !== undefined && opts.bodyFile !== undefined) {
+        usageError = "--body and --body-file are mutually exclusive.";
+      } else {
+        try {
+          body = await readText(opts.body, opts.bodyFile, "--body-file");
+        } catch (err) {
+          usageError = (err as Error).message;
+        }
+      }
+      const saved: TicketTemplate = Object.fromEntries(
+        Object.entries({
+          subject: opts.subject,
+          body,
+          customer: opts.customer,
+          prospect: opts.prospect,
+          status: opts.status,
+          priority: opts.priority,
+          category: opts.category,
+          assignee: opts.assignee,
+          followers: opts.follower,
+        }).filter(([, v]) => v !== undefined),
+      );
+      if (!usageError && Object.keys(saved).length === 0) {
+        usageError = "Provide at least one field to save (--subject, --body, --customer, --priority, ...).";
+      }
+      if (usageError) {
+        printError(usageError);
+        exitWithError("USAGE");
+      }
+
+      const replaced = getTemplate(name) !== undefined;
+      setTemplate(name, saved);
+      printSuccess(`Template ${replaced ? "updated" : "saved"}: ${name}`);
+      const vars = templateVars(saved);
+      if (vars.length) console.log(`  Variables: ${vars.join(", ")}`);
+    });
+
+  template
+    .command("list")
+    .alias("ls")
+    .description("List saved templates (itx ticket template list)")
+    .option("--json", "Output JSON envelope")
+    .action((opts: { json?: boolean }) => {
+      const rows = Object.entries(getTemplates()).map(([name, t]) => ({ name, ...t }));
+      if (opts.json) {
+        printJsonOk(rows);
+        return;
+      }
+      if (rows.length === 0) {
+        printInfo("No templates saved. Create one with: itx ticket template save <name> ...");
+        return;
+      }
+      printTable(
+        rows.map((t) => ({ ...t, vars: templateVars(t).join(", ") })),
+        [
+          { key: "name", label: "Name" },
+          { key: "subject", label: "Subject" },
+          { key: "priority", label: "Priority" },
+          { key: "category", label: "Category" },
+          { key: "vars", label: "Variables" },
+        ],
+      );
+    });
+
+  template
+    .command("show <name>")
+    .description("Show a template (itx ticket template show onboarding)")
+    .option("--json", "Output JSON envelope")
+    .action((name: string, opts: { json?: boolean }) => {
+      const t = getTemplate(name);
+      if (!t) {
+        const msg = `Template not found: ${name}`;
+        if (opts.json) printJsonError("NOT_FOUND", msg);
+        else printError(msg);
+        exitWithError("NOT_FOUND");
+      }
+      if (opts.json) {
+        printJsonOk({ name, ...t });
+        return;
+      }
+      const line = (label: string, value: string | undefined) => {
+        if (value) console.log(`${`${label}:`.padEnd(11)}${value}`);
+      };
+      line("Name", name);
+      line("Subject", t.subject);
+      line("Customer", t.customer);
+      line("Prospect", t.prospect);
+      line("Status", t.status);
+      line("Priority", t.priority);
+      line("Category", t.category);
+      line("Assignee", t.assignee);
+      line("Followers", t.followers?.join(", "));
+      line("Variables", templateVars(t).join(", "));
+      if (t.body) console.log(`\n${t.body}`);
+    });
+
+  template
+    .command("remove <name>")
+    .alias("rm")
+    .description("Remove a template (itx ticket template remove onboarding)")
+    .action((name: string) => {
+      if (!removeTemplate(name)) {
+        printError(`Template not found: ${name}`);
+        exitWithError("NOT_FOUND");
+      }
+      printSuccess(`Template removed: ${name}`);
+    });
+}
+
+/**
+ * Resolve `me`, an alias, email or name to a user — the one place every
+ * `--assignee`/`--follower` goes through. `users` is the users/search list
+ * when the caller already has it. Throws ItxNotFoundError so handleError maps
+ * it to exit code 3 (ItxAmbiguousError from findUser: 4).
+ */
+async function requireUser(client: ItxClient, input: string, users?: ItxUser[]): Promise<ItxUser> {
+  if (input.toLowerCase() === "me") {
+    const me = (await client.getActiveUser()) as Partial<ItxUser> | undefined;
+    if (!me?.userId) throw new ItxNotFoundError("Not found: active user has no userId");
+    return users?.find((u) => u.userId === me.userId) ?? (me as ItxUser);
+  }
+  const user = findUser(users ?? (await client.searchUsers()), resolveAlias(input));
+  if (!user) throw new ItxNotFoundError(`Not found: user "${input}"`);
+  return user;
+}
+
+/** userId of an internal-user member, if any. */
+function memberUserId(member: Record<string, unknown>): number | undefined {
+  return (member.user as { userId?: number } | undefined)?.userId;
+}
+
+/**
+ * Find a user by exact email, then full name, then first or last name.
+ * Throws ItxAmbiguousError when a name fits several users — `@dave` must not
+ * silently tag whichever Dave the API lists first.
+ */
 function findUser(users: ItxUser[], emailOrName: string): ItxUser | undefined {
-  // Try exact email match first
-  const byEmail = users.find(
-    (u) => u.email?.toLowerCase() === emailOrName.toLowerCase(),
-  );
+  const lower = emailOrName.toLowerCase();
+  const byEmail = users.find((u) => u.email?.toLowerCase() === lower);
   if (byEmail) return byEmail;
 
-  // Try name match (firstName lastName)
-  const lower = emailOrName.toLowerCase();
-  return users.find(
-    (u) =>
-      `${u.firstName} ${u.lastName}`.toLowerCase() === lower ||
-      u.firstName?.toLowerCase() === lower ||
-      u.lastName?.toLowerCase() === lower,
-  );
+  const passes = [
+    (u: ItxUser) => `${u.firstName} ${u.lastName}`.toLowerCase() === lower,
+    (u: ItxUser) => u.firstName?.toLowerCase() === lower || u.lastName?.toLowerCase() === lower,
+  ];
+  for (const pass of passes) {
+    const matches = users.filter(pass);
+    if (matches.length === 1) return matches[0];
+    if (matches.length > 1) {
+      const candidates = matches.map((u) => ({ id: u.userId, name: `${u.firstName} ${u.lastName}` }));
+      throw new ItxAmbiguousError(
+        `Ambiguous: ${matches.length} users match "${emailOrName}": ${candidates
+          .map((c) => `${c.name} (${c.id})`)
+          .join(", ")}. Use their email or an alias.`,
+        candidates,
+      );
+    }
+  }
+  return undefined;
 }
@@ -1,14 +1,21 @@
 #!/usr/bin/env node
 
 import { createRequire } from "module";
+import { existsSync } from "fs";
+import { dirname, resolve } from "path";
 import { Command } from "commander";
 import { registerConfigCommands } from "./commands/config.js";
 import { registerTicketCommands } from "./commands/ticket.js";
 import { registerUserCommands } from "./commands/user.js";
 import { registerAliasCommands } from "./commands/alias.js";
+import { registerProfileCommands } from "./commands/profile.js";
 import { registerCustomerCommands } from "./commands/customer.js";
 import { registerProspectCommands } from "./commands/prospect.js";
+import { registerRefdataCommands } from "./commands/refdata.js";
 import { registerHelpCommands } from "./commands/help.js";
+import { setRequestDefaults, DEFAULT_REQUEST_POLICY } from "./lib/client.js";
+import { printError, exitWithError } from "./lib/output.js";
+import { configureTracing, DEBUG_ENV } from "./lib/trace.js";
 
 const require = createRequire(import.meta.url);
 const { version } = require("../package.json");
@@ -18,14 +25,46 @@ const program = new Command();
 program
   .name("itx")
   .description("CLI for the ITX Portal API")
-  .version(version);
+  .version(version)
+  .option("--timeout <ms>", `Per-request timeout in ms, 0 for none (default: ${DEFAULT_REQUEST_POLICY.timeoutMs})`)
+  .option("--retries <n>", `Retries for 429/502/503/connection resets (default: ${DEFAULT_REQUEST_POLICY.retries})`)
+  .option("--debug", `Log each HTTP request to stderr (env: ${DEBUG_ENV})`)
+  .option("--trace-file <path>", "Write a HAR log of every HTTP request to a file")
+  .hook("preAction", () => {
+    const opts = program.opts<{ timeout?: string; retries?: string; debug?: boolean; traceFile?: string }>();
+    const count = (flag: string, value: string | undefined): number | undefined => {
+      if (value === undefined) return undefined;
+      const n = Number(value);
+      if (!Number.isInteger(n) || n < 0) {
+        printError(`Invalid ${flag}: ${value} (expected a non-negative integer)`);
+        exitWithError("USAGE");
+      }
+      return n;
+    };
+    setRequestDefaults({
+      timeoutMs: count("--timeout", opts.timeout),
+      retries: count("--retries", opts.retries),
+    });
+    const traceFile = opts.traceFile === undefined ? undefined : resolve(opts.traceFile);
+    if (traceFile && !existsSync(dirname(traceFile))) {
+      printError(`Invalid --trace-file: directory ${dirname(traceFile)} does not exist`);
+      exitWithError("USAGE");
+    }
+    configureTracing({
+      debug: opts.debug || undefined,
+      traceFile,
+      creator: { name: "itx", version },
+    });
+  });
 
 registerConfigCommands(program);
 registerTicketCommands(program);
 registerUserCommands(program);
 registerAliasCommands(program);
+registerProfileCommands(program);
 registerCustomerCommands(program);
 registerProspectCommands(program);
+registerRefdataCommands(program);
 registerHelpCommands(program);
 
 program.parse();
@@ -104,13 +104,14 @@ export function activityTypeLabel(eatyId?: number): string {
 export function htmlToText(html: string): string {
   return html
     .replace(/\r\n?/g, "\n")
-    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
     .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li(\s[^>]*)?>/gi, "\n- ")
     .replace(/<\/p><p[^>]*>/gi, "\n")
-    .replace(/<\/?(p|div|tr|li|ul|ol|blockquote|h[1-6])[^>]*>/gi, "\n")
+    .replace(/<\/?(p|div|tr|ul|ol|blockquote|h[1-6])[^>]*>/gi, "\n")
     .replace(/<[^>]+>/g, "")
     .replace(/&nbsp;/g, " ")
-    .replace(/&amp;/g, "&")
     .replace(/&lt;/g, "<")
     .replace(/&gt;/g, ">")
     .replace(/&quot;/g, '"')
@@ -122,12 +123,31 @@ export function htmlToText(html: string): string {
     .replace(/&mdash;/g, "\u2014")
     .replace(/&ndash;/g, "\u2013")
     .replace(/&#\d+;/g, "")
+    .replace(/&amp;/g, "&")
     .replace(/[\uFEFF\u200B\u200C\u200D\u00AD\u00A0]/g, " ")
     .replace(/^[ \t]+$/gm, "")
     .replace(/\n{3,}/g, "\n\n")
     .trim();
 }
 
+/** Plain text as HTML paragraphs — blank lines split them, single newlines become `<br>`. */
+export function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((para) => `<p>${escapeHtml(para).replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+/** Escape text for use inside ITX HTML (element content or attribute values). */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 export function formatDuration(seconds: number): string {
   const m = Math.floor(seconds / 60);
   const s = seconds % 60;
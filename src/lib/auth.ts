@@ -1,9 +1,16 @@
-import { isConfigured } from "./config.js";
+import {
+  isConfigured,
+  getCurrentProfile,
+  getEnvCredentials,
+  loginCommand,
+  type ItxCredentials,
+} from "./config.js";
 import { ItxClient } from "./client.js";
 import {
   printError,
   printJsonError,
   exitWithError,
+  handleError,
 } from "./output.js";
 
 /**
@@ -11,16 +18,31 @@ import {
  *
  * Single source of truth for the "are we logged in?" check used by every
  * command. When `opts.json` is true, the failure surfaces as the JSON error
- * envelope on stdout; otherwise it's a plain stderr message.
+ * envelope on stdout; otherwise it's a plain stderr message. The client is
+ * bound to the profile in effect (`--profile`, `ITX_PROFILE`, or the one
+ * picked with `itx profile use`), unless `ITX_API_KEY` supplies credentials.
  */
 export function requireAuth(opts: { json?: boolean } = {}): ItxClient {
-  if (!isConfigured()) {
+  const profile = getCurrentProfile();
+  let env: ItxCredentials | undefined;
+  try {
+    env = getEnvCredentials();
+  } catch (err) {
+    handleError(err, { json: opts.json });
+  }
+  if (!env && !isConfigured(profile)) {
+    const message = `Not configured. Run "${loginCommand(profile)}" first.`;
     if (opts.json) {
-      printJsonError("AUTH", 'Not configured. Run "itx login" first.');
+      printJsonError("AUTH", message);
     } else {
-      printError('Not configured. Run "itx login" first.');
+      printError(message);
     }
     exitWithError("AUTH");
   }
-  return new ItxClient();
+  try {
+    return new ItxClient(profile, env);
+  } catch (err) {
+    // e.g. an encrypted secret store without its passphrase
+    handleError(err, { json: opts.json });
+  }
 }
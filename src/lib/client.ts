@@ -1,9 +1,22 @@
-import { getConfig, setConfig } from "./config.js";
+import { createHash } from "node:crypto";
+import {
+  getConfig,
+  setConfig,
+  getCurrentProfile,
+  getEnvCredentials,
+  loginCommand,
+  type ItxCredentials,
+} from "./config.js";
+import { ItxApiError, ItxAuthError, RETRYABLE_STATUS } from "./errors.js";
+import { recordExchange } from "./trace.js";
+import { fixtureFetch } from "./fixtures.js";
 
 interface RequestOptions {
   method?: string;
   body?: unknown;
   params?: Record<string, string | number | boolean | undefined>;
+  /** Resolve to the raw response bytes (see the `request` overload) instead of JSON or text. */
+  binary?: boolean;
 }
 
 export interface ItxUser {
@@ -32,28 +45,135 @@ export interface EntityFilter {
   getExtensionLinks?: boolean;
 }
 
+/**
+ * Body filter for /itxems/cases/search.
+ *
+ * NOTE: only `eactIds` is known to filter server-side. Callers that need
+ * status/priority/assignee/date filtering must apply it client-side.
+ */
+export interface CaseFilter {
+  eactIds?: number[];
+  getMembers?: boolean;
+}
+
 /** Pagination options that map to limitFrom/limitTo (ITX's offset/limit). */
 export interface PageOpts {
   limitFrom?: number;  // 0-indexed offset
   limitTo?: number;    // page size, max 1000 enforced server-side
 }
 
+/** Server cap on entity/case search pagination — verified by probing. */
+export const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Timeout and retry behaviour for every HTTP call the client makes.
+ * Defaults come from {@link setRequestDefaults} (the global `--timeout` and
+ * `--retries` flags).
+ */
+export interface RequestPolicy {
+  /** Per-attempt timeout in ms, covering headers and body; 0 disables it. */
+  timeoutMs: number;
+  /** Extra attempts after the first for 429/502/503/ECONNRESET (writes: 429 only). */
+  retries: number;
+  /** First backoff delay; doubles per attempt, then jittered to 50–100%. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 30_000,
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+let requestDefaults: RequestPolicy = { ...DEFAULT_REQUEST_POLICY };
+
+/** Override the policy for clients created from now on; undefined keeps the current value. */
+export function setRequestDefaults(policy: Partial<RequestPolicy>): void {
+  for (const [key, value] of Object.entries(policy)) {
+    if (value !== undefined) requestDefaults[key as keyof RequestPolicy] = value;
+  }
+}
+
+export function resetRequestDefaults(): void {
+  requestDefaults = { ...DEFAULT_REQUEST_POLICY };
+}
+
+/** Never sleep longer than this for a server-supplied Retry-After. */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/**
+ * Whether repeating a request can't change the outcome. A POST or PUT whose
+ * response was lost may already have been applied, so repeating it could
+ * create a second ticket or send the customer a second email.
+ */
+function isIdempotent(method: string): boolean {
+  return method === "GET" || method === "HEAD";
+}
+
+/** Network error code from fetch's `TypeError: fetch failed` wrapper. */
+function errorCode(err: unknown): string | undefined {
+  const cause = (err as { cause?: { code?: string } }).cause;
+  return cause?.code ?? (err as { code?: string }).code;
+}
+
+/** Retry-After as ms — either delta-seconds or an HTTP date. */
+function retryAfterMs(res: Response): number | undefined {
+  const header = res.headers?.get("retry-after");
+  if (!header) return undefined;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS) : undefined;
+}
+
+/** Request id header, under the names gateways commonly use. */
+function requestIdOf(res: Response): string | null {
+  return res.headers?.get("x-request-id") ?? res.headers?.get("x-correlation-id") ?? null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 export class ItxClient {
+  /** Profile whose credentials and cached endpoint this client uses. */
+  readonly profile: string;
+  private ssoEndpoint: string;
   private endpoint: string;
   private authParams: Record<string, string>;
   private resolved: boolean;
+  private resolving?: Promise<string>;
+  /** False for explicit or environment credentials — nothing is written back. */
+  private persist: boolean;
+  /** Endpoint came from config rather than this process's own lookup. */
+  private cachedEndpoint: boolean;
+  private policy: RequestPolicy;
 
-  constructor() {
-    const config = getConfig();
+  /**
+   * Credentials come from `credentials` when given (defaulting to
+   * `ITX_API_KEY`), otherwise from the stored profile.
+   */
+  constructor(
+    profile: string = getCurrentProfile(),
+    credentials: ItxCredentials | undefined = getEnvCredentials(),
+    policy: Partial<RequestPolicy> = {},
+  ) {
+    this.profile = profile;
+    this.policy = { ...requestDefaults, ...policy };
+    this.persist = !credentials;
+    const config = credentials ?? getConfig(profile);
 
     if (!config.tokenv2) {
-      throw new Error(
-        'Not authenticated. Run "itx login" to configure credentials.',
+      throw new ItxAuthError(
+        `Not authenticated. Run "${loginCommand(profile)}" to configure credentials.`,
       );
     }
 
+    this.ssoEndpoint = config.ssoEndpoint;
     this.endpoint = config.activeEndpoint || config.ssoEndpoint;
     this.resolved = Boolean(config.activeEndpoint);
+    this.cachedEndpoint = this.resolved;
     this.authParams = {
       tokenv2: config.tokenv2,
       rcntrl: config.rcntrl,
@@ -61,33 +181,60 @@ export class ItxClient {
     };
   }
 
+  /** Base URL requests go to — the SSO endpoint until resolved. */
+  getEndpoint(): string {
+    return this.endpoint;
+  }
+
+  /**
+   * Key prefix for data cached on behalf of this client: the profile plus a
+   * hash of the SSO host and credentials. The API host alone isn't enough —
+   * one cluster node serves many tenants.
+   */
+  cacheScope(): string {
+    const { tokenv2, rcntrl, ccntrl } = this.authParams;
+    const hash = createHash("sha256")
+      .update([this.ssoEndpoint, tokenv2, rcntrl, ccntrl].join("\n"))
+      .digest("hex")
+      .slice(0, 16);
+    return `${this.profile}:${hash}`;
+  }
+
   /**
    * Discover the active API endpoint from the SSO cluster.
-   * Caches the result in config for subsequent calls.
+   * Caches the result in the profile for subsequent calls.
    */
   async resolveEndpoint(): Promise<string> {
-    const config = getConfig();
-    const ssoUrl = config.ssoEndpoint.replace(/\/$/, "");
+    const ssoUrl = this.ssoEndpoint.replace(/\/$/, "");
 
     const qs = new URLSearchParams(this.authParams).toString();
-    const res = await fetch(`${ssoUrl}/rest/api/state?${qs}`);
+    const res = await this.fetchWithRetry("GET", "/rest/api/state", () => `${ssoUrl}/rest/api/state?${qs}`);
 
     if (!res.ok) {
-      throw new Error(
-        `Failed to resolve active endpoint: ${res.status} ${res.statusText}`,
-      );
+      const message = `Failed to resolve active endpoint: ${res.status} ${res.statusText}`;
+      if (res.status === 401 || res.status === 403) throw new ItxAuthError(message, res.status);
+      throw new ItxApiError(message, {
+        status: res.status,
+        method: "GET",
+        path: "/rest/api/state",
+        body: await res.text().catch(() => ""),
+        requestId: requestIdOf(res),
+      });
     }
 
     const state = (await res.json()) as { endpoint?: string };
     if (!state.endpoint) {
-      throw new Error(
+      throw new ItxApiError(
         "No active endpoint returned from /rest/api/state. Check your SSO endpoint.",
+        { status: res.status, method: "GET", path: "/rest/api/state", requestId: requestIdOf(res) },
       );
     }
 
     const activeEndpoint = state.endpoint.replace(/\/$/, "");
-    setConfig({ activeEndpoint });
+    if (this.persist) setConfig({ activeEndpoint }, this.profile);
     this.endpoint = activeEndpoint;
+    this.resolved = true;
+    this.cachedEndpoint = false;
     return activeEndpoint;
   }
 
@@ -129,6 +276,61 @@ export class ItxClient {
     );
   }
 
+  /**
+   * Walk every entity matching `filter`, fetching pages lazily via
+   * limitFrom/limitTo until the server returns a short page. Break out of the
+   * `for await` loop to stop early — no further pages are requested.
+   */
+  async *iterateEntities(
+    filter: EntityFilter,
+    opts: { pageSize?: number } = {},
+  ): AsyncGenerator<Record<string, unknown>> {
+    const pageSize = Math.min(opts.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.searchEntities(filter, {
+        limitFrom: offset,
+        limitTo: pageSize,
+      });
+      yield* page;
+      if (page.length < pageSize) return;
+    }
+  }
+
+  /** Search cases by filter. See {@link CaseFilter} for working filter fields. */
+  async searchCases(
+    filter: CaseFilter,
+    page: PageOpts = {},
+  ): Promise<Record<string, unknown>[]> {
+    const result = await this.request<
+      Record<string, unknown>[] | Record<string, unknown> | null
+    >("/rest/itxems/cases/search", {
+      method: "POST",
+      body: filter,
+      params: {
+        limitFrom: page.limitFrom ?? 0,
+        limitTo: page.limitTo ?? 50,
+      },
+    });
+    if (!result) return [];
+    return Array.isArray(result) ? result : [result];
+  }
+
+  /** Case twin of {@link iterateEntities}. */
+  async *iterateCases(
+    filter: CaseFilter,
+    opts: { pageSize?: number } = {},
+  ): AsyncGenerator<Record<string, unknown>> {
+    const pageSize = Math.min(opts.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.searchCases(filter, {
+        limitFrom: offset,
+        limitTo: pageSize,
+      });
+      yield* page;
+      if (page.length < pageSize) return;
+    }
+  }
+
   /**
    * Get a single entity by emenId with full details (extensions, links, addresses).
    */
@@ -146,6 +348,30 @@ export class ItxClient {
     });
   }
 
+  /**
+   * Create an entity with its extensions (POST /itxems/entity). The response
+   * carries the new emenId; seqNo is assigned server-side, so re-fetch with
+   * {@link getEntity} for the full record.
+   */
+  async createEntity(entity: Record<string, unknown>): Promise<Record<string, unknown>> {
+    return this.request<Record<string, unknown>>("/rest/itxems/entity", {
+      method: "POST",
+      body: entity,
+    });
+  }
+
+  /**
+   * Replace an entity (PUT /itxems/entity). ITX overwrites the channel lists
+   * wholesale, so pass the full record from {@link getEntity} with the edits
+   * applied — not just the changed fields.
+   */
+  async updateEntity(entity: Record<string, unknown>): Promise<Record<string, unknown>> {
+    return this.request<Record<string, unknown>>("/rest/itxems/entity", {
+      method: "PUT",
+      body: entity,
+    });
+  }
+
   /**
    * Get all activities (cases, emails, calls, notes, sales) for an entity.
    *
@@ -159,13 +385,18 @@ export class ItxClient {
     );
   }
 
-  /** Batched entity lookup by emenIds. */
+  /** Batched entity lookup by emenIds, chunked to the 1000-row page cap. */
   async getEntitiesByIds(emenIds: number[]): Promise<Record<string, unknown>[]> {
-    if (emenIds.length === 0) return [];
-    return this.searchEntities(
-      { emenIds, getExtensions: true, getExtensionLinks: true, active: true },
-      { limitTo: emenIds.length },
-    );
+    const out: Record<string, unknown>[] = [];
+    for (let i = 0; i < emenIds.length; i += MAX_PAGE_SIZE) {
+      const chunk = emenIds.slice(i, i + MAX_PAGE_SIZE);
+      const page = await this.searchEntities(
+        { emenIds: chunk, getExtensions: true, getExtensionLinks: true, active: true },
+        { limitTo: chunk.length },
+      );
+      out.push(...page);
+    }
+    return out;
   }
 
   /**
@@ -181,7 +412,7 @@ export class ItxClient {
         params: { eactId },
       });
     } catch (err) {
-      if (err instanceof Error && /API error 404\b/.test(err.message)) return null;
+      if (err instanceof ItxApiError && err.status === 404) return null;
       throw err;
     }
   }
@@ -244,20 +475,51 @@ export class ItxClient {
     });
   }
 
+  /**
+   * Create an activity — e.g. an outbound email, with `links` placing it on
+   * a case or conversation and `coreFileReferences` for attachments.
+   */
+  async createActivity(activity: Record<string, unknown>): Promise<Record<string, unknown>> {
+    return this.request<Record<string, unknown>>("/rest/itxems/activities", {
+      method: "POST",
+      body: activity,
+    });
+  }
+
+  /**
+   * Upload a file (sent base64-encoded). The returned `cfreId` is what
+   * activities and cases reference in `coreFileReferences`.
+   */
+  async uploadFile(
+    name: string,
+    content: Buffer,
+    contentType?: string | null,
+  ): Promise<Record<string, unknown>> {
+    return this.request<Record<string, unknown>>("/rest/core/files", {
+      method: "POST",
+      body: { name, data: content.toString("base64"), ...(contentType ? { contentType } : {}) },
+    });
+  }
+
+  /** Download a stored file — an attachment or a call recording — by cfreId. */
+  async downloadFile(cfreId: number): Promise<Buffer> {
+    return this.request("/rest/core/files", { params: { cfreId }, binary: true });
+  }
+
   /**
    * Make an authenticated request to the ITX API.
    * Auto-resolves the active endpoint on first call if needed.
    */
-  async request<T = unknown>(
-    path: string,
-    options: RequestOptions = {},
-  ): Promise<T> {
+  async request(path: string, options: RequestOptions & { binary: true }): Promise<Buffer>;
+  async request<T = unknown>(path: string, options?: RequestOptions): Promise<T>;
+  async request(path: string, options: RequestOptions = {}): Promise<unknown> {
     if (!this.resolved) {
-      await this.resolveEndpoint();
-      this.resolved = true;
+      // Share one lookup between concurrent first requests.
+      this.resolving ??= this.resolveEndpoint();
+      await this.resolving;
     }
 
-    const { method = "GET", body, params } = options;
+    const { method = "GET", body, params, binary } = options;
 
     const searchParams = new URLSearchParams(this.authParams);
     if (params) {
@@ -268,36 +530,125 @@ export class ItxClient {
       }
     }
 
-    const url = `${this.endpoint}${path}?${searchParams.toString()}`;
-
-    const res = await fetch(url, {
+    const res = await this.fetchWithRetry(
       method,
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
+      path,
+      () => `${this.endpoint}${path}?${searchParams.toString()}`,
+      {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Accept: binary ? "*/*" : "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
       },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+      { reroute: true },
+    );
 
     if (!res.ok) {
       const text = await res.text().catch(() => "");
-      // 401/403 are auth failures — surface them with a "Not authenticated" prefix
-      // so handleError() / inferErrorCode() route to exit code 5 (AUTH) instead of
-      // 2 (API). Agents need to distinguish "session expired, re-login" from
-      // generic backend failures.
+      // 401/403 are auth failures — handleError() routes them to exit code 5
+      // (AUTH) instead of 2 (API). Agents need to distinguish "session expired,
+      // re-login" from generic backend failures.
       if (res.status === 401 || res.status === 403) {
-        throw new Error(
+        throw new ItxAuthError(
           `Not authenticated: ${res.status} ${res.statusText}${text ? `: ${text}` : ""}`,
+          res.status,
         );
       }
-      throw new Error(`API error ${res.status} ${res.statusText}: ${text}`);
+      throw new ItxApiError(`API error ${res.status} ${res.statusText}: ${text}`, {
+        status: res.status,
+        method,
+        path,
+        body: text,
+        requestId: requestIdOf(res),
+        // A write that hit a gateway error may have gone through.
+        ...(isIdempotent(method) || res.status === 429 ? {} : { retryable: false }),
+      });
+    }
+
+    if (binary) {
+      return Buffer.from(await res.arrayBuffer());
     }
 
     const contentType = res.headers.get("content-type");
     if (contentType?.includes("application/json")) {
-      return (await res.json()) as T;
+      return await res.json();
     }
 
-    return (await res.text()) as unknown as T;
+    return await res.text();
+  }
+
+  /**
+   * One logical request: retries 429/502/503 and ECONNRESET with exponential
+   * backoff (honouring Retry-After), and times out each attempt. Writes are
+   * only retried on 429, which the server answers before doing anything; a
+   * refused connection is rerouted for every method since nothing was sent. With
+   * `reroute`, an unreachable node from the cached `activeEndpoint` triggers
+   * one fresh `resolveEndpoint()` — the cluster may have moved us.
+   * `url` is re-evaluated per attempt so a reroute takes effect.
+   */
+  private async fetchWithRetry(
+    method: string,
+    path: string,
+    url: () => string,
+    init: RequestInit = {},
+    opts: { reroute?: boolean } = {},
+  ): Promise<Response> {
+    const { timeoutMs, retries, baseDelayMs, maxDelayMs } = this.policy;
+    const idempotent = isIdempotent(method);
+    for (let attempt = 0; ; attempt++) {
+      const signal = timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined;
+      let res: Response | undefined;
+      let failure: unknown;
+      const target = url();
+      const startedAt = new Date();
+      const start = performance.now();
+      try {
+        // The signal keeps running while the caller reads the body.
+        res = await fixtureFetch(target, { ...init, signal });
+      } catch (err) {
+        failure = err;
+      }
+      await recordExchange({ method, url: target, init, startedAt, start, res, failure });
+      // Already classified, e.g. a request with no replay fixture.
+      if (failure instanceof ItxApiError) throw failure;
+
+      if (res && !(idempotent ? RETRYABLE_STATUS.has(res.status) : res.status === 429)) return res;
+
+      const code = failure ? errorCode(failure) : undefined;
+      if (failure && (failure as Error).name === "TimeoutError") {
+        throw new ItxApiError(`API error: ${method} ${path} timed out after ${timeoutMs}ms`, {
+          status: null,
+          method,
+          path,
+          ...(idempotent ? {} : { retryable: false }),
+        });
+      }
+      // undici reports a peer hang-up as UND_ERR_SOCKET rather than ECONNRESET
+      const reset = idempotent && (code === "ECONNRESET" || code === "UND_ERR_SOCKET");
+      const unreachable = code === "ECONNREFUSED" || code === "ENOTFOUND";
+      if (opts.reroute && this.cachedEndpoint && unreachable) {
+        const before = this.endpoint;
+        this.cachedEndpoint = false;
+        this.resolving = undefined;
+        if ((await this.resolveEndpoint()) !== before) continue;
+      }
+
+      if ((!res && !reset) || attempt >= retries) {
+        if (res) return res;
+        const reason = code ?? (failure instanceof Error ? failure.message : String(failure));
+        throw new ItxApiError(`API error: ${method} ${path} failed: ${reason}`, {
+          status: null,
+          method,
+          path,
+          ...(idempotent || unreachable ? {} : { retryable: false }),
+        });
+      }
+
+      const backoff = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+      const jittered = backoff / 2 + Math.random() * (backoff / 2);
+      await sleep((res && retryAfterMs(res)) ?? jittered);
+    }
   }
 }
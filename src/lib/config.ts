@@ -1,5 +1,17 @@
+import { dirname } from "node:path";
 import Conf from "conf";
+import {
+  createSecretStore,
+  SECRET_FIELDS,
+  SECRET_STORE_NAMES,
+  type SecretField,
+  type SecretStore,
+  type SecretStoreName,
+} from "./secrets.js";
+import { ItxAuthError } from "./errors.js";
+import { fixtureMode, REPLAY_ENDPOINT } from "./fixtures.js";
 
+/** Credentials and per-tenant state — one set per named profile. */
 export interface ItxConfig {
   ssoEndpoint: string;
   tokenv2: string;
@@ -7,67 +19,268 @@ export interface ItxConfig {
   ccntrl: string;
   activeEndpoint?: string;
   aliases: Record<string, string>;
+  templates: Record<string, TicketTemplate>;
 }
 
-const config = new Conf<ItxConfig>({
+/**
+ * Saved `ticket create` defaults. Values are stored as typed (names, aliases)
+ * and resolved when the template is used; string fields may contain
+ * `{{var}}` placeholders filled from `--var`.
+ */
+export interface TicketTemplate {
+  subject?: string;
+  body?: string;
+  customer?: string;
+  prospect?: string;
+  status?: string;
+  priority?: string;
+  category?: string;
+  assignee?: string;
+  followers?: string[];
+}
+
+/** What an `ItxClient` needs to talk to ITX — stored or from the environment. */
+export type ItxCredentials = Pick<ItxConfig, "ssoEndpoint" | "tokenv2" | "rcntrl" | "ccntrl" | "activeEndpoint">;
+
+interface ConfigStore {
+  activeProfile: string;
+  profiles: Record<string, Partial<ItxConfig>>;
+  /** Backend holding tokenv2/rcntrl/ccntrl — `plain` keeps them in profiles. */
+  secretStore: SecretStoreName;
+}
+
+export const DEFAULT_PROFILE = "default";
+
+export const DEFAULT_SSO_ENDPOINT = "https://app.itxuc.com";
+
+/** Profile names double as object keys in config.json — keep them plain. */
+const PROFILE_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/** Keys of the pre-profile flat config.json, migrated into `default`. */
+const LEGACY_KEYS = ["ssoEndpoint", "tokenv2", "rcntrl", "ccntrl", "activeEndpoint", "aliases"] as const;
+
+const config = new Conf<ConfigStore>({
   projectName: "itx-cli",
   // When ITX_CONFIG_DIR is set (e.g. in tests), use an isolated directory
   // so tests never touch real user credentials.
   ...(process.env.ITX_CONFIG_DIR ? { cwd: process.env.ITX_CONFIG_DIR } : {}),
   schema: {
-    ssoEndpoint: {
-      type: "string",
-      default: "",
-    },
-    tokenv2: {
-      type: "string",
-      default: "",
-    },
-    rcntrl: {
-      type: "string",
-      default: "",
-    },
-    ccntrl: {
+    activeProfile: {
       type: "string",
-      default: "",
+      default: DEFAULT_PROFILE,
     },
-    activeEndpoint: {
-      type: "string",
-      default: "",
-    },
-    aliases: {
+    profiles: {
       type: "object",
       default: {},
     },
+    secretStore: {
+      type: "string",
+      enum: SECRET_STORE_NAMES,
+      default: "plain",
+    },
   },
 });
 
-export function getConfig(): ItxConfig {
+migrateFlatConfig();
+
+/**
+ * Move a pre-profile config.json (credentials at the top level) into the
+ * `default` profile. Runs on every load; a no-op once migrated.
+ */
+function migrateFlatConfig(): void {
+  const store = config.store as ConfigStore & Partial<ItxConfig>;
+  const legacy: Partial<ItxConfig> = {};
+  for (const key of LEGACY_KEYS) {
+    if (key in store) {
+      (legacy as Record<string, unknown>)[key] = store[key];
+      config.delete(key as keyof ConfigStore);
+    }
+  }
+  if (Object.keys(legacy).length === 0) return;
+  const profiles = config.get("profiles");
+  profiles[DEFAULT_PROFILE] = { ...legacy, ...profiles[DEFAULT_PROFILE] };
+  config.set("profiles", profiles);
+}
+
+let secretStore: SecretStore | undefined;
+
+/** The configured secret backend, or undefined when tokens stay in config.json. */
+export function getSecretStore(): SecretStore | undefined {
+  const name = config.get("secretStore");
+  if (name === "plain") return undefined;
+  if (secretStore?.name !== name) secretStore = createSecretStore(name, dirname(config.path));
+  return secretStore;
+}
+
+function secretKey(profile: string, field: SecretField): string {
+  return `${profile}/${field}`;
+}
+
+function isSecretField(key: string): key is SecretField {
+  return (SECRET_FIELDS as readonly string[]).includes(key);
+}
+
+// Set from the global --profile flag; wins over ITX_PROFILE and the stored
+// active profile for the rest of the process.
+let profileOverride: string | undefined;
+
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME.test(name);
+}
+
+/** Pin the profile for this process (the global `--profile` flag). */
+export function setProfileOverride(name: string | undefined): void {
+  profileOverride = name;
+}
+
+/** Profile in effect: `--profile`, then `ITX_PROFILE`, then `itx profile use`. */
+export function getCurrentProfile(): string {
+  return profileOverride || process.env.ITX_PROFILE || config.get("activeProfile");
+}
+
+/** The login command to suggest when `profile` has no credentials. */
+export function loginCommand(profile: string = getCurrentProfile()): string {
+  return profile === DEFAULT_PROFILE ? "itx login" : `itx login --profile ${profile}`;
+}
+
+export function getActiveProfile(): string {
+  return config.get("activeProfile");
+}
+
+export function setActiveProfile(name: string): void {
+  config.set("activeProfile", name);
+}
+
+export function listProfiles(): string[] {
+  return Object.keys(config.get("profiles")).sort();
+}
+
+export function hasProfile(name: string): boolean {
+  return name in config.get("profiles");
+}
+
+/** Delete a profile; the active profile falls back to `default`. */
+export function removeProfile(name: string): boolean {
+  const profiles = config.get("profiles");
+  if (!(name in profiles)) return false;
+  delete profiles[name];
+  config.set("profiles", profiles);
+  const store = getSecretStore();
+  for (const field of SECRET_FIELDS) store?.delete(secretKey(name, field));
+  if (config.get("activeProfile") === name) config.set("activeProfile", DEFAULT_PROFILE);
+  return true;
+}
+
+/** On-disk cache format version — bump to invalidate every stored entry. */
+const CACHE_VERSION = 2;
+
+export interface CacheEntry<T = unknown> {
+  fetchedAt: number;
+  data: T;
+}
+
+interface CacheStore {
+  version: number;
+  entries: Record<string, CacheEntry>;
+}
+
+// Kept in its own file next to config.json so cached API payloads never mix
+// with credentials, and `itx logout` doesn't have to know about it.
+const cache = new Conf<CacheStore>({
+  projectName: "itx-cli",
+  configName: "cache",
+  ...(process.env.ITX_CONFIG_DIR ? { cwd: process.env.ITX_CONFIG_DIR } : {}),
+  defaults: { version: CACHE_VERSION, entries: {} },
+});
+
+/**
+ * A profile's settings. Credentials are read from the secret store when one
+ * is configured, which can throw (e.g. a locked encrypted file) — pass
+ * `{ secrets: false }` to read only the plaintext settings.
+ */
+export function getConfig(
+  profile: string = getCurrentProfile(),
+  opts: { secrets?: boolean } = {},
+): ItxConfig {
+  const stored = config.get("profiles")[profile] ?? {};
+  const store = getSecretStore();
+  const secret = (field: SecretField): string => {
+    if (!store) return stored[field] ?? "";
+    return opts.secrets === false ? "" : store.get(secretKey(profile, field)) ?? "";
+  };
   return {
-    ssoEndpoint: config.get("ssoEndpoint"),
-    tokenv2: config.get("tokenv2"),
-    rcntrl: config.get("rcntrl"),
-    ccntrl: config.get("ccntrl"),
-    activeEndpoint: config.get("activeEndpoint"),
-    aliases: config.get("aliases"),
+    ssoEndpoint: stored.ssoEndpoint ?? "",
+    tokenv2: secret("tokenv2"),
+    rcntrl: secret("rcntrl"),
+    ccntrl: secret("ccntrl"),
+    activeEndpoint: stored.activeEndpoint ?? "",
+    aliases: stored.aliases ?? {},
+    templates: stored.templates ?? {},
   };
 }
 
-export function setConfig(values: Partial<ItxConfig>): void {
+export function setConfig(values: Partial<ItxConfig>, profile: string = getCurrentProfile()): void {
+  const profiles = config.get("profiles");
+  const stored = profiles[profile] ?? {};
+  const store = getSecretStore();
   for (const [key, value] of Object.entries(values)) {
-    if (value !== undefined) {
-      config.set(key as keyof ItxConfig, value);
+    if (value === undefined) continue;
+    if (store && isSecretField(key)) {
+      if (value) store.set(secretKey(profile, key), value as string);
+      else store.delete(secretKey(profile, key));
+      delete stored[key];
+    } else {
+      (stored as Record<string, unknown>)[key] = value;
     }
   }
+  profiles[profile] = stored;
+  config.set("profiles", profiles);
 }
 
+/** Wipe every profile, stored secrets and the active-profile pointer. */
 export function clearConfig(): void {
+  getSecretStore()?.clear();
   config.clear();
 }
 
-export function isConfigured(): boolean {
-  const c = getConfig();
-  return Boolean(c.ssoEndpoint && c.tokenv2);
+export function isConfigured(profile: string = getCurrentProfile()): boolean {
+  const c = getConfig(profile, { secrets: false });
+  const store = getSecretStore();
+  return Boolean(c.ssoEndpoint && (store ? store.has(secretKey(profile, "tokenv2")) : c.tokenv2));
+}
+
+/**
+ * Move every profile's tokens into `target` (or back into config.json for
+ * `plain`) and switch to it. Returns the profiles whose tokens moved.
+ */
+export function migrateSecrets(target: SecretStoreName): string[] {
+  const from = getSecretStore();
+  if ((from?.name ?? "plain") === target) return [];
+  const to = createSecretStore(target, dirname(config.path));
+  const profiles = config.get("profiles");
+  const moved: string[] = [];
+
+  // Copy first, then switch, then delete — an interrupted run never loses a token.
+  for (const [name, stored] of Object.entries(profiles)) {
+    let any = false;
+    for (const field of SECRET_FIELDS) {
+      const value = from ? from.get(secretKey(name, field)) : stored[field];
+      if (!value) continue;
+      if (to) to.set(secretKey(name, field), value);
+      else stored[field] = value;
+      any = true;
+    }
+    if (any) moved.push(name);
+  }
+  config.set("secretStore", target);
+  for (const name of moved) {
+    for (const field of SECRET_FIELDS) {
+      if (from) from.delete(secretKey(name, field));
+      else delete profiles[name][field];
+    }
+  }
+  config.set("profiles", profiles);
+  return moved;
 }
 
 export function getConfigPath(): string {
@@ -75,24 +288,113 @@ export function getConfigPath(): string {
 }
 
 export function getAliases(): Record<string, string> {
-  return config.get("aliases");
+  return getConfig().aliases;
 }
 
 export function setAlias(name: string, value: string): void {
-  const aliases = config.get("aliases");
+  const aliases = getAliases();
   aliases[name] = value;
-  config.set("aliases", aliases);
+  setConfig({ aliases });
 }
 
 export function removeAlias(name: string): boolean {
-  const aliases = config.get("aliases");
+  const aliases = getAliases();
   if (!(name in aliases)) return false;
   delete aliases[name];
-  config.set("aliases", aliases);
+  setConfig({ aliases });
   return true;
 }
 
 export function resolveAlias(nameOrValue: string): string {
-  const aliases = config.get("aliases");
-  return aliases[nameOrValue] ?? nameOrValue;
+  return getAliases()[nameOrValue] ?? nameOrValue;
+}
+
+/** Template names are config.json keys too, so they follow the profile-name rules. */
+export function isValidTemplateName(name: string): boolean {
+  return PROFILE_NAME.test(name);
+}
+
+export function getTemplates(): Record<string, TicketTemplate> {
+  return getConfig().templates;
+}
+
+export function getTemplate(name: string): TicketTemplate | undefined {
+  return getTemplates()[name];
+}
+
+export function setTemplate(name: string, template: TicketTemplate): void {
+  const templates = getTemplates();
+  templates[name] = template;
+  setConfig({ templates });
+}
+
+export function removeTemplate(name: string): boolean {
+  const templates = getTemplates();
+  if (!(name in templates)) return false;
+  delete templates[name];
+  setConfig({ templates });
+  return true;
+}
+
+/** Parse an ITX API key string like `?tokenv2=...&rcntrl=...&ccntrl=...` */
+export function parseApiKey(input: string): { tokenv2: string; rcntrl: string; ccntrl: string } | null {
+  const trimmed = input.trim();
+  // Accept with or without leading ?
+  const qs = trimmed.startsWith("?") ? trimmed.slice(1) : trimmed;
+  const params = new URLSearchParams(qs);
+  const tokenv2 = params.get("tokenv2");
+  if (!tokenv2) return null;
+  return {
+    tokenv2,
+    rcntrl: params.get("rcntrl") ?? "",
+    ccntrl: params.get("ccntrl") ?? "",
+  };
+}
+
+const REPLAY_CREDENTIALS: ItxCredentials = {
+  ssoEndpoint: REPLAY_ENDPOINT,
+  activeEndpoint: REPLAY_ENDPOINT,
+  tokenv2: "replay",
+  rcntrl: "replay",
+  ccntrl: "replay",
+};
+
+/**
+ * Credentials from `ITX_API_KEY` (+ optional `ITX_SSO_ENDPOINT`), for CI and
+ * sandboxes. When set they bypass the stored profiles entirely, and the
+ * resolved endpoint is never written back. Undefined when `ITX_API_KEY` is
+ * unset; throws when it is malformed rather than silently using stored
+ * credentials. Under `ITX_REPLAY` without a key, placeholder credentials stand
+ * in so fixtures replay on machines that never logged in.
+ */
+export function getEnvCredentials(): ItxCredentials | undefined {
+  const apiKey = process.env.ITX_API_KEY;
+  if (!apiKey) return fixtureMode()?.mode === "replay" ? REPLAY_CREDENTIALS : undefined;
+  const parsed = parseApiKey(apiKey);
+  if (!parsed) {
+    throw new ItxAuthError(
+      "Not authenticated: ITX_API_KEY is invalid. Expected format: ?tokenv2=...&rcntrl=...&ccntrl=...",
+    );
+  }
+  return { ssoEndpoint: process.env.ITX_SSO_ENDPOINT || DEFAULT_SSO_ENDPOINT, ...parsed };
+}
+
+/** Read a cache entry, ignoring anything written by another cache version. */
+export function getCacheEntry<T>(key: string): CacheEntry<T> | undefined {
+  if (cache.get("version") !== CACHE_VERSION) return undefined;
+  return cache.get("entries")[key] as CacheEntry<T> | undefined;
+}
+
+export function setCacheEntry<T>(key: string, data: T): void {
+  const entries = cache.get("version") === CACHE_VERSION ? cache.get("entries") : {};
+  entries[key] = { fetchedAt: Date.now(), data };
+  cache.set({ version: CACHE_VERSION, entries });
+}
+
+export function clearCacheEntries(): void {
+  cache.clear();
+}
+
+export function getCachePath(): string {
+  return cache.path;
 }
@@ -1,7 +1,9 @@
-import type { ItxClient } from "./client.js";
+import type { EntityFilter, ItxClient } from "./client.js";
+import { ItxAmbiguousError, ItxApiError, ItxNotFoundError, ItxUsageError } from "./errors.js";
 import type {
   ContactInfo,
   EntityClassification,
+  EntityFieldChange,
   EntityIdentity,
   ExtensionRole,
 } from "./schemas.js";
@@ -41,24 +43,41 @@ export interface EntityLookup {
   role: ExtensionRole;
 }
 
+/** A contact person linked to a customer/prospect extension. */
+export interface LinkedContactRef {
+  emenId: number;
+  /** The contact's own extension id (extType=40), not the customer's. */
+  eeexId: number;
+  /** Job title / role from the contact extension, when set. */
+  role: string | null;
+}
+
 /** Resolved entity with everything downstream commands need. */
 export interface ResolvedEntity {
   identity: EntityIdentity;
   contact: ContactInfo;
-  /** emenIds of contact people linked to this entity (for activity aggregation). */
+  /**
+   * emenIds of contact people linked to this entity (for activity aggregation).
+   * Empty unless resolveEntity was asked for `contacts`.
+   */
   linkedContactEmenIds: number[];
+  /** Same contacts as `linkedContactEmenIds`, with their own extension ids. */
+  linkedContacts: LinkedContactRef[];
   /** Raw entity payload, for callers that need fields not yet projected. */
   raw: Record<string, unknown>;
   /**
-   * Non-fatal warnings captured during resolution — e.g., a search hit the
-   * 1000-row server cap so results may be incomplete. Surfaced to JSON callers
+   * Non-fatal warnings captured during resolution — e.g., a lookup scan hit
+   * the safety row cap so results may be incomplete. Surfaced to JSON callers
    * via `meta.warnings` and `meta.truncated`.
    */
   warnings: string[];
 }
 
-/** Server cap on entity/case search pagination — verified by probing. */
-const MAX_PAGE = 1000;
+/**
+ * Safety cap on client-side lookup scans. The pager walks until the server
+ * runs out of rows; this only guards against runaway scans on huge tenants.
+ */
+const MAX_SCAN_ROWS = 50_000;
 
 const EXT_TYPE_TO_ROLE: Record<number, ExtensionRole> = {
   [EXT_TYPE.CUSTOMER]: "customer",
@@ -83,21 +102,22 @@ const ESTP_TO_LABEL: Record<number, string> = {
  *  1. Pick exactly one lookup field (caller-validated).
  *  2. Search by that field; reject ambiguous matches.
  *  3. Pull the full entity to populate addresses/emails/numbers.
- *  4. Walk extensionLinks to extract linked contact emenIds.
+ *  4. With `contacts`, walk extensionLinks to extract linked contact emenIds —
+ *     a scan of every contact row, so only callers that use them ask for it.
  */
 export async function resolveEntity(
   client: ItxClient,
   lookup: EntityLookup,
+  opts: { contacts?: boolean } = {},
 ): Promise<ResolvedEntity> {
   const extType = ROLE_TO_EXT_TYPE[lookup.role];
 
   const warnings: string[] = [];
-  const noteIfTruncated = (results: unknown[], context: string) => {
-    if (results.length === MAX_PAGE) {
-      warnings.push(
-        `Lookup by ${context} scanned ${MAX_PAGE} rows (server cap) — match may have been outside the page.`,
-      );
-    }
+  const baseFilter: EntityFilter = {
+    extensionTypes: [extType],
+    getExtensions: true,
+    getExtensionLinks: true,
+    active: true,
   };
 
   // Find candidate emenId(s) using the selected lookup strategy.
@@ -110,58 +130,61 @@ export async function resolveEntity(
     // Undocumented but functional ITX filter — keep cast until typed in EntityFilter.
     candidates = await client.searchEntities(
       {
-        extensionTypes: [extType],
-        getExtensions: true,
-        getExtensionLinks: true,
-        active: true,
+        ...baseFilter,
         ...({ extensionSeqNoFilters: [{ seqNo: lookup.seqNo }] } as Record<string, unknown>),
       },
       { limitFrom: 0, limitTo: 50 },
     );
   } else if (lookup.eeexId !== undefined) {
-    const all = await client.searchEntities(
-      { extensionTypes: [extType], getExtensions: true, getExtensionLinks: true, active: true },
-      { limitFrom: 0, limitTo: MAX_PAGE },
+    // eeexIds are unique — the first hit is the answer.
+    candidates = await scanForMatches(
+      client,
+      [baseFilter],
+      (e) => extensionsOf(e).some((x) => x.eeexId === lookup.eeexId),
+      { limit: 1, context: "eeexId", warnings },
     );
-    noteIfTruncated(all, "eeexId");
-    candidates = all.filter((e) => extensionsOf(e).some((x) => x.eeexId === lookup.eeexId));
   } else if (lookup.hubspotId) {
-    const corp = await client.searchEntities(
-      { extensionTypes: [extType], entityTypes: [ENTITY_TYPE.CORPORATE], getExtensions: true, getExtensionLinks: true, active: true },
-      { limitFrom: 0, limitTo: MAX_PAGE },
-    );
-    const priv = await client.searchEntities(
-      { extensionTypes: [extType], entityTypes: [ENTITY_TYPE.PRIVATE], getExtensions: true, getExtensionLinks: true, active: true },
-      { limitFrom: 0, limitTo: MAX_PAGE },
-    );
-    noteIfTruncated(corp, "hubspotId (corporate page)");
-    noteIfTruncated(priv, "hubspotId (private page)");
-    candidates = [...corp, ...priv].filter((e) =>
-      extensionsOf(e).some((x) =>
-        (x.thirdPartySystemEntityExtList ?? []).some(
-          (t) => t.id === lookup.hubspotId,
+    candidates = await scanForMatches(
+      client,
+      [
+        { ...baseFilter, entityTypes: [ENTITY_TYPE.CORPORATE] },
+        { ...baseFilter, entityTypes: [ENTITY_TYPE.PRIVATE] },
+      ],
+      (e) =>
+        extensionsOf(e).some((x) =>
+          (x.thirdPartySystemEntityExtList ?? []).some(
+            (t) => t.id === lookup.hubspotId,
+          ),
         ),
-      ),
+      { limit: 2, context: "hubspotId", warnings },
     );
   } else if (lookup.orgNo) {
-    const all = await client.searchEntities(
-      { extensionTypes: [extType], getExtensions: true, getExtensionLinks: true, active: true },
-      { limitFrom: 0, limitTo: MAX_PAGE },
+    candidates = await scanForMatches(
+      client,
+      [baseFilter],
+      (e) => (e as Record<string, unknown>).entityId === lookup.orgNo,
+      { limit: 2, context: "orgNo", warnings },
     );
-    noteIfTruncated(all, "orgNo");
-    candidates = all.filter((e) => (e as Record<string, unknown>).entityId === lookup.orgNo);
   } else {
     throw new Error("resolveEntity: no lookup field provided");
   }
 
   if (candidates.length === 0) {
     const desc = describeLookup(lookup);
-    throw new Error(`Not found: ${lookup.role} ${desc}`);
+    throw new ItxNotFoundError(`Not found: ${lookup.role} ${desc}`);
   }
   if (candidates.length > 1) {
     const desc = describeLookup(lookup);
-    throw new Error(
-      `Ambiguous: ${candidates.length} ${lookup.role} entities match ${desc}`,
+    const matches = candidates.map((e) => ({
+      id: e.emenId as number,
+      name: [e.name1, e.name2].filter(Boolean).join(" "),
+      seqNo: extensionsOf(e).find((x) => x.extType === extType)?.seqNo,
+    }));
+    throw new ItxAmbiguousError(
+      `Ambiguous: ${candidates.length} ${lookup.role} entities match ${desc}: ${matches
+        .map((m) => `${m.name} (${m.seqNo ?? `emenId ${m.id}`})`)
+        .join(", ")}`,
+      matches,
     );
   }
 
@@ -170,21 +193,15 @@ export async function resolveEntity(
   if (!emenId) throw new Error("Resolved entity missing emenId");
   const full = await client.getEntity(emenId);
 
-  const { ids: linkedIds, truncated: contactsTruncated } = await linkedContactEmenIds(
-    client,
-    full,
-    lookup.role,
-  );
-  if (contactsTruncated) {
-    warnings.push(
-      `Linked-contact lookup hit the ${MAX_PAGE}-row server cap — some contacts may be missing from --include-contacts.`,
-    );
-  }
+  const { ids: linkedIds, contacts: linkedContacts } = opts.contacts
+    ? await linkedContactEmenIds(client, full, lookup.role, warnings)
+    : { ids: [], contacts: [] };
 
   return {
     identity: identityFrom(full, lookup.role),
     contact: contactFrom(full),
     linkedContactEmenIds: linkedIds,
+    linkedContacts,
     raw: full,
     warnings,
   };
@@ -251,21 +268,19 @@ export function contactFrom(entity: Record<string, unknown>): ContactInfo {
 }
 
 /**
- * Walk extensionLinks to collect contact-person emenIds linked to this entity.
+ * Walk extensionLinks to collect the contact persons linked to this entity.
  *
- * Returns `{ ids, truncated }`. `truncated` is true when the corp-wide contact
- * scan hit the server's 1000-row page cap — in that case the linked-contact
- * list may be incomplete and the caller should surface a warning.
- *
- * No batched-by-eeexIds endpoint exists, so we fetch a page of contact
- * extensions and filter client-side. For tenants with >1000 contacts this is
- * lossy; future work: paginate.
+ * No batched-by-eeexIds endpoint exists, so we walk contact extensions with
+ * the entity pager and filter client-side, stopping as soon as every linked
+ * eeexId has been seen (or the server runs out of rows). Like scanForMatches,
+ * gives up after MAX_SCAN_ROWS and pushes a warning onto `warnings`.
  */
 export async function linkedContactEmenIds(
   client: ItxClient,
   entity: Record<string, unknown>,
   role: ExtensionRole,
-): Promise<{ ids: number[]; truncated: boolean }> {
+  warnings: string[] = [],
+): Promise<{ ids: number[]; contacts: LinkedContactRef[] }> {
   const targetExtType = ROLE_TO_EXT_TYPE[role];
   const ourExts = extensionsOf(entity).filter((x) => x.extType === targetExtType);
   const ourEeexIds = new Set(ourExts.map((x) => x.eeexId).filter(Boolean));
@@ -279,30 +294,410 @@ export async function linkedContactEmenIds(
       if (toId && ourEeexIds.has(toId) && fromId) contactEeexIds.add(fromId);
     }
   }
-  if (contactEeexIds.size === 0) return { ids: [], truncated: false };
+  if (contactEeexIds.size === 0) return { ids: [], contacts: [] };
+
+  const contacts: LinkedContactRef[] = [];
+  const remaining = new Set(contactEeexIds);
+  let scanned = 0;
+  for await (const e of client.iterateEntities({
+    extensionTypes: [EXT_TYPE.CONTACT],
+    getExtensions: true,
+    active: true,
+  })) {
+    const ext = extensionsOf(e).find((x) => x.eeexId && remaining.has(x.eeexId));
+    const id = (e as { emenId?: number }).emenId;
+    if (ext?.eeexId && id) {
+      remaining.delete(ext.eeexId);
+      contacts.push({ emenId: id, eeexId: ext.eeexId, role: ext.title ?? null });
+      if (remaining.size === 0) break;
+    }
+    if (++scanned >= MAX_SCAN_ROWS) {
+      warnings.push(
+        `Linked contacts lookup stopped after scanning ${MAX_SCAN_ROWS} rows — ${remaining.size} of ${contactEeexIds.size} contacts not found.`,
+      );
+      break;
+    }
+  }
+  return { ids: contacts.map((c) => c.emenId), contacts };
+}
+
+// ---------- create ----------
+
+/** What `customer create` / `prospect create` collect from flags. */
+export interface NewEntityInput {
+  name1: string;
+  name2?: string;
+  classification: EntityClassification;
+  /** Org number (corporate) or SSN (private) — stored as `entityId`. */
+  orgNo?: string;
+  emails?: string[];
+  numbers?: string[];
+  address?: {
+    line1?: string;
+    line2?: string;
+    postalCode?: string;
+    postalCity?: string;
+    country?: string;
+  };
+  /** Stored as a HUBSPOT_CUSTOMER external id on the new extension. */
+  hubspotId?: string;
+}
+
+/** Channel type the CLI writes for emails, numbers and addresses (ITX's "main"). */
+const MAIN_CHANNEL_TYPE = 1;
 
-  const all = await client.searchEntities(
-    { extensionTypes: [EXT_TYPE.CONTACT], getExtensions: true, active: true },
-    { limitFrom: 0, limitTo: MAX_PAGE },
+/** Body for POST /itxems/entity: the entity plus one extension for `role`. */
+export function newEntityPayload(
+  input: NewEntityInput,
+  role: ExtensionRole,
+): Record<string, unknown> {
+  const address = Object.fromEntries(
+    Object.entries(input.address ?? {}).filter(([, v]) => v !== undefined && v !== ""),
   );
-  const ids: number[] = [];
-  for (const e of all) {
-    const exts = extensionsOf(e);
-    if (exts.some((x) => x.eeexId && contactEeexIds.has(x.eeexId))) {
-      const id = (e as { emenId?: number }).emenId;
-      if (id) ids.push(id);
+  return {
+    name1: input.name1,
+    name2: input.name2 ?? null,
+    entityType:
+      input.classification === "private" ? ENTITY_TYPE.PRIVATE : ENTITY_TYPE.CORPORATE,
+    ...(input.orgNo ? { entityId: input.orgNo } : {}),
+    active: true,
+    emails: (input.emails ?? []).map((email) => ({ emailType: MAIN_CHANNEL_TYPE, email })),
+    numbers: (input.numbers ?? []).map((number) => ({ numberType: MAIN_CHANNEL_TYPE, number })),
+    addresses: Object.keys(address).length
+      ? [{ addressType: MAIN_CHANNEL_TYPE, ...address }]
+      : [],
+    extensions: [
+      {
+        extType: ROLE_TO_EXT_TYPE[role],
+        active: true,
+        thirdPartySystemEntityExtList: input.hubspotId
+          ? [{ id: input.hubspotId, thirdPartySystem: { estpId: ESTP.HUBSPOT_CUSTOMER } }]
+          : [],
+      },
+    ],
+  };
+}
+
+/**
+ * Refuse to create an entity that already exists as a customer or prospect:
+ * same full name (`exactNames`) or, when given, same org number. Throws
+ * ItxAmbiguousError listing the existing records so the caller can pick one
+ * or pass `--force`.
+ */
+export async function assertNoDuplicates(
+  client: ItxClient,
+  input: NewEntityInput,
+  warnings: string[],
+): Promise<void> {
+  const filter: EntityFilter = {
+    extensionTypes: [EXT_TYPE.CUSTOMER, EXT_TYPE.PROSPECT],
+    getExtensions: true,
+    active: true,
+  };
+  const name = [input.name1, input.name2].filter(Boolean).join(" ");
+  const byName = await client.searchEntities({ ...filter, exactNames: [name] }, { limitTo: 10 });
+  const byOrgNo = input.orgNo
+    ? await scanForMatches(
+        client,
+        [filter],
+        (e) => (e as Record<string, unknown>).entityId === input.orgNo,
+        { limit: 10, context: "orgNo", warnings },
+      )
+    : [];
+
+  const seen = new Set<number>();
+  const existing = [...byOrgNo, ...byName].filter((e) => {
+    const id = e.emenId as number;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+  if (existing.length === 0) return;
+
+  const candidates = existing.map((e) => {
+    const ext = extensionsOf(e).find((x) => x.extType === EXT_TYPE.CUSTOMER || x.extType === EXT_TYPE.PROSPECT);
+    return {
+      id: e.emenId as number,
+      name: [e.name1, e.name2].filter(Boolean).join(" "),
+      seqNo: ext?.seqNo,
+      role: EXT_TYPE_TO_ROLE[ext?.extType ?? 0],
+    };
+  });
+  const on = input.orgNo && byOrgNo.length ? `orgNo=${input.orgNo}` : `name "${name}"`;
+  throw new ItxAmbiguousError(
+    `Duplicate: ${candidates.length} existing ${candidates.length === 1 ? "entity matches" : "entities match"} ${on}: ${candidates
+      .map((c) => `${c.name} (${c.role ?? "entity"} ${c.seqNo ?? `emenId ${c.id}`})`)
+      .join(", ")}. Pass --force to create anyway.`,
+    candidates.map(({ id, name, seqNo }) => ({ id, name, seqNo })),
+  );
+}
+
+// ---------- update ----------
+
+/** An address as `--set-address` gives it; replaces the address of the same type. */
+export interface AddressInput {
+  type: number;
+  line1?: string;
+  line2?: string;
+  postalCode?: string;
+  postalCity?: string;
+  country?: string;
+}
+
+/** What `customer update` / `prospect update` change; unset fields are left alone. */
+export interface EntityChanges {
+  name1?: string;
+  name2?: string;
+  addEmails?: string[];
+  removeEmails?: string[];
+  addNumbers?: string[];
+  removeNumbers?: string[];
+  setAddresses?: AddressInput[];
+}
+
+function formatAddress(a: Record<string, unknown>): string {
+  const city = [a.postalCode, a.postalCity].filter(Boolean).join(" ");
+  const parts = [a.line1, a.line2, city, a.country].filter(Boolean).join(", ");
+  return `[${(a.addressType as number) ?? 0}] ${parts}`;
+}
+
+function listOrNull(values: string[]): string | null {
+  return values.length ? values.join("; ") : null;
+}
+
+/**
+ * Apply `changes` to a full entity payload (as returned by GET /itxems/entity)
+ * and report what differs. The input is not mutated; the returned entity is
+ * the PUT body. Emails compare case-insensitively, so adding one that is
+ * already there is a no-op; removing one that isn't throws ItxNotFoundError.
+ */
+export function applyEntityChanges(
+  entity: Record<string, unknown>,
+  changes: EntityChanges,
+): { entity: Record<string, unknown>; changes: EntityFieldChange[] } {
+  const next: Record<string, unknown> = { ...entity };
+  const diff: EntityFieldChange[] = [];
+  const track = (field: EntityFieldChange["field"], before: string | null, after: string | null) => {
+    if (before !== after) diff.push({ field, before, after });
+  };
+
+  if (changes.name1 !== undefined) {
+    next.name1 = changes.name1;
+    track("name1", (entity.name1 as string) ?? null, changes.name1);
+  }
+  if (changes.name2 !== undefined) {
+    next.name2 = changes.name2 || null;
+    track("name2", (entity.name2 as string) ?? null, changes.name2 || null);
+  }
+
+  if (changes.addEmails?.length || changes.removeEmails?.length) {
+    const before = (entity.emails as Record<string, unknown>[] | undefined) ?? [];
+    const key = (email: unknown) => String(email ?? "").toLowerCase();
+    let emails = [...before];
+    for (const email of changes.removeEmails ?? []) {
+      if (!emails.some((e) => key(e.email) === key(email))) {
+        throw new ItxNotFoundError(`Not found: ${email} is not an email on this entity.`);
+      }
+      emails = emails.filter((e) => key(e.email) !== key(email));
     }
+    for (const email of changes.addEmails ?? []) {
+      if (!emails.some((e) => key(e.email) === key(email))) {
+        emails.push({ emailType: MAIN_CHANNEL_TYPE, email });
+      }
+    }
+    next.emails = emails;
+    track(
+      "emails",
+      listOrNull(before.map((e) => e.email as string)),
+      listOrNull(emails.map((e) => e.email as string)),
+    );
   }
-  return { ids, truncated: all.length === MAX_PAGE };
+
+  if (changes.addNumbers?.length || changes.removeNumbers?.length) {
+    const before = (entity.numbers as Record<string, unknown>[] | undefined) ?? [];
+    // "+47 22 33 44 55" and "+4722334455" are the same number.
+    const key = (number: unknown) => String(number ?? "").replace(/[\s()-]/g, "");
+    let numbers = [...before];
+    for (const number of changes.removeNumbers ?? []) {
+      if (!numbers.some((n) => key(n.number) === key(number))) {
+        throw new ItxNotFoundError(`Not found: ${number} is not a number on this entity.`);
+      }
+      numbers = numbers.filter((n) => key(n.number) !== key(number));
+    }
+    for (const number of changes.addNumbers ?? []) {
+      if (!numbers.some((n) => key(n.number) === key(number))) {
+        numbers.push({ numberType: MAIN_CHANNEL_TYPE, number });
+      }
+    }
+    next.numbers = numbers;
+    track(
+      "numbers",
+      listOrNull(before.map((n) => n.number as string)),
+      listOrNull(numbers.map((n) => n.number as string)),
+    );
+  }
+
+  if (changes.setAddresses?.length) {
+    const before = (entity.addresses as Record<string, unknown>[] | undefined) ?? [];
+    let addresses = [...before];
+    for (const { type, ...fields } of changes.setAddresses) {
+      const address = {
+        addressType: type,
+        ...Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined && v !== "")),
+      };
+      const at = addresses.findIndex((a) => a.addressType === type);
+      if (at === -1) addresses.push(address);
+      else addresses = addresses.map((a, i) => (i === at ? address : a));
+    }
+    next.addresses = addresses;
+    track("addresses", listOrNull(before.map(formatAddress)), listOrNull(addresses.map(formatAddress)));
+  }
+
+  return { entity: next, changes: diff };
+}
+
+// ---------- convert ----------
+
+/**
+ * Turn a prospect into a customer on the same entity: add a customer
+ * extension carrying the prospect's external ids, then link the prospect's
+ * contact persons to it. A deactivated customer extension from an earlier
+ * round trip is reactivated rather than duplicated. Takes two PUTs — the
+ * links need the customer extension's server-assigned eeexId.
+ *
+ * If the second PUT failed on an earlier run, the entity is already an
+ * active customer; running again only carries the remaining links over.
+ * Throws ItxUsageError when the entity is already an active customer with
+ * nothing left to link.
+ */
+export async function convertProspect(
+  client: ItxClient,
+  entity: Record<string, unknown>,
+  opts: { deactivateProspect: boolean },
+): Promise<{ entity: Record<string, unknown>; contactLinks: number }> {
+  const emenId = entity.emenId as number;
+  const exts = extensionsOf(entity);
+  const prospect =
+    exts.find((x) => x.extType === EXT_TYPE.PROSPECT && x.active !== false) ??
+    exts.find((x) => x.extType === EXT_TYPE.PROSPECT);
+  if (!prospect) throw new ItxNotFoundError(`Not found: entity ${emenId} has no prospect extension.`);
+  const customer = exts.find((x) => x.extType === EXT_TYPE.CUSTOMER);
+
+  // Contacts link from their own extension to the prospect's.
+  const pendingLinks = (target: ExtensionShape) =>
+    (prospect.extensionLinks ?? [])
+      .filter((l) => l.to?.eeexId === prospect.eeexId && l.from?.eeexId)
+      .map((l) => ({ from: { eeexId: l.from!.eeexId }, to: { eeexId: target.eeexId }, type: l.type }))
+      .filter((l) => !(target.extensionLinks ?? []).some((x) => x.from?.eeexId === l.from.eeexId));
+
+  let saved = entity;
+  let target: ExtensionShape;
+  if (customer && customer.active !== false) {
+    target = customer;
+    // An earlier run whose link step failed leaves an active customer with the
+    // contacts still on the prospect — finish that instead of refusing.
+    if (pendingLinks(customer).length === 0) {
+      const name = [entity.name1, entity.name2].filter(Boolean).join(" ");
+      throw new ItxUsageError(
+        `Already a customer: ${name} is customer #${customer.seqNo}. Use \`itx customer view ${customer.seqNo}\`.`,
+      );
+    }
+  } else {
+    const externalIds = (prospect.thirdPartySystemEntityExtList ?? []).map((t) => ({
+      id: t.id,
+      thirdPartySystem: { estpId: t.thirdPartySystem?.estpId },
+    }));
+    const mergeIds = (list: ExtensionShape["thirdPartySystemEntityExtList"] = []) => [
+      ...list,
+      ...externalIds.filter(
+        (t) => !list.some((x) => x.id === t.id && x.thirdPartySystem?.estpId === t.thirdPartySystem.estpId),
+      ),
+    ];
+    const extensions: ExtensionShape[] = exts.map((x) => {
+      if (x === prospect) return opts.deactivateProspect ? { ...x, active: false } : x;
+      if (x === customer) {
+        return { ...x, active: true, thirdPartySystemEntityExtList: mergeIds(x.thirdPartySystemEntityExtList) };
+      }
+      return x;
+    });
+    if (!customer) {
+      extensions.push({
+        extType: EXT_TYPE.CUSTOMER,
+        active: true,
+        thirdPartySystemEntityExtList: externalIds,
+        extensionLinks: [],
+      });
+    }
+    await client.updateEntity({ ...entity, extensions });
+
+    saved = await client.getEntity(emenId);
+    const added = extensionsOf(saved).find((x) => x.extType === EXT_TYPE.CUSTOMER && x.active !== false);
+    if (!added?.eeexId) {
+      throw new ItxApiError("API error: converted entity has no active customer extension", {
+        status: null,
+        method: "GET",
+        path: "/rest/itxems/entity",
+        retryable: false,
+      });
+    }
+    target = added;
+  }
+
+  const links = pendingLinks(target);
+  if (links.length === 0) return { entity: saved, contactLinks: 0 };
+
+  const linked = {
+    ...saved,
+    extensions: extensionsOf(saved).map((x) => {
+      if (x.eeexId === target.eeexId) return { ...x, extensionLinks: [...(x.extensionLinks ?? []), ...links] };
+      // Resuming: --deactivate may not have been applied by the earlier run.
+      if (x.eeexId === prospect.eeexId && opts.deactivateProspect) return { ...x, active: false };
+      return x;
+    }),
+  };
+  await client.updateEntity(linked);
+  return { entity: linked, contactLinks: links.length };
 }
 
 // ---------- helpers ----------
 
+/**
+ * Walk each filter with the entity pager, collecting rows that satisfy
+ * `predicate`. Returns as soon as `limit` matches are in hand — callers pass
+ * 1 for unique keys and 2 for keys where ambiguity must still be detected.
+ * Pushes a warning (surfaced as `meta.truncated`) if a scan hits MAX_SCAN_ROWS.
+ */
+async function scanForMatches(
+  client: ItxClient,
+  filters: EntityFilter[],
+  predicate: (entity: Record<string, unknown>) => boolean,
+  opts: { limit: number; context: string; warnings: string[] },
+): Promise<Record<string, unknown>[]> {
+  const matches: Record<string, unknown>[] = [];
+  for (const filter of filters) {
+    let scanned = 0;
+    for await (const e of client.iterateEntities(filter)) {
+      if (predicate(e)) {
+        matches.push(e);
+        if (matches.length >= opts.limit) return matches;
+      }
+      if (++scanned >= MAX_SCAN_ROWS) {
+        opts.warnings.push(
+          `Lookup by ${opts.context} stopped after scanning ${MAX_SCAN_ROWS} rows — match may be further down.`,
+        );
+        break;
+      }
+    }
+  }
+  return matches;
+}
+
 interface ExtensionShape {
   eeexId?: number;
   extType?: number;
   seqNo?: number;
   active?: boolean;
+  title?: string;
   thirdPartySystemEntityExtList?: {
     id?: string;
     thirdPartySystem?: { estpId?: number };
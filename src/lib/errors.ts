@@ -0,0 +1,98 @@
+/**
+ * Typed errors thrown by `ItxClient` and the resolvers.
+ *
+ * `handleError` maps each class to its exit code and copies the structured
+ * fields (status, candidates, retryable) into the JSON error envelope.
+ * Messages keep their historical prefixes ("API error", "Not authenticated",
+ * "Not found:", "Ambiguous:") so human output is unchanged and plain `Error`s
+ * can still be classified by `inferErrorCode`.
+ */
+
+/** Statuses worth retrying: throttling and gateway/availability trouble. */
+export const RETRYABLE_STATUS = new Set([429, 502, 503]);
+
+/** A failed HTTP exchange with ITX. `status` is null for timeouts and network failures. */
+export class ItxApiError extends Error {
+  readonly status: number | null;
+  readonly method: string;
+  readonly path: string;
+  /** Response body as text (empty when there was no response). */
+  readonly body: string;
+  /** Server-assigned request id, when the response carried one. */
+  readonly requestId: string | null;
+  private readonly retryableOverride?: boolean;
+
+  constructor(
+    message: string,
+    details: {
+      status: number | null;
+      method: string;
+      path: string;
+      body?: string;
+      requestId?: string | null;
+      /** Overrides the status-based guess (e.g. a missing replay fixture never heals). */
+      retryable?: boolean;
+    },
+  ) {
+    super(message);
+    this.name = "ItxApiError";
+    this.status = details.status;
+    this.method = details.method;
+    this.path = details.path;
+    this.body = details.body ?? "";
+    this.requestId = details.requestId ?? null;
+    this.retryableOverride = details.retryable;
+  }
+
+  /** Whether the same call may succeed later without changes. */
+  get retryable(): boolean {
+    return this.retryableOverride ?? (this.status === null || RETRYABLE_STATUS.has(this.status));
+  }
+}
+
+/** Missing, invalid, expired or locked credentials. */
+export class ItxAuthError extends Error {
+  /** 401/403 when the API rejected the credentials; null when we never asked. */
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = "ItxAuthError";
+    this.status = status;
+  }
+}
+
+/** A user-supplied identifier (ticket, customer, user, refdata name) matched nothing. */
+export class ItxNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ItxNotFoundError";
+  }
+}
+
+export interface AmbiguousCandidate {
+  /** The id that disambiguates — emenId, userId, emstId, ... */
+  id: number;
+  name: string;
+  /** UI-visible number, for customers/prospects. */
+  seqNo?: number;
+}
+
+/** A request that conflicts with the current state, e.g. converting an existing customer. */
+export class ItxUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ItxUsageError";
+  }
+}
+
+/** A user-supplied identifier matched more than one thing. */
+export class ItxAmbiguousError extends Error {
+  readonly candidates: AmbiguousCandidate[];
+
+  constructor(message: string, candidates: AmbiguousCandidate[]) {
+    super(message);
+    this.name = "ItxAmbiguousError";
+    this.candidates = candidates;
+  }
+}
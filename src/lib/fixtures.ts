@@ -0,0 +1,192 @@
+/**
+ * Record/replay of ITX HTTP exchanges for offline tests and bug reports.
+ *
+ * `ITX_RECORD=<dir>` passes requests through to ITX and saves each exchange as
+ * one JSON file; `ITX_REPLAY=<dir>` serves responses from those files and never
+ * touches the network. Fixtures are sanitized on write: the auth params are
+ * dropped from the query and any occurrence of the token values in bodies is
+ * replaced with `***`, so a recording can be attached to an issue.
+ *
+ * Requests match on method, path, query (minus auth, sorted) and body — the
+ * host is ignored, so a replay doesn't care which cluster node was recorded.
+ * When the same request was recorded several times the responses are served
+ * in order, the last one repeating.
+ */
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { ItxApiError } from "./errors.js";
+import { SECRET_FIELDS } from "./secrets.js";
+import { isTextContentType } from "./trace.js";
+
+export const RECORD_ENV = "ITX_RECORD";
+export const REPLAY_ENV = "ITX_REPLAY";
+
+/** Endpoint the placeholder replay credentials point at; never contacted. */
+export const REPLAY_ENDPOINT = "https://replay.itx.invalid";
+
+const REDACTED = "***";
+const SECRET_PARAMS = new Set<string>(SECRET_FIELDS);
+/** Response headers worth keeping; the rest is noise or session state. */
+const KEPT_HEADERS = ["content-type", "retry-after", "x-request-id", "x-correlation-id"];
+
+export interface Fixture {
+  request: {
+    method: string;
+    path: string;
+    /** Sorted, with the auth params removed. */
+    query: string;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    /** Set for binary bodies (downloads), which are stored as base64. */
+    encoding?: "base64";
+  };
+}
+
+export type FixtureMode = { mode: "record" | "replay"; dir: string };
+
+/** The active mode from ITX_RECORD / ITX_REPLAY, or undefined for live traffic. */
+export function fixtureMode(): FixtureMode | undefined {
+  const record = process.env[RECORD_ENV];
+  const replay = process.env[REPLAY_ENV];
+  if (record && replay) {
+    throw new Error(`Set only one of ${RECORD_ENV} and ${REPLAY_ENV}.`);
+  }
+  if (record) return { mode: "record", dir: resolve(record) };
+  if (replay) return { mode: "replay", dir: resolve(replay) };
+  return undefined;
+}
+
+function sanitizedQuery(url: URL): string {
+  const params = [...url.searchParams].filter(([key]) => !SECRET_PARAMS.has(key));
+  params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return new URLSearchParams(params).toString();
+}
+
+function requestKey(req: Fixture["request"]): string {
+  return `${req.method} ${req.path}?${req.query}\n${req.body ?? ""}`;
+}
+
+function describeRequest(req: Fixture["request"]): string {
+  return `${req.method} ${req.path}${req.query ? `?${req.query}` : ""}`;
+}
+
+function fixtureRequest(url: string, init: RequestInit): Fixture["request"] {
+  const parsed = new URL(url);
+  const body = typeof init.body === "string" ? init.body : undefined;
+  return {
+    method: (init.method ?? "GET").toUpperCase(),
+    path: parsed.pathname,
+    query: sanitizedQuery(parsed),
+    ...(body !== undefined ? { body } : {}),
+  };
+}
+
+// ---------- replay ----------
+
+/** Loaded fixtures per directory, keyed by request; consumed front to back. */
+const replays = new Map<string, Map<string, Fixture[]>>();
+
+function loadReplay(dir: string): Map<string, Fixture[]> {
+  let byKey = replays.get(dir);
+  if (byKey) return byKey;
+  if (!existsSync(dir)) throw new Error(`${REPLAY_ENV} directory not found: ${dir}`);
+  byKey = new Map();
+  for (const name of readdirSync(dir).filter((f) => f.endsWith(".json")).sort()) {
+    const fixture = JSON.parse(readFileSync(join(dir, name), "utf8")) as Fixture;
+    const key = requestKey(fixture.request);
+    byKey.set(key, [...(byKey.get(key) ?? []), fixture]);
+  }
+  replays.set(dir, byKey);
+  return byKey;
+}
+
+function replay(dir: string, url: string, init: RequestInit): Response {
+  const req = fixtureRequest(url, init);
+  const queue = loadReplay(dir).get(requestKey(req));
+  if (!queue?.length) {
+    throw new ItxApiError(`API error: no recorded fixture for ${describeRequest(req)} in ${dir}`, {
+      status: null,
+      method: req.method,
+      path: req.path,
+      retryable: false,
+    });
+  }
+  const fixture = queue.length > 1 ? queue.shift()! : queue[0];
+  const { status, statusText, headers, body, encoding } = fixture.response;
+  // Responses with these statuses must not carry a body.
+  const empty = status === 204 || status === 304;
+  const content = encoding === "base64" ? Buffer.from(body, "base64") : body;
+  return new Response(empty ? null : content, { status, statusText, headers });
+}
+
+// ---------- record ----------
+
+let recorded = 0;
+
+/** Replace every token value in `text` — responses can echo them back. */
+function scrub(text: string, secrets: string[]): string {
+  return secrets.reduce((out, secret) => out.split(secret).join(REDACTED), text);
+}
+
+function fixtureName(seq: number, req: Fixture["request"]): string {
+  const slug = req.path.replace(/^\/rest\//, "").replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${String(seq).padStart(4, "0")}-${req.method.toLowerCase()}-${slug || "root"}.json`;
+}
+
+async function record(dir: string, url: string, init: RequestInit): Promise<Response> {
+  const res = await fetch(url, init);
+  const parsed = new URL(url);
+  const secrets = SECRET_FIELDS.map((f) => parsed.searchParams.get(f)).filter(
+    (v): v is string => Boolean(v),
+  );
+  const req = fixtureRequest(url, init);
+  if (req.body !== undefined) req.body = scrub(req.body, secrets);
+  const headers: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    const value = res.headers.get(name);
+    if (value !== null) headers[name] = value;
+  }
+  // Decoding a binary body as text would corrupt it, so keep its bytes as base64.
+  const type = headers["content-type"];
+  const binary = type !== undefined && !isTextContentType(type);
+  const fixture: Fixture = {
+    request: req,
+    response: {
+      status: res.status,
+      statusText: res.statusText,
+      headers,
+      body: binary
+        ? Buffer.from(await res.clone().arrayBuffer()).toString("base64")
+        : scrub(await res.clone().text(), secrets),
+      ...(binary ? { encoding: "base64" as const } : {}),
+    },
+  };
+
+  mkdirSync(dir, { recursive: true });
+  // Continue numbering after an earlier recording into the same directory.
+  if (recorded === 0) recorded = readdirSync(dir).filter((f) => f.endsWith(".json")).length;
+  writeFileSync(join(dir, fixtureName(++recorded, req)), JSON.stringify(fixture, null, 2) + "\n");
+  return res;
+}
+
+/**
+ * `fetch` as seen by `ItxClient`: live, recording, or replaying depending on
+ * ITX_RECORD / ITX_REPLAY.
+ */
+export async function fixtureFetch(url: string, init: RequestInit): Promise<Response> {
+  const mode = fixtureMode();
+  if (!mode) return fetch(url, init);
+  if (mode.mode === "replay") return replay(mode.dir, url, init);
+  return record(mode.dir, url, init);
+}
+
+/** Forget loaded replays and the record counter (tests). */
+export function resetFixtures(): void {
+  replays.clear();
+  recorded = 0;
+}
@@ -0,0 +1,760 @@
+/**
+ * In-process evaluator for the commonly used subset of jq, backing `--jq`.
+ *
+ * Supported: paths (`.a.b`, `.["k"]`, `.[0]`, `.[1:3]`, `.[]`, `..`), `?`,
+ * pipes, commas, literals, string interpolation, array/object construction,
+ * arithmetic, comparisons, `and`/`or`/`not`, `//`, `if … then … elif … else
+ * … end`, and the builtins listed in BUILTINS. Variables, `reduce`, paths
+ * functions and user-defined functions are not.
+ *
+ * Every expression evaluates to a list of outputs, like jq's streams.
+ */
+
+type Json = unknown;
+
+/** A parsed jq program, as returned by {@link parseJq}. */
+export type JqProgram = Node;
+
+type Node =
+  | { kind: "identity" }
+  | { kind: "recurse" }
+  | { kind: "literal"; value: Json }
+  | { kind: "string"; parts: (string | Node)[] }
+  | { kind: "index"; target: Node; key: Node }
+  | { kind: "slice"; target: Node; from?: Node; to?: Node }
+  | { kind: "iterate"; target: Node }
+  | { kind: "try"; body: Node }
+  | { kind: "pipe"; left: Node; right: Node }
+  | { kind: "comma"; left: Node; right: Node }
+  | { kind: "binary"; op: string; left: Node; right: Node }
+  | { kind: "neg"; body: Node }
+  | { kind: "array"; body?: Node }
+  | { kind: "object"; entries: { key: Node; value: Node }[] }
+  | { kind: "if"; cond: Node; then: Node; else?: Node }
+  | { kind: "call"; name: string; args: Node[] };
+
+// ---------- lexer ----------
+
+type Token =
+  | { type: "punct"; value: string }
+  | { type: "ident"; value: string }
+  | { type: "field"; value: string }
+  | { type: "number"; value: number }
+  | { type: "string"; parts: (string | Token[])[] }
+  | { type: "eof" };
+
+const PUNCT = ["..", "//", "==", "!=", "<=", ">=", "|", ",", ".", "[", "]", "(", ")", "{", "}", ":", ";", "?", "+", "-", "*", "/", "%", "<", ">"];
+
+function lex(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "#") {
+      while (i < src.length && src[i] !== "\n") i++;
+    } else if (ch === '"') {
+      const [token, end] = lexString(src, i);
+      tokens.push(token);
+      i = end;
+    } else if (/[0-9]/.test(ch)) {
+      const m = /^[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(src.slice(i))!;
+      tokens.push({ type: "number", value: Number(m[0]) });
+      i += m[0].length;
+    } else if (ch === "." && /[A-Za-z_]/.test(src[i + 1] ?? "")) {
+      const m = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i + 1))!;
+      tokens.push({ type: "field", value: m[0] });
+      i += 1 + m[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const m = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i))!;
+      tokens.push({ type: "ident", value: m[0] });
+      i += m[0].length;
+    } else {
+      const p = PUNCT.find((x) => src.startsWith(x, i));
+      if (!p) throw new Error(`Invalid --jq expression: unexpected "${ch}" at ${i}`);
+      tokens.push({ type: "punct", value: p });
+      i += p.length;
+    }
+  }
+  tokens.push({ type: "eof" });
+  return tokens;
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", '"': '"', "\\": "\\", "/": "/" };
+
+/** Lex a string literal starting at `start`, splitting out `\(…)` interpolations. */
+function lexString(src: string, start: number): [Token, number] {
+  const parts: (string | Token[])[] = [];
+  let buf = "";
+  let i = start + 1;
+  while (i < src.length && src[i] !== '"') {
+    if (src[i] !== "\\") {
+      buf += src[i++];
+      continue;
+    }
+    const next = src[i + 1];
+    if (next === "(") {
+      let depth = 1;
+      let j = i + 2;
+      while (j < src.length && depth > 0) {
+        if (src[j] === "(") depth++;
+        else if (src[j] === ")") depth--;
+        j++;
+      }
+      if (depth > 0) break;
+      if (buf) parts.push(buf);
+      buf = "";
+      parts.push(lex(src.slice(i + 2, j - 1)));
+      i = j;
+    } else if (next === "u") {
+      buf += String.fromCharCode(parseInt(src.slice(i + 2, i + 6), 16));
+      i += 6;
+    } else if (next !== undefined && ESCAPES[next] !== undefined) {
+      buf += ESCAPES[next];
+      i += 2;
+    } else {
+      throw new Error(`Invalid --jq expression: bad escape "\\${next ?? ""}"`);
+    }
+  }
+  if (src[i] !== '"') throw new Error("Invalid --jq expression: unterminated string");
+  if (buf || parts.length === 0) parts.push(buf);
+  return [{ type: "string", parts }, i + 1];
+}
+
+// ---------- parser ----------
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseProgram(): Node {
+    const node = this.parsePipe();
+    this.expectEof();
+    return node;
+  }
+
+  expectEof(): void {
+    if (this.peek().type !== "eof") this.fail("unexpected trailing input");
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private isPunct(value: string): boolean {
+    const t = this.peek();
+    return t.type === "punct" && t.value === value;
+  }
+
+  private isIdent(value: string): boolean {
+    const t = this.peek();
+    return t.type === "ident" && t.value === value;
+  }
+
+  private eat(value: string): boolean {
+    if (this.isPunct(value) || this.isIdent(value)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.eat(value)) this.fail(`expected "${value}"`);
+  }
+
+  private fail(message: string): never {
+    const t = this.peek();
+    const at = t.type === "eof" ? "end of input" : JSON.stringify("value" in t ? t.value : "string");
+    throw new Error(`Invalid --jq expression: ${message} near ${at}`);
+  }
+
+  /** `a | b`, lowest precedence. `noComma` is used inside object values. */
+  parsePipe(noComma = false): Node {
+    let left = noComma ? this.parseAlt() : this.parseComma();
+    while (this.eat("|")) {
+      const right = noComma ? this.parseAlt() : this.parseComma();
+      left = { kind: "pipe", left, right };
+    }
+    return left;
+  }
+
+  private parseComma(): Node {
+    let left = this.parseAlt();
+    while (this.eat(",")) left = { kind: "comma", left, right: this.parseAlt() };
+    return left;
+  }
+
+  private parseAlt(): Node {
+    const left = this.parseOr();
+    if (this.eat("//")) return { kind: "binary", op: "//", left, right: this.parseAlt() };
+    return left;
+  }
+
+  private parseOr(): Node {
+    let left = this.parseAnd();
+    while (this.eat("or")) left = { kind: "binary", op: "or", left, right: this.parseAnd() };
+    return left;
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseCompare();
+    while (this.eat("and")) left = { kind: "binary", op: "and", left, right: this.parseCompare() };
+    return left;
+  }
+
+  private parseCompare(): Node {
+    const left = this.parseAdditive();
+    for (const op of ["==", "!=", "<=", ">=", "<", ">"]) {
+      if (this.eat(op)) return { kind: "binary", op, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): Node {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const op = this.isPunct("+") ? "+" : this.isPunct("-") ? "-" : null;
+      if (!op) return left;
+      this.pos++;
+      left = { kind: "binary", op, left, right: this.parseMultiplicative() };
+    }
+  }
+
+  private parseMultiplicative(): Node {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = ["*", "/", "%"].find((x) => this.isPunct(x));
+      if (!op) return left;
+      this.pos++;
+      left = { kind: "binary", op, left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): Node {
+    if (this.eat("-")) return { kind: "neg", body: this.parseUnary() };
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Node {
+    let node = this.parsePrimary();
+    for (;;) {
+      const t = this.peek();
+      if (t.type === "field") {
+        this.pos++;
+        node = { kind: "index", target: node, key: { kind: "literal", value: t.value } };
+      } else if (this.isPunct(".") && this.tokens[this.pos + 1]?.type === "string") {
+        this.pos++;
+        node = { kind: "index", target: node, key: this.parsePrimary() };
+      } else if (this.isPunct(".") && this.tokens[this.pos + 1]?.type === "punct" &&
+                 (this.tokens[this.pos + 1] as { value: string }).value === "[") {
+        this.pos++;
+      } else if (this.isPunct("[")) {
+        node = this.parseBracket(node);
+      } else if (this.eat("?")) {
+        node = { kind: "try", body: node };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  /** `[]`, `[expr]`, `[from:to]` applied to `target`. */
+  private parseBracket(target: Node): Node {
+    this.expect("[");
+    if (this.eat("]")) return { kind: "iterate", target };
+    let from: Node | undefined;
+    if (!this.isPunct(":")) from = this.parsePipe();
+    if (this.eat(":")) {
+      const to = this.isPunct("]") ? undefined : this.parsePipe();
+      this.expect("]");
+      return { kind: "slice", target, from, to };
+    }
+    this.expect("]");
+    return { kind: "index", target, key: from! };
+  }
+
+  private parsePrimary(): Node {
+    const t = this.peek();
+    if (t.type === "number") {
+      this.pos++;
+      return { kind: "literal", value: t.value };
+    }
+    if (t.type === "string") {
+      this.pos++;
+      return {
+        kind: "string",
+        parts: t.parts.map((p) => (typeof p === "string" ? p : parseTokens(p))),
+      };
+    }
+    if (t.type === "field") {
+      this.pos++;
+      return { kind: "index", target: { kind: "identity" }, key: { kind: "literal", value: t.value } };
+    }
+    if (this.eat("..")) return { kind: "recurse" };
+    if (this.eat(".")) {
+      if (this.peek().type === "string") {
+        return { kind: "index", target: { kind: "identity" }, key: this.parsePrimary() };
+      }
+      return { kind: "identity" };
+    }
+    if (this.eat("(")) {
+      const body = this.parsePipe();
+      this.expect(")");
+      return body;
+    }
+    if (this.eat("[")) {
+      if (this.eat("]")) return { kind: "array" };
+      const body = this.parsePipe();
+      this.expect("]");
+      return { kind: "array", body };
+    }
+    if (this.eat("{")) return this.parseObject();
+    if (t.type === "ident") {
+      const start = this.pos;
+      this.pos++;
+      switch (t.value) {
+        case "null": return { kind: "literal", value: null };
+        case "true": return { kind: "literal", value: true };
+        case "false": return { kind: "literal", value: false };
+        case "if": return this.parseIf();
+      }
+      if (!Object.hasOwn(BUILTINS, t.value)) {
+        this.pos--;
+        this.fail(`unknown function "${t.value}"`);
+      }
+      const args: Node[] = [];
+      if (this.eat("(")) {
+        do args.push(this.parsePipe());
+        while (this.eat(";"));
+        this.expect(")");
+      }
+      if (!ARITY[t.value].includes(args.length)) {
+        this.pos = start;
+        this.fail(`${t.value}/${args.length} is not defined`);
+      }
+      return { kind: "call", name: t.value, args };
+    }
+    this.fail("unexpected token");
+  }
+
+  private parseIf(): Node {
+    const cond = this.parsePipe();
+    this.expect("then");
+    const then = this.parsePipe();
+    if (this.eat("elif")) return { kind: "if", cond, then, else: this.parseIf() };
+    let otherwise: Node | undefined;
+    if (this.eat("else")) otherwise = this.parsePipe();
+    this.expect("end");
+    return { kind: "if", cond, then, else: otherwise };
+  }
+
+  private parseObject(): Node {
+    const entries: { key: Node; value: Node }[] = [];
+    if (this.eat("}")) return { kind: "object", entries };
+    do {
+      const t = this.peek();
+      let key: Node;
+      let shorthand: Node | undefined;
+      if (t.type === "ident" || t.type === "field") {
+        this.pos++;
+        key = { kind: "literal", value: t.value };
+        shorthand = { kind: "index", target: { kind: "identity" }, key };
+      } else if (t.type === "string") {
+        key = this.parsePrimary();
+        shorthand = { kind: "index", target: { kind: "identity" }, key };
+      } else if (this.eat("(")) {
+        key = this.parsePipe();
+        this.expect(")");
+      } else {
+        this.fail("expected an object key");
+      }
+      if (this.eat(":")) {
+        entries.push({ key, value: this.parsePipe(true) });
+      } else if (shorthand) {
+        entries.push({ key, value: shorthand });
+      } else {
+        this.fail('expected ":"');
+      }
+    } while (this.eat(","));
+    this.expect("}");
+    return { kind: "object", entries };
+  }
+}
+
+function parseTokens(tokens: Token[]): Node {
+  return new Parser(tokens).parseProgram();
+}
+
+/**
+ * Parse a jq program. Throws "Invalid --jq expression: …" on syntax errors,
+ * unknown functions and wrong argument counts.
+ */
+export function parseJq(src: string): Node {
+  return parseTokens(lex(src));
+}
+
+// ---------- evaluator ----------
+
+function typeOf(v: Json): string {
+  if (v === null || v === undefined) return "null";
+  if (Array.isArray(v)) return "array";
+  return typeof v === "object" ? "object" : typeof v;
+}
+
+function truthy(v: Json): boolean {
+  return v !== null && v !== undefined && v !== false;
+}
+
+const TYPE_ORDER = ["null", "boolean", "number", "string", "array", "object"];
+
+/** jq's total ordering across types. */
+function compare(a: Json, b: Json): number {
+  const ta = typeOf(a);
+  const tb = typeOf(b);
+  if (ta !== tb) return TYPE_ORDER.indexOf(ta) - TYPE_ORDER.indexOf(tb);
+  switch (ta) {
+    case "null": return 0;
+    case "boolean":
+    case "number": return Number(a) - Number(b);
+    case "string": return (a as string) < (b as string) ? -1 : (a as string) > (b as string) ? 1 : 0;
+    case "array": {
+      const x = a as Json[];
+      const y = b as Json[];
+      for (let i = 0; i < Math.min(x.length, y.length); i++) {
+        const c = compare(x[i], y[i]);
+        if (c !== 0) return c;
+      }
+      return x.length - y.length;
+    }
+    default: {
+      const x = a as Record<string, Json>;
+      const y = b as Record<string, Json>;
+      const c = compare(Object.keys(x).sort(), Object.keys(y).sort());
+      if (c !== 0) return c;
+      for (const k of Object.keys(x).sort()) {
+        const d = compare(x[k], y[k]);
+        if (d !== 0) return d;
+      }
+      return 0;
+    }
+  }
+}
+
+function fail(message: string): never {
+  throw new Error(`jq error: ${message}`);
+}
+
+function describe(v: Json): string {
+  return `${typeOf(v)} (${JSON.stringify(v ?? null).slice(0, 30)})`;
+}
+
+function index(target: Json, key: Json): Json {
+  if (target === null || target === undefined) return null;
+  if (typeof key === "string" && typeOf(target) === "object") {
+    return (target as Record<string, Json>)[key] ?? null;
+  }
+  if (typeof key === "number" && Array.isArray(target)) {
+    const i = key < 0 ? target.length + key : Math.floor(key);
+    return target[i] ?? null;
+  }
+  fail(`Cannot index ${typeOf(target)} with ${typeOf(key)}`);
+}
+
+function iterate(v: Json): Json[] {
+  if (Array.isArray(v)) return v;
+  if (typeOf(v) === "object") return Object.values(v as object);
+  fail(`Cannot iterate over ${describe(v)}`);
+}
+
+function arithmetic(op: string, a: Json, b: Json): Json {
+  if (op === "+") {
+    if (a === null || a === undefined) return b;
+    if (b === null || b === undefined) return a;
+    if (typeof a === "number" && typeof b === "number") return a + b;
+    if (typeof a === "string" && typeof b === "string") return a + b;
+    if (Array.isArray(a) && Array.isArray(b)) return [...a, ...b];
+    if (typeOf(a) === "object" && typeOf(b) === "object") return { ...(a as object), ...(b as object) };
+  } else if (op === "-") {
+    if (typeof a === "number" && typeof b === "number") return a - b;
+    if (Array.isArray(a) && Array.isArray(b)) return a.filter((x) => !b.some((y) => compare(x, y) === 0));
+  } else if (typeof a === "number" && typeof b === "number") {
+    if (op === "*") return a * b;
+    if (b === 0) fail(`${a} cannot be divided by zero`);
+    return op === "/" ? a / b : a % b;
+  } else if (op === "/" && typeof a === "string" && typeof b === "string") {
+    return a.split(b);
+  }
+  fail(`${describe(a)} and ${describe(b)} cannot be combined with ${op}`);
+}
+
+function binary(op: string, left: Node, right: Node, input: Json): Json[] {
+  if (op === "and" || op === "or") {
+    const out: Json[] = [];
+    for (const l of evaluate(left, input)) {
+      if (op === "and" && !truthy(l)) out.push(false);
+      else if (op === "or" && truthy(l)) out.push(true);
+      else for (const r of evaluate(right, input)) out.push(truthy(r));
+    }
+    return out;
+  }
+  if (op === "//") {
+    let lefts: Json[] = [];
+    try {
+      lefts = evaluate(left, input).filter(truthy);
+    } catch {
+      lefts = [];
+    }
+    return lefts.length ? lefts : evaluate(right, input);
+  }
+  const out: Json[] = [];
+  for (const r of evaluate(right, input)) {
+    for (const l of evaluate(left, input)) {
+      switch (op) {
+        case "==": out.push(compare(l, r) === 0); break;
+        case "!=": out.push(compare(l, r) !== 0); break;
+        case "<": out.push(compare(l, r) < 0); break;
+        case "<=": out.push(compare(l, r) <= 0); break;
+        case ">": out.push(compare(l, r) > 0); break;
+        case ">=": out.push(compare(l, r) >= 0); break;
+        default: out.push(arithmetic(op, l, r));
+      }
+    }
+  }
+  return out;
+}
+
+function recurse(v: Json): Json[] {
+  const out: Json[] = [v];
+  if (Array.isArray(v) || typeOf(v) === "object") {
+    for (const child of iterate(v)) out.push(...recurse(child));
+  }
+  return out;
+}
+
+function toText(v: Json): string {
+  return typeof v === "string" ? v : JSON.stringify(v ?? null);
+}
+
+function length(v: Json): number {
+  if (v === null || v === undefined) return 0;
+  if (typeof v === "number") return Math.abs(v);
+  if (typeof v === "string" || Array.isArray(v)) return v.length;
+  if (typeOf(v) === "object") return Object.keys(v as object).length;
+  fail(`${describe(v)} has no length`);
+}
+
+function requireArray(name: string, v: Json): Json[] {
+  if (!Array.isArray(v)) fail(`${name} requires an array, got ${describe(v)}`);
+  return v;
+}
+
+function requireString(name: string, v: Json): string {
+  if (typeof v !== "string") fail(`${name} requires a string, got ${describe(v)}`);
+  return v;
+}
+
+/** Evaluate `f` once against `input`, taking its first output. */
+function first(f: Node, input: Json): Json {
+  return evaluate(f, input)[0] ?? null;
+}
+
+function byKey(name: string, f: Node, input: Json): { item: Json; key: Json }[] {
+  return requireArray(name, input).map((item) => ({ item, key: evaluate(f, item) }));
+}
+
+function contains(a: Json, b: Json): boolean {
+  if (typeof a === "string" && typeof b === "string") return a.includes(b);
+  if (Array.isArray(a) && Array.isArray(b)) return b.every((y) => a.some((x) => contains(x, y)));
+  if (typeOf(a) === "object" && typeOf(b) === "object") {
+    const x = a as Record<string, Json>;
+    return Object.entries(b as object).every(([k, v]) => k in x && contains(x[k], v));
+  }
+  return compare(a, b) === 0;
+}
+
+type Builtin = (input: Json, args: Node[]) => Json[];
+
+const BUILTINS: Record<string, Builtin> = {
+  empty: () => [],
+  not: (v) => [!truthy(v)],
+  length: (v) => [length(v)],
+  keys: (v) => [typeOf(v) === "object" ? Object.keys(v as object).sort() : iterate(v).map((_, i) => i)],
+  values: (v) => (v === null || v === undefined ? [] : [v]),
+  type: (v) => [typeOf(v)],
+  add: (v) => [v === null || v === undefined ? null : iterate(v).reduce((acc, x) => arithmetic("+", acc, x), null)],
+  reverse: (v) => [typeof v === "string" ? [...v].reverse().join("") : [...requireArray("reverse", v ?? [])].reverse()],
+  sort: (v) => [[...requireArray("sort", v)].sort(compare)],
+  unique: (v) => [[...requireArray("unique", v)].sort(compare).filter((x, i, arr) => i === 0 || compare(arr[i - 1], x) !== 0)],
+  min: (v) => [[...requireArray("min", v)].sort(compare)[0] ?? null],
+  max: (v) => [[...requireArray("max", v)].sort(compare).pop() ?? null],
+  first: (v, [f]) => (f ? evaluate(f, v).slice(0, 1) : [index(v, 0)]),
+  last: (v, [f]) => (f ? evaluate(f, v).slice(-1) : [index(v, -1)]),
+  flatten: (v) => [requireArray("flatten", v).flat(Infinity)],
+  tostring: (v) => [toText(v)],
+  tojson: (v) => [JSON.stringify(v ?? null)],
+  fromjson: (v) => [JSON.parse(requireString("fromjson", v))],
+  tonumber: (v) => {
+    const n = typeof v === "number" ? v : Number(requireString("tonumber", v));
+    if (Number.isNaN(n)) fail(`Cannot parse ${describe(v)} as a number`);
+    return [n];
+  },
+  ascii_downcase: (v) => [requireString("ascii_downcase", v).toLowerCase()],
+  ascii_upcase: (v) => [requireString("ascii_upcase", v).toUpperCase()],
+  to_entries: (v) => [Object.entries(v as object).map(([key, value]) => ({ key, value }))],
+  from_entries: (v) => [
+    Object.fromEntries(
+      requireArray("from_entries", v).map((e) => {
+        const entry = e as Record<string, Json>;
+        return [toText(entry.key ?? entry.k ?? entry.name), entry.value ?? entry.v ?? null];
+      }),
+    ),
+  ],
+  select: (v, [f]) => (evaluate(f, v).some(truthy) ? [v] : []),
+  map: (v, [f]) => [iterate(v).flatMap((x) => evaluate(f, x))],
+  map_values: (v, [f]) => {
+    if (Array.isArray(v)) return [v.map((x) => first(f, x))];
+    return [Object.fromEntries(Object.entries(v as object).map(([k, x]) => [k, first(f, x)]))];
+  },
+  with_entries: (v, [f]) => {
+    const entries = Object.entries(v as object).map(([key, value]) => ({ key, value }));
+    return BUILTINS.from_entries(entries.flatMap((e) => evaluate(f, e)), []);
+  },
+  has: (v, [f]) => evaluate(f, v).map((k) =>
+    Array.isArray(v) ? typeof k === "number" && k >= 0 && k < v.length : Object.hasOwn(v as object, k as string),
+  ),
+  contains: (v, [f]) => evaluate(f, v).map((b) => contains(v, b)),
+  any: (v, [f]) => [iterate(v).some((x) => (f ? evaluate(f, x).some(truthy) : truthy(x)))],
+  all: (v, [f]) => [iterate(v).every((x) => (f ? evaluate(f, x).every(truthy) : truthy(x)))],
+  join: (v, [f]) => evaluate(f, v).map((sep) =>
+    requireArray("join", v).map((x) => (x === null ? "" : toText(x))).join(requireString("join", sep)),
+  ),
+  split: (v, [f]) => evaluate(f, v).map((sep) => requireString("split", v).split(requireString("split", sep))),
+  test: (v, [f, flags]) => evaluate(f, v).map((re) =>
+    new RegExp(requireString("test", re), flags ? toText(first(flags, v)).replace(/[^gimsu]/g, "") : "").test(requireString("test", v)),
+  ),
+  startswith: (v, [f]) => evaluate(f, v).map((s) => requireString("startswith", v).startsWith(requireString("startswith", s))),
+  endswith: (v, [f]) => evaluate(f, v).map((s) => requireString("endswith", v).endsWith(requireString("endswith", s))),
+  ltrimstr: (v, [f]) => evaluate(f, v).map((s) => (typeof v === "string" && typeof s === "string" && v.startsWith(s) ? v.slice(s.length) : v)),
+  rtrimstr: (v, [f]) => evaluate(f, v).map((s) => (typeof v === "string" && typeof s === "string" && s && v.endsWith(s) ? v.slice(0, -s.length) : v)),
+  sort_by: (v, [f]) => [byKey("sort_by", f, v).sort((a, b) => compare(a.key, b.key)).map((x) => x.item)],
+  group_by: (v, [f]) => {
+    const groups: { key: Json; items: Json[] }[] = [];
+    for (const { item, key } of byKey("group_by", f, v).sort((a, b) => compare(a.key, b.key))) {
+      const last = groups[groups.length - 1];
+      if (last && compare(last.key, key) === 0) last.items.push(item);
+      else groups.push({ key, items: [item] });
+    }
+    return [groups.map((g) => g.items)];
+  },
+  unique_by: (v, [f]) => [(BUILTINS.group_by(v, [f])[0] as Json[][]).map((g) => g[0])],
+  min_by: (v, [f]) => [byKey("min_by", f, v).sort((a, b) => compare(a.key, b.key))[0]?.item ?? null],
+  max_by: (v, [f]) => [byKey("max_by", f, v).sort((a, b) => compare(a.key, b.key)).pop()?.item ?? null],
+  limit: (v, [n, f]) => evaluate(n, v).flatMap((count) => evaluate(f, v).slice(0, Number(count))),
+  range: (v, [from, to]) => {
+    const start = to ? Number(first(from, v)) : 0;
+    const end = Number(first(to ?? from, v));
+    const out: number[] = [];
+    for (let i = start; i < end; i++) out.push(i);
+    return out;
+  },
+};
+
+/** Argument counts each builtin accepts, checked at parse time. */
+const ARITY: Record<string, number[]> = {
+  empty: [0], not: [0], length: [0], keys: [0], values: [0], type: [0], add: [0],
+  reverse: [0], sort: [0], unique: [0], min: [0], max: [0], flatten: [0],
+  tostring: [0], tojson: [0], fromjson: [0], tonumber: [0], ascii_downcase: [0],
+  ascii_upcase: [0], to_entries: [0], from_entries: [0],
+  first: [0, 1], last: [0, 1], any: [0, 1], all: [0, 1],
+  select: [1], map: [1], map_values: [1], with_entries: [1], has: [1], contains: [1],
+  join: [1], split: [1], startswith: [1], endswith: [1], ltrimstr: [1], rtrimstr: [1],
+  sort_by: [1], group_by: [1], unique_by: [1], min_by: [1], max_by: [1],
+  test: [1, 2], range: [1, 2], limit: [2],
+};
+
+function evaluate(node: Node, input: Json): Json[] {
+  switch (node.kind) {
+    case "identity":
+      return [input];
+    case "recurse":
+      return recurse(input);
+    case "literal":
+      return [node.value];
+    case "string": {
+      let outs = [""];
+      for (const part of node.parts) {
+        if (typeof part === "string") outs = outs.map((s) => s + part);
+        else outs = evaluate(part, input).flatMap((v) => outs.map((s) => s + toText(v)));
+      }
+      return outs;
+    }
+    case "index":
+      return evaluate(node.target, input).flatMap((t) =>
+        evaluate(node.key, input).map((k) => index(t, k)),
+      );
+    case "slice":
+      return evaluate(node.target, input).map((t) => {
+        if (t === null || t === undefined) return null;
+        if (typeof t !== "string" && !Array.isArray(t)) fail(`Cannot slice ${describe(t)}`);
+        const from = node.from ? Number(first(node.from, input)) : undefined;
+        const to = node.to ? Number(first(node.to, input)) : undefined;
+        return t.slice(from, to);
+      });
+    case "iterate":
+      return evaluate(node.target, input).flatMap(iterate);
+    case "try":
+      try {
+        return evaluate(node.body, input);
+      } catch {
+        return [];
+      }
+    case "pipe":
+      return evaluate(node.left, input).flatMap((v) => evaluate(node.right, v));
+    case "comma":
+      return [...evaluate(node.left, input), ...evaluate(node.right, input)];
+    case "binary":
+      return binary(node.op, node.left, node.right, input);
+    case "neg":
+      return evaluate(node.body, input).map((v) => {
+        if (typeof v !== "number") fail(`${describe(v)} cannot be negated`);
+        return -v;
+      });
+    case "array":
+      return [node.body ? evaluate(node.body, input) : []];
+    case "object": {
+      let outs: Record<string, Json>[] = [{}];
+      for (const entry of node.entries) {
+        const next: Record<string, Json>[] = [];
+        for (const k of evaluate(entry.key, input)) {
+          if (typeof k !== "string") fail(`Object keys must be strings, got ${describe(k)}`);
+          for (const v of evaluate(entry.value, input)) {
+            for (const o of outs) next.push({ ...o, [k]: v });
+          }
+        }
+        outs = next;
+      }
+      return outs;
+    }
+    case "if":
+      return evaluate(node.cond, input).flatMap((c) =>
+        truthy(c) ? evaluate(node.then, input) : node.else ? evaluate(node.else, input) : [input],
+      );
+    case "call": {
+      const fn = BUILTINS[node.name];
+      if (!fn) fail(`${node.name}/${node.args.length} is not defined`);
+      return fn(input, node.args);
+    }
+  }
+}
+
+/**
+ * Run a jq program (source or already parsed) against `input`. Throws
+ * "Invalid --jq expression: …" on syntax errors and "jq error: …" on runtime
+ * errors.
+ */
+export function runJq(program: string | JqProgram, input: Json): Json[] {
+  return evaluate(typeof program === "string" ? parseJq(program) : program, input);
+}
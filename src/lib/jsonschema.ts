@@ -0,0 +1,356 @@
+/**
+ * Draft 2020-12 JSON Schema for every command's `data` payload.
+ *
+ * Hand-written mirror of the TypeScript contract in `schemas.ts` — TS types
+ * don't exist at runtime, so `itx schema <command>` serves these instead. The
+ * schema tests run real command output through a validator, so a projection
+ * that drifts from this file fails CI. Update both files together.
+ */
+import { emptyKindMap } from "./activities.js";
+import { COMMAND_FIELDS } from "./schemas.js";
+
+export type JsonSchema = Record<string, unknown>;
+
+export const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+// ---------- builders ----------
+
+const str: JsonSchema = { type: "string" };
+const int: JsonSchema = { type: "integer" };
+const num: JsonSchema = { type: "number" };
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/$defs/${name}` };
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: "array", items };
+}
+
+function enumOf(values: readonly string[]): JsonSchema {
+  return { type: "string", enum: [...values] };
+}
+
+function mapOf(values: JsonSchema): JsonSchema {
+  return { type: "object", additionalProperties: values };
+}
+
+/**
+ * Closed object schema. Keys suffixed with `?` are optional, mirroring the
+ * TS declaration.
+ */
+function object(props: Record<string, JsonSchema>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [key, schema] of Object.entries(props)) {
+    const optional = key.endsWith("?");
+    const name = optional ? key.slice(0, -1) : key;
+    properties[name] = schema;
+    if (!optional) required.push(name);
+  }
+  return { type: "object", properties, required, additionalProperties: false };
+}
+
+// ---------- shared definitions ----------
+
+const ACTIVITY_KINDS = Object.keys(emptyKindMap());
+
+const ticketRef = object({ id: nullable(int), name: str });
+
+const ticketFields = {
+  seqNo: int,
+  eactId: int,
+  subject: str,
+  status: ticketRef,
+  priority: ticketRef,
+  category: ticketRef,
+  creationTs: str,
+  updateTs: str,
+};
+
+const identityStub = object({ emenId: int, seqNo: int, name1: str });
+
+const linkedContactFields = {
+  emenId: int,
+  eeexId: int,
+  name1: nullable(str),
+  name2: nullable(str),
+  emails: arrayOf(str),
+  numbers: arrayOf(str),
+};
+
+const DEFS: Record<string, JsonSchema> = {
+  ActivityKind: enumOf(ACTIVITY_KINDS),
+  ActivityKindCounts: object(Object.fromEntries(ACTIVITY_KINDS.map((k) => [k, int]))),
+  ContactInfo: object({
+    emails: arrayOf(object({ type: int, address: str })),
+    numbers: arrayOf(object({ type: int, number: str })),
+    addresses: arrayOf(
+      object({
+        type: int,
+        "line1?": str,
+        "line2?": str,
+        "postalCode?": str,
+        "postalCity?": str,
+        "country?": str,
+      }),
+    ),
+  }),
+  EntityIdentity: object({
+    emenId: int,
+    eeexId: int,
+    seqNo: int,
+    name1: str,
+    name2: nullable(str),
+    classification: enumOf(["private", "corporate"]),
+    role: ref("ExtensionRole"),
+    externalIds: arrayOf(object({ system: str, estpId: int, id: str })),
+  }),
+  ExtensionRole: enumOf(["customer", "prospect"]),
+  CustomerSearchResult: object({
+    identity: ref("EntityIdentity"),
+    matchedOn: enumOf(["name", "exactName", "id"]),
+  }),
+  LinkedContact: object(linkedContactFields),
+  CustomerView: object({
+    identity: ref("EntityIdentity"),
+    contact: ref("ContactInfo"),
+    "linkedContacts?": arrayOf(ref("LinkedContact")),
+  }),
+  CustomerUpdateResult: object({
+    identity: ref("EntityIdentity"),
+    changes: arrayOf(
+      object({
+        field: enumOf(["name1", "name2", "emails", "numbers", "addresses"]),
+        before: nullable(str),
+        after: nullable(str),
+      }),
+    ),
+    dryRun: { type: "boolean" },
+  }),
+  ProspectConvertResult: object({
+    identity: ref("EntityIdentity"),
+    prospect: ref("EntityIdentity"),
+    prospectDeactivated: { type: "boolean" },
+    contactLinks: int,
+  }),
+  CustomerContactsResult: object({
+    identity: ref("EntityIdentity"),
+    linkedContacts: arrayOf(
+      object({ ...linkedContactFields, role: nullable(str), openTickets: int }),
+    ),
+  }),
+  TicketSummary: object({
+    ...ticketFields,
+    "assignedUser?": object({ userId: int, name: str }),
+  }),
+  CustomerTicketsResult: object({
+    identity: identityStub,
+    tickets: arrayOf(ref("TicketSummary")),
+    counts: object({ total: int, byStatus: mapOf(int), byPriority: mapOf(int) }),
+  }),
+  TicketMember: object({
+    role: enumOf(["assignee", "follower", "contact", "other"]),
+    roleId: int,
+    userId: nullable(int),
+    name: str,
+    external: { type: "boolean" },
+  }),
+  TicketView: object({
+    ...ticketFields,
+    assignedUser: nullable(object({ userId: int, name: str })),
+    members: arrayOf(ref("TicketMember")),
+    customer: nullable(
+      object({
+        emenId: int,
+        eeexId: int,
+        seqNo: int,
+        name1: str,
+        name2: nullable(str),
+        role: ref("ExtensionRole"),
+      }),
+    ),
+  }),
+  TicketUpdateResult: object({
+    seqNo: int,
+    eactId: int,
+    changes: arrayOf(
+      object({
+        field: enumOf(["subject", "status", "priority", "category", "assignee", "followers"]),
+        before: nullable(str),
+        after: nullable(str),
+      }),
+    ),
+  }),
+  ActivitySummary: object({
+    eactId: int,
+    kind: ref("ActivityKind"),
+    eatyId: int,
+    direction: nullable(enumOf(["inbound", "outbound", "internal"])),
+    ts: str,
+    "subject?": str,
+    "fromMail?": str,
+    "toMail?": str,
+    "body?": str,
+    "callDurationSec?": int,
+    "saleValue?": num,
+    "saleProbability?": num,
+    "description?": str,
+  }),
+  TicketActivitiesResult: object({
+    ticket: object({ seqNo: int, eactId: int }),
+    activities: arrayOf(ref("ActivitySummary")),
+    comments: arrayOf(
+      object({
+        ts: str,
+        author: object({ firstName: nullable(str), lastName: nullable(str) }),
+        text: str,
+      }),
+    ),
+  }),
+  TicketReplyResult: object({
+    ticket: object({ seqNo: int, eactId: int }),
+    eactId: nullable(int),
+    conversationId: nullable(int),
+    inReplyTo: nullable(int),
+    subject: str,
+    to: arrayOf(str),
+    cc: arrayOf(str),
+    attachments: arrayOf(str),
+    dryRun: { type: "boolean" },
+  }),
+  TicketAttachmentsResult: object({
+    ticket: object({ seqNo: int, eactId: int }),
+    attachments: arrayOf(
+      object({
+        cfreId: int,
+        name: str,
+        size: nullable(int),
+        contentType: nullable(str),
+        kind: enumOf(["attachment", "recording"]),
+        eactId: int,
+        activityKind: ref("ActivityKind"),
+        ts: str,
+        "path?": str,
+      }),
+    ),
+  }),
+  CustomerActivitiesResult: object({
+    identity: identityStub,
+    activities: arrayOf(ref("ActivitySummary")),
+    counts: ref("ActivityKindCounts"),
+  }),
+  CustomerSummary: object({
+    identity: ref("EntityIdentity"),
+    depth: enumOf(["brief", "standard", "full"]),
+    since: nullable(str),
+    contact: ref("ContactInfo"),
+    tickets: object({
+      totalOpen: int,
+      totalClosed: int,
+      byStatus: mapOf(int),
+      byPriority: mapOf(int),
+      byCategory: mapOf(int),
+      awaitingExternal: int,
+      awaitingInternal: int,
+      criticalOpen: int,
+      "recent?": arrayOf(ref("TicketSummary")),
+    }),
+    communication: object({
+      lastInboundTs: nullable(str),
+      lastOutboundTs: nullable(str),
+      byKind: ref("ActivityKindCounts"),
+      totalActivities: int,
+      "recent?": arrayOf(ref("ActivitySummary")),
+    }),
+    pipeline: object({
+      openCount: int,
+      openValue: num,
+      weightedValue: num,
+      byStep: mapOf(int),
+      lastUpdateTs: nullable(str),
+    }),
+    health: object({
+      signal: enumOf(["ok", "attention", "trouble", "stalled"]),
+      reasons: arrayOf(str),
+    }),
+  }),
+  RefdataCategoryNode: object({
+    emcaId: int,
+    name: str,
+    children: arrayOf(ref("RefdataCategoryNode")),
+  }),
+  RefdataListResult: object({
+    statuses: arrayOf(object({ emstId: int, internalStatus: int, sort: int, name: str })),
+    priorities: arrayOf(object({ empriId: int, sort: int, name: str })),
+    categories: arrayOf(object({ emcaId: int, name: str, parent: nullable(int) })),
+    categoryTree: arrayOf(ref("RefdataCategoryNode")),
+  }),
+};
+
+/** Root `data` schema per command, keyed like COMMAND_FIELDS. */
+const COMMAND_ROOTS: Record<string, JsonSchema> = {
+  "ticket list": arrayOf(ref("TicketView")),
+  "ticket view": ref("TicketView"),
+  "ticket create": ref("TicketView"),
+  "ticket update": ref("TicketUpdateResult"),
+  "ticket activities": ref("TicketActivitiesResult"),
+  "ticket reply": ref("TicketReplyResult"),
+  "ticket attachments": ref("TicketAttachmentsResult"),
+  "ticket attach": ref("TicketAttachmentsResult"),
+  "refdata list": ref("RefdataListResult"),
+  "refdata refresh": ref("RefdataListResult"),
+  "prospect convert": ref("ProspectConvertResult"),
+};
+for (const role of ["customer", "prospect"]) {
+  COMMAND_ROOTS[`${role} search`] = arrayOf(ref("CustomerSearchResult"));
+  COMMAND_ROOTS[`${role} view`] = ref("CustomerView");
+  COMMAND_ROOTS[`${role} create`] = ref("CustomerView");
+  COMMAND_ROOTS[`${role} update`] = ref("CustomerUpdateResult");
+  COMMAND_ROOTS[`${role} tickets`] = ref("CustomerTicketsResult");
+  COMMAND_ROOTS[`${role} activities`] = ref("CustomerActivitiesResult");
+  COMMAND_ROOTS[`${role} summary`] = ref("CustomerSummary");
+  COMMAND_ROOTS[`${role} contacts`] = ref("CustomerContactsResult");
+}
+
+/** Names of every `$defs` entry reachable from a schema, in discovery order. */
+function reachableDefs(schema: unknown, seen: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(schema)) {
+    for (const item of schema) reachableDefs(item, seen);
+  } else if (schema && typeof schema === "object") {
+    for (const [key, value] of Object.entries(schema)) {
+      if (key === "$ref" && typeof value === "string") {
+        const name = value.slice("#/$defs/".length);
+        if (!seen.has(name)) {
+          seen.add(name);
+          reachableDefs(DEFS[name], seen);
+        }
+      } else {
+        reachableDefs(value, seen);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Standalone JSON Schema document for a command's `data` payload, carrying
+ * only the `$defs` it references. Undefined for unknown commands.
+ */
+export function commandJsonSchema(command: string): JsonSchema | undefined {
+  const root = COMMAND_ROOTS[command];
+  if (!root || !COMMAND_FIELDS[command]) return undefined;
+  const defs = Object.fromEntries(
+    [...reachableDefs(root)].map((name) => [name, DEFS[name]]),
+  );
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: `itx ${command} --json data`,
+    ...root,
+    $defs: defs,
+  };
+}
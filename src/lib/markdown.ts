@@ -0,0 +1,149 @@
+/**
+ * Markdown → ITX comment HTML, the inverse of `htmlToText`.
+ *
+ * Supports the subset people actually type into ticket comments: paragraphs
+ * (single newlines stay line breaks, as in the ITX editor), `-`/`*`/`+` and
+ * `1.` lists, fenced code blocks, `inline code`, `[links](https://…)`,
+ * `**bold**` and `@alias` mentions. Everything else is escaped and passed
+ * through as text; `\` escapes a markup character (`\@dave` is not a mention).
+ */
+import { escapeHtml } from "./activities.js";
+
+/** A resolved mention: the `@First Last` label shown and the user id it tags. */
+export interface Mention {
+  label: string;
+  data: string;
+}
+
+/** Mention tag as ITX stores it on an activity text. Indices are into the final HTML. */
+export interface MentionTag {
+  startIndex: number;
+  length: number;
+  type: "user";
+  data: string;
+}
+
+export interface MarkdownOptions {
+  /** Resolve `@name` in the text; undefined leaves it as plain text. */
+  resolveMention?: (name: string) => Mention | undefined;
+  /** Mentions put in front of the first paragraph (`ticket comment --mention`). */
+  prefix?: Mention[];
+}
+
+export interface CommentHtml {
+  html: string;
+  tags: MentionTag[];
+  /** `@name`s in the text that resolveMention didn't know, in order of appearance. */
+  unresolved: string[];
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/;
+const INLINE =
+  /\\([\\`*_[\]()@])|`([^`\n]+)`|\[([^\]\n]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|__(.+?)__|(?<![\w@])@([A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)*)/g;
+const SAFE_URL = /^(https?:|mailto:)/i;
+/** Stand-in for a mention until the HTML is final and its index is known. */
+const SENTINEL = /\u0000(\d+)\u0000/g;
+
+export function markdownToHtml(markdown: string, opts: MarkdownOptions = {}): CommentHtml {
+  const mentions: Mention[] = [];
+  const unresolved: string[] = [];
+  const placeholder = (mention: Mention) => `\u0000${mentions.push(mention) - 1}\u0000`;
+
+  const inline = (text: string): string => {
+    let out = "";
+    let last = 0;
+    for (const m of text.matchAll(INLINE)) {
+      out += escapeHtml(text.slice(last, m.index));
+      last = m.index + m[0].length;
+      const [, escaped, code, linkText, url, bold1, bold2, name] = m;
+      if (escaped !== undefined) {
+        out += escapeHtml(escaped);
+      } else if (code !== undefined) {
+        out += `<code>${escapeHtml(code)}</code>`;
+      } else if (linkText !== undefined) {
+        out += SAFE_URL.test(url)
+          ? `<a href="${escapeHtml(url)}">${inline(linkText)}</a>`
+          : escapeHtml(m[0]);
+      } else if (bold1 !== undefined || bold2 !== undefined) {
+        out += `<strong>${inline(bold1 ?? bold2)}</strong>`;
+      } else {
+        const mention = opts.resolveMention?.(name);
+        if (mention) {
+          out += placeholder(mention);
+        } else {
+          if (opts.resolveMention && !unresolved.includes(name)) unresolved.push(name);
+          out += escapeHtml(m[0]);
+        }
+      }
+    }
+    return out + escapeHtml(text.slice(last));
+  };
+
+  const lines = markdown.replace(/\r\n?/g, "\n").replace(/\u0000/g, "").split("\n");
+  const blocks: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) code.push(lines[i]);
+      i++; // closing fence
+      blocks.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    const first = LIST_ITEM.exec(line);
+    if (first) {
+      const ordered = first[2] !== undefined;
+      const items: string[][] = [];
+      for (; i < lines.length && lines[i].trim(); i++) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item && (item[2] !== undefined) === ordered) items.push([item[3]]);
+        else if (item || FENCE.test(lines[i])) break;
+        else items[items.length - 1].push(lines[i].trim());
+      }
+      const lis = items.map((item) => `<li>${item.map(inline).join("<br>")}</li>`).join("");
+      const start = ordered && Number(first[2]) !== 1 ? ` start="${Number(first[2])}"` : "";
+      blocks.push(ordered ? `<ol${start}>${lis}</ol>` : `<ul>${lis}</ul>`);
+      continue;
+    }
+
+    const para: string[] = [];
+    for (; i < lines.length && lines[i].trim(); i++) {
+      if (para.length && (FENCE.test(lines[i]) || LIST_ITEM.test(lines[i]))) break;
+      para.push(lines[i].trim());
+    }
+    blocks.push(`<p>${para.map(inline).join("<br>")}</p>`);
+  }
+
+  if (opts.prefix?.length) {
+    const prefix = opts.prefix.map((m) => `${placeholder(m)} `).join("");
+    if (blocks[0]?.startsWith("<p>")) blocks[0] = `<p>${prefix}${blocks[0].slice(3)}`;
+    else blocks.unshift(`<p>${prefix.trimEnd()}</p>`);
+  }
+
+  // Swap the placeholders for `\uFEFF@Label\uFEFF`, recording each label's
+  // offset in the finished string — ITX highlights by index, not by search.
+  const raw = blocks.join("");
+  const tags: MentionTag[] = [];
+  let html = "";
+  let last = 0;
+  for (const m of raw.matchAll(SENTINEL)) {
+    const mention = mentions[Number(m[1])];
+    const label = escapeHtml(mention.label);
+    html += `${raw.slice(last, m.index)}\uFEFF`;
+    tags.push({ startIndex: html.length, length: label.length, type: "user", data: mention.data });
+    html += `${label}\uFEFF`;
+    last = m.index + m[0].length;
+  }
+  html += raw.slice(last);
+
+  return { html, tags, unresolved };
+}
@@ -1,4 +1,16 @@
 import chalk from "chalk";
+import type { Command } from "commander";
+import { COMMAND_FIELDS } from "./schemas.js";
+import { parseJq, runJq, type JqProgram } from "./jq.js";
+import { traceMeta } from "./trace.js";
+import {
+  ItxAmbiguousError,
+  ItxApiError,
+  ItxAuthError,
+  ItxNotFoundError,
+  ItxUsageError,
+  type AmbiguousCandidate,
+} from "./errors.js";
 
 /**
  * Exit codes — distinct values per failure mode so agents can branch on outcome
@@ -45,17 +57,35 @@ export interface JsonOk<T> {
   data: T;
   pagination?: Pagination;
   /**
-   * `truncated` is set to `true` when an underlying API page hit the 1000-row
-   * server cap and the result may be incomplete. Agents should treat
+   * `truncated` is set to `true` when an underlying scan stopped before the
+   * server ran out of rows and the result may be incomplete. Agents should treat
    * truncated results as suggestive rather than complete.
+   * `durationMs` and `requests` (HTTP attempts, retries included) are always set.
    */
-  meta?: { durationMs?: number; truncated?: boolean; warnings?: string[] };
+  meta?: { durationMs?: number; requests?: number; truncated?: boolean; warnings?: string[] };
+}
+
+/** Structured error fields beyond code/message, taken from the typed errors. */
+export interface ErrorDetails {
+  /** HTTP status from ITX, when the failure came from a response. */
+  status?: number;
+  /** The matches an AMBIGUOUS identifier could mean. */
+  candidates?: AmbiguousCandidate[];
+  /** Whether repeating the same call later may succeed (throttling, outages). */
+  retryable?: boolean;
 }
 
 export interface JsonErr {
   ok: false;
-  error: { code: ErrorCode; message: string; hint?: string };
-  meta?: { durationMs?: number };
+  error: {
+    code: ErrorCode;
+    message: string;
+    hint?: string;
+    status?: number;
+    candidates?: AmbiguousCandidate[];
+    retryable: boolean;
+  };
+  meta?: { durationMs?: number; requests?: number };
 }
 
 /**
@@ -74,11 +104,106 @@ export function printJsonOk<T>(
   data: T,
   opts: { pagination?: Pagination; meta?: JsonOk<T>["meta"] } = {},
 ): void {
-  const env: JsonOk<T> = { ok: true, data };
+  const env: JsonOk<unknown> = { ok: true, data: selectFields(data) };
   if (opts.pagination) env.pagination = opts.pagination;
-  if (opts.meta) env.meta = opts.meta;
+  env.meta = { ...traceMeta(), ...opts.meta };
   const indent = isStdoutTty() ? 2 : 0;
-  console.log(JSON.stringify(env, null, indent));
+  if (jsonOutput.jq === undefined) {
+    console.log(JSON.stringify(env, null, indent));
+    return;
+  }
+  let results: unknown[];
+  try {
+    results = runJq(jsonOutput.jq, env);
+  } catch (err) {
+    printError(err instanceof Error ? err.message : String(err));
+    exitWithError("USAGE");
+  }
+  // Like `gh --jq`, string results print raw so they can be piped as text.
+  for (const r of results) {
+    console.log(typeof r === "string" ? r : JSON.stringify(r ?? null, null, indent));
+  }
+}
+
+/**
+ * `--json <fields>` / `--jq <expr>` state for the running command, set by
+ * {@link applyJsonOutput} and consumed by printJsonOk. `jq` is parsed before
+ * the action runs, so a bad expression can't surface after a write.
+ */
+let jsonOutput: { fields?: string[]; jq?: JqProgram } = {};
+
+/** Keep only the selected top-level fields (per item for list payloads). */
+function selectFields<T>(data: T): unknown {
+  const fields = jsonOutput.fields;
+  if (!fields) return data;
+  const pick = (item: unknown) =>
+    item && typeof item === "object"
+      ? Object.fromEntries(
+          fields
+            .filter((f) => f in item)
+            .map((f) => [f, (item as Record<string, unknown>)[f]]),
+        )
+      : item;
+  return Array.isArray(data) ? data.map(pick) : pick(data);
+}
+
+/**
+ * Install the `--json [fields]` / `--jq <expr>` handling on a command group.
+ * Only subcommands listed in COMMAND_FIELDS are affected.
+ */
+export function enableJsonOutput(group: Command): Command {
+  return group
+    .hook("preAction", applyJsonOutput)
+    .hook("postAction", () => {
+      jsonOutput = {};
+    });
+}
+
+/**
+ * preAction hook for command groups whose subcommands take gh-style
+ * `--json [fields]` and `--jq <expr>`:
+ *
+ * - bare `--json` lists the command's fields from COMMAND_FIELDS and exits
+ *   with USAGE, as gh does — the action never runs, so a write command can't
+ *   be skipped while reporting success;
+ * - `--json a,b` projects `data` to those fields (unknown names are a usage error);
+ * - `--jq` implies `--json` and filters the envelope in-process.
+ *
+ * `--json` is normalised back to `true` so actions keep treating it as a flag.
+ */
+function applyJsonOutput(_group: Command, action: Command): void {
+  jsonOutput = {};
+  const opts = action.opts() as { json?: boolean | string; jq?: string; raw?: boolean };
+  const fields = COMMAND_FIELDS[`${action.parent?.name()} ${action.name()}`];
+  if (!fields) return;
+
+  const usage = (message: string, hint?: string): never => {
+    printJsonError("USAGE", message, hint);
+    exitWithError("USAGE");
+  };
+
+  let jq: JqProgram | undefined;
+  if (opts.jq !== undefined) {
+    try {
+      jq = parseJq(opts.jq);
+    } catch (err) {
+      usage(err instanceof Error ? err.message : String(err));
+    }
+  }
+  if (opts.json === true && opts.jq === undefined && !opts.raw) {
+    printJsonFields(fields);
+    exitWithError("USAGE");
+  }
+  let selected: string[] | undefined;
+  if (typeof opts.json === "string" && !opts.raw) {
+    selected = opts.json.split(",").map((f) => f.trim()).filter(Boolean);
+    const unknown = selected.filter((f) => !fields.includes(f));
+    if (unknown.length) {
+      usage(`Unknown JSON field: ${unknown.join(", ")}`, `Available fields: ${fields.join(", ")}`);
+    }
+  }
+  if (opts.json !== undefined || opts.jq !== undefined) action.setOptionValue("json", true);
+  jsonOutput = { fields: selected, jq };
 }
 
 /** Print an error envelope on stdout (so an agent that pipes can still parse it). */
@@ -86,10 +211,19 @@ export function printJsonError(
   code: ErrorCode,
   message: string,
   hint?: string,
+  details: ErrorDetails = {},
 ): void {
   const env: JsonErr = {
     ok: false,
-    error: { code, message, ...(hint ? { hint } : {}) },
+    error: {
+      code,
+      message,
+      ...(hint ? { hint } : {}),
+      ...(details.status !== undefined ? { status: details.status } : {}),
+      ...(details.candidates ? { candidates: details.candidates } : {}),
+      retryable: details.retryable ?? false,
+    },
+    meta: traceMeta(),
   };
   const indent = isStdoutTty() ? 2 : 0;
   console.log(JSON.stringify(env, null, indent));
@@ -122,9 +256,9 @@ export function handleError(
   opts: { json?: boolean; code?: ErrorCode; hint?: string } = {},
 ): never {
   const message = err instanceof Error ? err.message : String(err);
-  const code = opts.code ?? inferErrorCode(message);
+  const code = opts.code ?? errorCodeOf(err);
   if (opts.json) {
-    printJsonError(code, message, opts.hint);
+    printJsonError(code, message, opts.hint, errorDetailsOf(err));
   } else {
     printError(message);
     if (opts.hint) console.error(opts.hint);
@@ -132,8 +266,29 @@ export function handleError(
   exitWithError(code);
 }
 
+/** Exit-code category of an error — by class for typed errors, else by message. */
+export function errorCodeOf(err: unknown): ErrorCode {
+  if (err instanceof ItxAuthError) return "AUTH";
+  if (err instanceof ItxNotFoundError) return "NOT_FOUND";
+  if (err instanceof ItxAmbiguousError) return "AMBIGUOUS";
+  if (err instanceof ItxUsageError) return "USAGE";
+  if (err instanceof ItxApiError) return "API";
+  return inferErrorCode(err instanceof Error ? err.message : String(err));
+}
+
+/** Envelope fields carried by the typed errors. */
+function errorDetailsOf(err: unknown): ErrorDetails {
+  if (err instanceof ItxApiError) {
+    return { ...(err.status !== null ? { status: err.status } : {}), retryable: err.retryable };
+  }
+  if (err instanceof ItxAuthError && err.status !== null) return { status: err.status };
+  if (err instanceof ItxAmbiguousError) return { candidates: err.candidates };
+  return {};
+}
+
 /**
- * Infer an error code from an Error message.
+ * Infer an error code from an Error message — the fallback for plain
+ * `Error`s; typed errors are classified by {@link errorCodeOf}.
  *
  * Order matters: check unambiguous prefixes (`api error`) before substring
  * matches (`not found`) so backend errors that happen to contain "not found"
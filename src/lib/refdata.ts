@@ -1,15 +1,29 @@
 import type { ItxClient } from "./client.js";
 import { htmlToText } from "./activities.js";
+import { getCacheEntry, setCacheEntry, clearCacheEntries } from "./config.js";
+import { fixtureMode } from "./fixtures.js";
+import type { RefdataCategoryNode } from "./schemas.js";
+import { ItxAmbiguousError, ItxNotFoundError } from "./errors.js";
 
 /**
  * Reference-data cache for statuses, priorities, and categories.
  *
- * Memoized per-process — these are stable enums on the ITX side that change
- * rarely. A persistent on-disk cache would amortize across invocations but
- * adds schema complexity to `conf`; punt until profiling justifies it.
+ * Two layers: a per-process memo, and an on-disk cache (see `setCacheEntry`)
+ * holding each raw endpoint payload keyed by `ItxClient.cacheScope()` + path,
+ * so one tenant's ids are never served to another profile, and scripts that
+ * call the CLI hundreds of times don't re-fetch three endpoints per run.
+ * Entries expire after `ITX_REFDATA_TTL` seconds (default 24h; 0 disables).
  */
 
-interface NameField {
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+const REFDATA_ENDPOINTS = {
+  statuses: { path: "/rest/itxems/statuses", params: { type: 35013 } },
+  priorities: { path: "/rest/itxems/priorities", params: undefined },
+  categories: { path: "/rest/itxems/categories", params: undefined },
+} as const;
+
+export interface NameField {
   defaultText?: string;
   translations?: Record<string, { translatedText?: string }>;
 }
@@ -41,12 +55,39 @@ export interface RefData {
 
 let cached: Promise<RefData> | null = null;
 
+/** Drop both the in-process memo and every on-disk cache entry. */
 export function clearRefdataCache(): void {
   cached = null;
+  clearCacheEntries();
+}
+
+function ttlMs(): number {
+  const raw = process.env.ITX_REFDATA_TTL;
+  const seconds = raw !== undefined && raw !== "" ? Number(raw) : DEFAULT_TTL_SECONDS;
+  return Number.isFinite(seconds) ? Math.max(seconds, 0) * 1000 : DEFAULT_TTL_SECONDS * 1000;
+}
+
+/** Fetch one refdata endpoint, serving from the on-disk cache while fresh. */
+async function fetchCached(
+  client: ItxClient,
+  kind: keyof typeof REFDATA_ENDPOINTS,
+  refresh: boolean,
+): Promise<Record<string, unknown>[]> {
+  const { path, params } = REFDATA_ENDPOINTS[kind];
+  const key = `${client.cacheScope()}${path}`;
+  // Recordings must contain the refdata calls and replays must make them,
+  // whatever the local cache holds.
+  if (!refresh && !fixtureMode()) {
+    const hit = getCacheEntry<Record<string, unknown>[]>(key);
+    if (hit && Date.now() - hit.fetchedAt < ttlMs()) return hit.data;
+  }
+  const data = await client.request<Record<string, unknown>[]>(path, { params });
+  setCacheEntry(key, data ?? []);
+  return data ?? [];
 }
 
 /** Resolve a translated name field to a string, preferring English. */
-function translate(name: NameField | undefined): string {
+export function translateName(name: NameField | undefined): string {
   if (!name) return "";
   const en = name.translations?.en?.translatedText;
   if (en) return htmlToText(en);
@@ -54,40 +95,63 @@ function translate(name: NameField | undefined): string {
   return "";
 }
 
-export async function loadRefdata(client: ItxClient): Promise<RefData> {
-  if (cached) return cached;
+/**
+ * Load statuses, priorities and categories. `refresh` bypasses both cache
+ * layers and rewrites the on-disk entries.
+ */
+export async function loadRefdata(
+  client: ItxClient,
+  opts: { refresh?: boolean } = {},
+): Promise<RefData> {
+  const refresh = opts.refresh ?? false;
+  if (cached && !refresh) return cached;
   cached = (async () => {
     const [statusesRaw, prioritiesRaw, categoriesRaw] = await Promise.all([
-      client.request<Record<string, unknown>[]>(
-        "/rest/itxems/statuses",
-        { params: { type: 35013 } },
-      ),
-      client.request<Record<string, unknown>[]>("/rest/itxems/priorities"),
-      client.request<Record<string, unknown>[]>("/rest/itxems/categories"),
+      fetchCached(client, "statuses", refresh),
+      fetchCached(client, "priorities", refresh),
+      fetchCached(client, "categories", refresh),
     ]);
 
     const statuses: StatusRef[] = (statusesRaw ?? []).map((s) => ({
       emstId: s.emstId as number,
       internalStatus: (s.internalStatus as number) ?? 0,
       sort: (s.sort as number) ?? 0,
-      name: translate(s.name as NameField | undefined),
+      name: translateName(s.name as NameField | undefined),
     }));
     const priorities: PriorityRef[] = (prioritiesRaw ?? []).map((p) => ({
       empriId: p.empriId as number,
       sort: (p.sort as number) ?? 0,
-      name: translate(p.name as NameField | undefined),
+      name: translateName(p.name as NameField | undefined),
     }));
     const categories: CategoryRef[] = (categoriesRaw ?? []).map((c) => ({
       emcaId: c.emcaId as number,
-      name: translate(c.name as NameField | undefined),
+      name: translateName(c.name as NameField | undefined),
       parent: ((c.parent as { emcaId?: number } | undefined)?.emcaId) ?? null,
     }));
 
     return { statuses, priorities, categories };
   })();
+  // Don't memoize a failed load — the next caller should retry.
+  cached.catch(() => {
+    cached = null;
+  });
   return cached;
 }
 
+/**
+ * emstIds that count as "open": ITX `internalStatus` 1 (open), 7 (in-progress
+ * family) and 8 (awaiting/follow-up family). Anything else is closed.
+ */
+export function openStatusIds(
+  statuses: { emstId: number; internalStatus: number }[],
+): Set<number> {
+  return new Set(
+    statuses
+      .filter((s) => s.internalStatus === 1 || s.internalStatus === 7 || s.internalStatus === 8)
+      .map((s) => s.emstId),
+  );
+}
+
 /** Build a lookup map keyed by id, with name as the value. */
 export function buildLookup<T extends { name: string }>(
   list: T[],
@@ -97,3 +161,70 @@ export function buildLookup<T extends { name: string }>(
   for (const item of list) m.set(keyFn(item), item.name);
   return m;
 }
+
+/**
+ * Arrange categories into their parent tree. Categories whose parent is
+ * missing from the list are treated as roots; siblings are sorted by name.
+ */
+export function buildCategoryTree(
+  categories: { emcaId: number; name: string; parent?: number | null }[],
+): RefdataCategoryNode[] {
+  const nodes = new Map<number, RefdataCategoryNode>();
+  for (const c of categories) nodes.set(c.emcaId, { emcaId: c.emcaId, name: c.name, children: [] });
+
+  const roots: RefdataCategoryNode[] = [];
+  for (const c of categories) {
+    const node = nodes.get(c.emcaId)!;
+    const parent = c.parent != null && c.parent !== c.emcaId ? nodes.get(c.parent) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  const sortRec = (list: RefdataCategoryNode[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    for (const n of list) sortRec(n.children);
+  };
+  sortRec(roots);
+  return roots;
+}
+
+/**
+ * Resolve a user-supplied reference — numeric id, case-insensitive exact
+ * name, or unique name prefix — to a single refdata entry.
+ *
+ * Throws ItxNotFoundError / ItxAmbiguousError (with the matching entries as
+ * candidates) so `handleError` maps the failure to NOT_FOUND / AMBIGUOUS.
+ */
+export function resolveRef<T extends { name: string }>(
+  list: T[],
+  input: string,
+  idOf: (item: T) => number,
+  label: string,
+): T {
+  const trimmed = input.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const byId = list.find((item) => idOf(item) === Number(trimmed));
+    if (byId) return byId;
+  }
+
+  const lower = trimmed.toLowerCase();
+  const exact = list.filter((item) => item.name.toLowerCase() === lower);
+  const matches =
+    exact.length > 0
+      ? exact
+      : list.filter((item) => item.name.toLowerCase().startsWith(lower));
+
+  if (matches.length === 1) return matches[0];
+  if (matches.length === 0) {
+    throw new ItxNotFoundError(
+      `Not found: ${label} "${input}". Run "itx refdata list" to see valid values.`,
+    );
+  }
+  const candidates = matches.map((m) => ({ id: idOf(m), name: m.name }));
+  throw new ItxAmbiguousError(
+    `Ambiguous: ${matches.length} ${label}s match "${input}": ${candidates
+      .map((c) => `${c.name} (${c.id})`)
+      .join(", ")}`,
+    candidates,
+  );
+}
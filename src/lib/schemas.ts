@@ -5,8 +5,8 @@
  * file as the public contract — agents and downstream tools rely on these
  * names. Bump the package major version on any breaking change.
  *
- * The runtime `itx schema <command>` command reads these definitions to
- * produce machine-readable JSON Schema for LLM consumption.
+ * `itx schema <command>` serves the JSON Schema mirror of these types from
+ * `jsonschema.ts` — keep the two in step.
  */
 
 /** Customer/prospect classification — matches ITX entityType + extType. */
@@ -48,17 +48,57 @@ export interface CustomerSearchResult {
 
 // ---------- customer view ----------
 
+export interface LinkedContact {
+  emenId: number;
+  eeexId: number;
+  name1: string | null;
+  name2: string | null;
+  emails: string[];
+  numbers: string[];
+}
+
 export interface CustomerView {
   identity: EntityIdentity;
   contact: ContactInfo;
-  linkedContacts?: {
-    emenId: number;
-    eeexId: number;
-    name1: string | null;
-    name2: string | null;
-    emails: string[];
-    numbers: string[];
-  }[];
+  linkedContacts?: LinkedContact[];
+}
+
+// ---------- customer update ----------
+
+export interface EntityFieldChange {
+  field: "name1" | "name2" | "emails" | "numbers" | "addresses";
+  before: string | null;
+  after: string | null;
+}
+
+export interface CustomerUpdateResult {
+  identity: EntityIdentity;
+  /** Only fields whose value actually changed. */
+  changes: EntityFieldChange[];
+  /** True when `--dry-run` skipped the PUT. */
+  dryRun: boolean;
+}
+
+// ---------- prospect convert ----------
+
+export interface ProspectConvertResult {
+  /** The customer extension the prospect became (role "customer"). */
+  identity: EntityIdentity;
+  /** The prospect extension it was converted from. */
+  prospect: EntityIdentity;
+  prospectDeactivated: boolean;
+  /** Contact links copied onto the customer extension. */
+  contactLinks: number;
+}
+
+// ---------- customer contacts ----------
+
+export interface CustomerContactsResult {
+  identity: EntityIdentity;
+  linkedContacts: (LinkedContact & {
+    role: string | null;
+    openTickets: number;
+  })[];
 }
 
 // ---------- customer tickets ----------
@@ -85,6 +125,48 @@ export interface CustomerTicketsResult {
   };
 }
 
+// ---------- ticket view / ticket list ----------
+
+export type TicketMemberRole = "assignee" | "follower" | "contact" | "other";
+
+export interface TicketMember {
+  role: TicketMemberRole;
+  roleId: number;
+  userId: number | null;  // internal users only
+  name: string;
+  external: boolean;
+}
+
+export interface TicketView {
+  seqNo: number;
+  eactId: number;
+  subject: string;
+  status: { id: number | null; name: string };
+  priority: { id: number | null; name: string };
+  category: { id: number | null; name: string };
+  assignedUser: { userId: number; name: string } | null;
+  members: TicketMember[];
+  /** Customer/prospect linked through a member's entity extension. */
+  customer: Pick<EntityIdentity, "emenId" | "eeexId" | "seqNo" | "name1" | "name2" | "role"> | null;
+  creationTs: string;
+  updateTs: string;
+}
+
+// ---------- ticket update ----------
+
+export interface TicketFieldChange {
+  field: "subject" | "status" | "priority" | "category" | "assignee" | "followers";
+  before: string | null;
+  after: string | null;
+}
+
+export interface TicketUpdateResult {
+  seqNo: number;
+  eactId: number;
+  /** Only fields whose value actually changed. */
+  changes: TicketFieldChange[];
+}
+
 // ---------- ticket activities ----------
 
 export interface TicketComment {
@@ -99,6 +181,46 @@ export interface TicketActivitiesResult {
   comments: TicketComment[];
 }
 
+// ---------- ticket reply ----------
+
+export interface TicketReplyResult {
+  ticket: { seqNo: number; eactId: number };
+  /** The sent email activity; null on a dry run. */
+  eactId: number | null;
+  /** Conversation the email was threaded into; null when it was linked to the case directly. */
+  conversationId: number | null;
+  /** The email quoted in the reply, if any. */
+  inReplyTo: number | null;
+  subject: string;
+  to: string[];
+  cc: string[];
+  /** File names of the attachments. */
+  attachments: string[];
+  dryRun: boolean;
+}
+
+// ---------- ticket attachments ----------
+
+export interface TicketAttachment {
+  cfreId: number;
+  name: string;
+  size: number | null;
+  contentType: string | null;
+  /** A file attached to an email or the case, or a call recording. */
+  kind: "attachment" | "recording";
+  /** Activity the file belongs to — the case's own eactId for files attached to the ticket. */
+  eactId: number;
+  activityKind: ActivityKind;
+  ts: string;
+  /** Where `--download` saved the file. */
+  path?: string;
+}
+
+export interface TicketAttachmentsResult {
+  ticket: { seqNo: number; eactId: number };
+  attachments: TicketAttachment[];
+}
+
 // ---------- customer activities ----------
 
 export type ActivityKind =
@@ -184,14 +306,84 @@ export interface CustomerSummary {
   };
 }
 
+// ---------- refdata ----------
+
+export interface RefdataCategoryNode {
+  emcaId: number;
+  name: string;
+  children: RefdataCategoryNode[];
+}
+
+export interface RefdataListResult {
+  statuses: { emstId: number; internalStatus: number; sort: number; name: string }[];
+  priorities: { empriId: number; sort: number; name: string }[];
+  categories: { emcaId: number; name: string; parent: number | null }[];
+  categoryTree: RefdataCategoryNode[];
+}
+
 /**
  * Top-level field names per command — used by the gh-style "--json with no
  * value" introspection helper.
  */
 export const COMMAND_FIELDS: Record<string, string[]> = {
+  "ticket list": [
+    "seqNo",
+    "eactId",
+    "subject",
+    "status",
+    "priority",
+    "category",
+    "assignedUser",
+    "members",
+    "customer",
+    "creationTs",
+    "updateTs",
+  ],
+  "ticket view": [
+    "seqNo",
+    "eactId",
+    "subject",
+    "status",
+    "priority",
+    "category",
+    "assignedUser",
+    "members",
+    "customer",
+    "creationTs",
+    "updateTs",
+  ],
+  "ticket create": [
+    "seqNo",
+    "eactId",
+    "subject",
+    "status",
+    "priority",
+    "category",
+    "assignedUser",
+    "members",
+    "customer",
+    "creationTs",
+    "updateTs",
+  ],
+  "ticket update": ["seqNo", "eactId", "changes"],
   "ticket activities": ["ticket", "activities", "comments"],
+  "ticket reply": [
+    "ticket",
+    "eactId",
+    "conversationId",
+    "inReplyTo",
+    "subject",
+    "to",
+    "cc",
+    "attachments",
+    "dryRun",
+  ],
+  "ticket attachments": ["ticket", "attachments"],
+  "ticket attach": ["ticket", "attachments"],
   "customer search": ["identity", "matchedOn"],
   "customer view": ["identity", "contact", "linkedContacts"],
+  "customer create": ["identity", "contact", "linkedContacts"],
+  "customer update": ["identity", "changes", "dryRun"],
   "customer tickets": ["identity", "tickets", "counts"],
   "customer activities": ["identity", "activities", "counts"],
   "customer summary": [
@@ -207,8 +399,12 @@ export const COMMAND_FIELDS: Record<string, string[]> = {
   "customer contacts": ["identity", "linkedContacts"],
   "prospect search": ["identity", "matchedOn"],
   "prospect view": ["identity", "contact", "linkedContacts"],
+  "prospect create": ["identity", "contact", "linkedContacts"],
+  "prospect update": ["identity", "changes", "dryRun"],
+  "prospect convert": ["identity", "prospect", "prospectDeactivated", "contactLinks"],
   "prospect tickets": ["identity", "tickets", "counts"],
   "prospect activities": ["identity", "activities", "counts"],
+  "prospect contacts": ["identity", "linkedContacts"],
   "prospect summary": [
     "identity",
     "depth",
@@ -219,4 +415,6 @@ export const COMMAND_FIELDS: Record<string, string[]> = {
     "pipeline",
     "health",
   ],
+  "refdata list": ["statuses", "priorities", "categories", "categoryTree"],
+  "refdata refresh": ["statuses", "priorities", "categories", "categoryTree"],
 };
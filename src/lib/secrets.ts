@@ -0,0 +1,219 @@
+/**
+ * Where credentials live when they're not in config.json.
+ *
+ * Backends are synchronous because `getConfig()` is — every command reads
+ * credentials before doing anything async. Keys are `<profile>/<field>`.
+ *
+ *  - `plain`     — the legacy behaviour: tokens stay in the profile in config.json.
+ *  - `file`      — AES-256-GCM entries in secrets.json, key derived with scrypt
+ *                  from ITX_SECRET_PASSPHRASE. Works on headless Linux/CI.
+ *  - `libsecret` — the desktop keyring via `secret-tool` (GNOME Keyring,
+ *                  KWallet's Secret Service bridge, ...).
+ */
+import { spawnSync } from "node:child_process";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { ItxAuthError } from "./errors.js";
+
+export type SecretStoreName = "plain" | "file" | "libsecret";
+
+export const SECRET_STORE_NAMES: SecretStoreName[] = ["plain", "file", "libsecret"];
+
+/** Profile fields that never belong in plaintext config once migrated. */
+export const SECRET_FIELDS = ["tokenv2", "rcntrl", "ccntrl"] as const;
+export type SecretField = (typeof SECRET_FIELDS)[number];
+
+export interface SecretStore {
+  readonly name: Exclude<SecretStoreName, "plain">;
+  /** Human-readable location for `config show`. */
+  readonly location: string;
+  /** Cheap existence check — never needs the passphrase. */
+  has(key: string): boolean;
+  get(key: string): string | undefined;
+  set(key: string, value: string): void;
+  delete(key: string): void;
+  /** Remove every entry this store holds. */
+  clear(): void;
+}
+
+export const PASSPHRASE_ENV = "ITX_SECRET_PASSPHRASE";
+
+// ---------- encrypted file ----------
+
+interface SecretFile {
+  version: 1;
+  kdf: { name: "scrypt"; salt: string; N: number; r: number; p: number };
+  /** `<iv>.<tag>.<ciphertext>`, base64 parts, AES-256-GCM. */
+  entries: Record<string, string>;
+  /**
+   * {@link VERIFIER} encrypted like an entry, so a wrong passphrase is caught
+   * before it writes an entry nothing else in the file can be read with.
+   * Missing in files written before it existed.
+   */
+  check?: string;
+}
+
+const VERIFIER = "itx-cli";
+
+// 2^14 keeps scrypt inside Node's default 32 MiB maxmem.
+const SCRYPT = { N: 16384, r: 8, p: 1 };
+
+class EncryptedFileStore implements SecretStore {
+  readonly name = "file" as const;
+  readonly location: string;
+  private key?: { for: string; value: Buffer };
+
+  constructor(dir: string) {
+    this.location = join(dir, "secrets.json");
+  }
+
+  private read(): SecretFile | undefined {
+    if (!existsSync(this.location)) return undefined;
+    return JSON.parse(readFileSync(this.location, "utf8")) as SecretFile;
+  }
+
+  private write(file: SecretFile): void {
+    writeFileSync(this.location, JSON.stringify(file, null, "\t"), { mode: 0o600 });
+  }
+
+  /** Derive the key for `file`'s salt — scrypt is slow, so memoise it. */
+  private deriveKey(file: SecretFile): Buffer {
+    const passphrase = process.env[PASSPHRASE_ENV];
+    if (!passphrase) {
+      throw new ItxAuthError(
+        `Not authenticated: credentials are encrypted. Set ${PASSPHRASE_ENV} to unlock them.`,
+      );
+    }
+    const { salt, N, r, p } = file.kdf;
+    const id = `${salt}:${passphrase}`;
+    if (this.key?.for !== id) {
+      this.key = { for: id, value: scryptSync(passphrase, Buffer.from(salt, "base64"), 32, { N, r, p }) };
+    }
+    return this.key.value;
+  }
+
+  /**
+   * The file to add an entry to, with the passphrase proven against what is
+   * already there. A file with no entries is re-keyed instead — there is
+   * nothing the new passphrase would lock out.
+   */
+  private readForWrite(): SecretFile {
+    const file = this.read();
+    if (file && Object.keys(file.entries).length) {
+      this.decrypt(file, file.check ?? Object.values(file.entries)[0]);
+      file.check ??= this.encrypt(file, VERIFIER);
+      return file;
+    }
+    const fresh: SecretFile = {
+      version: 1,
+      kdf: { name: "scrypt", salt: randomBytes(16).toString("base64"), ...SCRYPT },
+      entries: {},
+    };
+    fresh.check = this.encrypt(fresh, VERIFIER);
+    return fresh;
+  }
+
+  private encrypt(file: SecretFile, value: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.deriveKey(file), iv);
+    const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+    return [iv, cipher.getAuthTag(), data].map((b) => b.toString("base64")).join(".");
+  }
+
+  private decrypt(file: SecretFile, entry: string): string {
+    const [iv, tag, data] = entry.split(".").map((part) => Buffer.from(part, "base64"));
+    try {
+      const decipher = createDecipheriv("aes-256-gcm", this.deriveKey(file), iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+    } catch (err) {
+      if (err instanceof ItxAuthError) throw err;
+      throw new ItxAuthError(
+        `Not authenticated: could not decrypt ${this.location} — wrong ${PASSPHRASE_ENV}?`,
+      );
+    }
+  }
+
+  has(key: string): boolean {
+    return key in (this.read()?.entries ?? {});
+  }
+
+  get(key: string): string | undefined {
+    const file = this.read();
+    const entry = file?.entries[key];
+    if (!file || entry === undefined) return undefined;
+    return this.decrypt(file, entry);
+  }
+
+  set(key: string, value: string): void {
+    const file = this.readForWrite();
+    file.entries[key] = this.encrypt(file, value);
+    this.write(file);
+  }
+
+  delete(key: string): void {
+    const file = this.read();
+    if (!file || !(key in file.entries)) return;
+    delete file.entries[key];
+    this.write(file);
+  }
+
+  clear(): void {
+    rmSync(this.location, { force: true });
+  }
+}
+
+// ---------- libsecret (secret-tool) ----------
+
+const SECRET_SERVICE = "itx-cli";
+
+function secretTool(args: string[], input?: string) {
+  return spawnSync("secret-tool", args, { encoding: "utf8", input });
+}
+
+/** True when `secret-tool` is on PATH (it exits non-zero for `--version`, which is fine). */
+export function isLibsecretAvailable(): boolean {
+  return !secretTool(["--version"]).error;
+}
+
+class LibsecretStore implements SecretStore {
+  readonly name = "libsecret" as const;
+  readonly location = `Secret Service (service=${SECRET_SERVICE})`;
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  get(key: string): string | undefined {
+    const res = secretTool(["lookup", "service", SECRET_SERVICE, "account", key]);
+    if (res.error) throw new Error(`secret-tool unavailable: ${res.error.message}`);
+    // lookup exits 1 with no output when nothing matches
+    return res.status === 0 ? res.stdout.replace(/\n$/, "") : undefined;
+  }
+
+  set(key: string, value: string): void {
+    const res = secretTool(
+      ["store", `--label=itx-cli ${key}`, "service", SECRET_SERVICE, "account", key],
+      value,
+    );
+    if (res.error || res.status !== 0) {
+      throw new Error(`secret-tool store failed: ${res.error?.message ?? res.stderr.trim()}`);
+    }
+  }
+
+  delete(key: string): void {
+    secretTool(["clear", "service", SECRET_SERVICE, "account", key]);
+  }
+
+  clear(): void {
+    secretTool(["clear", "service", SECRET_SERVICE]);
+  }
+}
+
+/** Backend instance for a store name; undefined for `plain`. */
+export function createSecretStore(name: SecretStoreName, configDir: string): SecretStore | undefined {
+  if (name === "file") return new EncryptedFileStore(configDir);
+  if (name === "libsecret") return new LibsecretStore();
+  return undefined;
+}
@@ -0,0 +1,6 @@
+/** Read all of stdin as UTF-8 text (piped keys, comment bodies). */
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
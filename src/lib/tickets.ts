@@ -0,0 +1,278 @@
+import { ROLES, activityKind } from "./activities.js";
+import { EXT_TYPE_TO_ROLE } from "./entity.js";
+import { translateName, type NameField } from "./refdata.js";
+import type { TicketTemplate } from "./config.js";
+import type {
+  TicketAttachment,
+  TicketMember,
+  TicketMemberRole,
+  TicketSummary,
+  TicketView,
+} from "./schemas.js";
+
+/** Safety cap on client-side filtered case scans (see `ticket list`). */
+export const MAX_CASE_SCAN_ROWS = 50_000;
+
+const MEMBER_ROLES: Record<number, TicketMemberRole> = {
+  [ROLES.ASSIGNED_USER]: "assignee",
+  [ROLES.CASE_FOLLOWER]: "follower",
+  [ROLES.CONTACT_PERSON]: "contact",
+};
+
+/**
+ * Resolve a status/priority/category reference to `{ id, name }`. The refdata
+ * map wins; the name embedded in the payload (present on single-case GETs)
+ * is the fallback.
+ */
+function refField(
+  ref: Record<string, unknown> | undefined,
+  idKey: string,
+  map: Map<number, string>,
+): { id: number | null; name: string } {
+  const id = (ref?.[idKey] as number | undefined) ?? null;
+  const name =
+    (id !== null ? map.get(id) : undefined) ||
+    translateName(ref?.name as NameField | undefined);
+  return { id, name };
+}
+
+/**
+ * Project a raw case payload into the stable TicketSummary shape.
+ * `assignedUser` is only set when the payload carries members
+ * (cases fetched with `getMembers: true`).
+ */
+export function projectTicket(
+  raw: Record<string, unknown>,
+  statusMap: Map<number, string>,
+  priorityMap: Map<number, string>,
+  categoryMap: Map<number, string>,
+): TicketSummary {
+  const summary: TicketSummary = {
+    seqNo: (raw.seqNo as number) ?? 0,
+    eactId: (raw.eactId as number) ?? 0,
+    subject: (raw.description as string) ?? "",
+    status: refField(raw.emsStatus as Record<string, unknown>, "emstId", statusMap),
+    priority: refField(raw.priority as Record<string, unknown>, "empriId", priorityMap),
+    category: refField(raw.category as Record<string, unknown>, "emcaId", categoryMap),
+    creationTs: (raw.creationTs as string) ?? "",
+    updateTs: (raw.updateTs as string) ?? "",
+  };
+  const assigned = assignedUserOf(raw);
+  if (assigned) summary.assignedUser = assigned;
+  return summary;
+}
+
+/**
+ * Project a raw case payload into the stable TicketView shape used by
+ * `ticket view` and `ticket list`. Maps default to empty so a single-case
+ * GET can rely on the names ITX embeds in the payload.
+ */
+export function projectTicketView(
+  raw: Record<string, unknown>,
+  statusMap: Map<number, string> = new Map(),
+  priorityMap: Map<number, string> = new Map(),
+  categoryMap: Map<number, string> = new Map(),
+): TicketView {
+  const { assignedUser, ...summary } = projectTicket(raw, statusMap, priorityMap, categoryMap);
+  const members = (raw.members as Record<string, unknown>[] | undefined) ?? [];
+  return {
+    ...summary,
+    assignedUser: assignedUser ?? null,
+    members: members.map(projectMember),
+    customer: linkedCustomerOf(members),
+  };
+}
+
+function projectMember(member: Record<string, unknown>): TicketMember {
+  const roleId = (member.role as number) ?? 0;
+  return {
+    role: MEMBER_ROLES[roleId] ?? "other",
+    roleId,
+    userId: (member.user as { userId?: number } | undefined)?.userId ?? null,
+    name: memberName(member),
+    external: Boolean(member.anon),
+  };
+}
+
+/** First member whose entity extension is a customer or prospect. */
+function linkedCustomerOf(members: Record<string, unknown>[]): TicketView["customer"] {
+  for (const m of members) {
+    const ext = m.entityExtension as
+      | {
+          eeexId?: number;
+          seqNo?: number;
+          extType?: number;
+          entity?: { emenId?: number; name1?: string; name2?: string };
+        }
+      | undefined;
+    const role = EXT_TYPE_TO_ROLE[ext?.extType ?? 0];
+    if (!ext || !role) continue;
+    return {
+      emenId: ext.entity?.emenId ?? 0,
+      eeexId: ext.eeexId ?? 0,
+      seqNo: ext.seqNo ?? 0,
+      name1: ext.entity?.name1 ?? "",
+      name2: ext.entity?.name2 ?? null,
+      role,
+    };
+  }
+  return null;
+}
+
+/** Build a display name from a member's user or entity. */
+export function memberName(member: Record<string, unknown>): string {
+  const user = member.user as
+    | { firstName?: string; lastName?: string }
+    | undefined;
+  if (user?.firstName || user?.lastName) {
+    return [user.firstName, user.lastName].filter(Boolean).join(" ");
+  }
+  const ext = member.entityExtension as
+    | { entity?: { name1?: string; name2?: string } }
+    | undefined;
+  if (ext?.entity?.name1 || ext?.entity?.name2) {
+    return [ext.entity.name1, ext.entity.name2].filter(Boolean).join(" ");
+  }
+  return (member.name as string) ?? "(unknown)";
+}
+
+/** The assigned user on a case, if any. */
+export function assignedUserOf(
+  raw: Record<string, unknown>,
+): { userId: number; name: string } | undefined {
+  const members = (raw.members as Record<string, unknown>[] | undefined) ?? [];
+  const member = members.find((m) => m.role === ROLES.ASSIGNED_USER);
+  const user = member?.user as
+    | { userId?: number; firstName?: string; lastName?: string }
+    | undefined;
+  if (!user?.userId) return undefined;
+  return {
+    userId: user.userId,
+    name: [user.firstName, user.lastName].filter(Boolean).join(" "),
+  };
+}
+
+export type TicketSortKey = "updated" | "created" | "priority" | "seqNo";
+
+export const TICKET_SORT_KEYS: TicketSortKey[] = ["updated", "created", "priority", "seqNo"];
+
+/**
+ * Sort tickets in place. `priorityRank` maps empriId → ITX `sort` value so
+ * "priority" follows the tenant's own ordering rather than the name.
+ */
+export function sortTickets<T extends Pick<TicketView, "seqNo" | "priority" | "creationTs" | "updateTs">>(
+  tickets: T[],
+  key: TicketSortKey,
+  direction: "asc" | "desc",
+  priorityRank: Map<number, number> = new Map(),
+): T[] {
+  const value = (t: T): number => {
+    switch (key) {
+      case "updated": return new Date(t.updateTs || 0).getTime();
+      case "created": return new Date(t.creationTs || 0).getTime();
+      case "priority": return priorityRank.get(t.priority.id ?? 0) ?? Number.MAX_SAFE_INTEGER;
+      case "seqNo": return t.seqNo;
+    }
+  };
+  const sign = direction === "asc" ? 1 : -1;
+  return tickets.sort((a, b) => sign * (value(a) - value(b)));
+}
+
+// ---------- templates ----------
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_-]+)\s*\}\}/g;
+
+/** Every string in a template, follower lists included. */
+function templateStrings(template: TicketTemplate): string[] {
+  return Object.values(template).flatMap((v) => (Array.isArray(v) ? v : typeof v === "string" ? [v] : []));
+}
+
+/** Names of the `{{var}}` placeholders a template uses, in first-use order. */
+export function templateVars(template: TicketTemplate): string[] {
+  const names = templateStrings(template).flatMap((text) => [...text.matchAll(PLACEHOLDER)].map((m) => m[1]));
+  return [...new Set(names)];
+}
+
+/**
+ * Fill a template's `{{var}}` placeholders from `vars`. Throws naming every
+ * variable left without a value, so one retry fixes them all.
+ */
+export function expandTemplate(
+  template: TicketTemplate,
+  vars: Record<string, string>,
+): TicketTemplate {
+  const missing = templateVars(template).filter((name) => !Object.hasOwn(vars, name));
+  if (missing.length) {
+    throw new Error(`Missing template variable${missing.length === 1 ? "" : "s"}: ${missing.map((n) => `--var ${n}=...`).join(", ")}`);
+  }
+  const fill = (text: string) => text.replace(PLACEHOLDER, (_, name: string) => vars[name]);
+  return Object.fromEntries(
+    Object.entries(template).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value.map(fill) : typeof value === "string" ? fill(value) : value,
+    ]),
+  ) as TicketTemplate;
+}
+
+// ---------- attachments ----------
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  txt: "text/plain",
+  csv: "text/csv",
+  html: "text/html",
+  json: "application/json",
+  xml: "application/xml",
+  zip: "application/zip",
+  eml: "message/rfc822",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/** Content type guessed from a file name's extension; null when unknown. */
+export function contentTypeFor(name: string): string | null {
+  const ext = /\.([^.]+)$/.exec(name)?.[1]?.toLowerCase();
+  return (ext && CONTENT_TYPES[ext]) || null;
+}
+
+/**
+ * Every file on a case, oldest first: the case's own `coreFileReferences`,
+ * attachments of its activities, and call `recordings`.
+ */
+export function projectAttachments(
+  caseData: Record<string, unknown>,
+  activities: Record<string, unknown>[],
+): TicketAttachment[] {
+  const files: TicketAttachment[] = [];
+  for (const activity of [caseData, ...activities]) {
+    const eatyId = (activity.activityType as { eatyId?: number } | undefined)?.eatyId;
+    const refs: [TicketAttachment["kind"], unknown][] = [
+      ["attachment", activity.coreFileReferences],
+      ["recording", activity.recordings],
+    ];
+    for (const [kind, list] of refs) {
+      for (const ref of (list as Record<string, unknown>[] | undefined) ?? []) {
+        const cfreId = ref.cfreId as number | undefined;
+        if (cfreId === undefined) continue;
+        const name = (ref.name as string | undefined) ?? `file-${cfreId}`;
+        files.push({
+          cfreId,
+          name,
+          size: typeof ref.size === "number" ? ref.size : null,
+          contentType: (ref.contentType as string | undefined) ?? contentTypeFor(name),
+          kind,
+          eactId: (activity.eactId as number) ?? 0,
+          activityKind: activityKind(eatyId),
+          ts: (ref.creationTs as string | undefined) ?? (activity.creationTs as string) ?? "",
+        });
+      }
+    }
+  }
+  return files.sort((a, b) => new Date(a.ts || 0).getTime() - new Date(b.ts || 0).getTime());
+}
@@ -0,0 +1,256 @@
+/**
+ * Per-process record of the HTTP exchanges `ItxClient` makes.
+ *
+ * Every attempt (retries and the SSO endpoint lookup included) is counted for
+ * `meta.requests`. With `--debug`/`ITX_DEBUG` each one is also logged to
+ * stderr, and with `--trace-file` the full exchanges are kept and written as a
+ * HAR 1.2 log when the process exits. Auth params never leave this module
+ * unredacted.
+ */
+import { writeFileSync } from "node:fs";
+import { SECRET_FIELDS } from "./secrets.js";
+
+export const DEBUG_ENV = "ITX_DEBUG";
+
+const REDACTED = "***";
+const SECRET_PARAMS = new Set<string>(SECRET_FIELDS);
+/** Headers that can carry session state. */
+const SECRET_HEADERS = new Set(["authorization", "cookie", "set-cookie"]);
+
+/** One HTTP attempt as seen by the client. */
+export interface Exchange {
+  method: string;
+  url: string;
+  init: RequestInit;
+  /** Wall-clock start, for the HAR timeline. */
+  startedAt: Date;
+  /** `performance.now()` when the request was sent. */
+  start: number;
+  res?: Response;
+  failure?: unknown;
+}
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: -1;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: "";
+    headersSize: -1;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  /** Network failure or timeout when there was no response. */
+  _error?: string;
+}
+
+export interface Har {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+let settings: { debug?: boolean; traceFile?: string; creator: Har["log"]["creator"] } = {
+  creator: { name: "itx", version: "0.0.0" },
+};
+let startedAt = performance.now();
+let requests = 0;
+let entries: HarEntry[] = [];
+let exitHookInstalled = false;
+
+/** `ITX_DEBUG` is on unless unset, empty, `0` or `false`. */
+export function isDebugEnv(): boolean {
+  const value = process.env[DEBUG_ENV]?.trim().toLowerCase();
+  return Boolean(value) && value !== "0" && value !== "false";
+}
+
+function debugEnabled(): boolean {
+  return settings.debug ?? isDebugEnv();
+}
+
+/**
+ * Set up tracing for this command and restart the clock and counters.
+ * `debug` undefined falls back to `ITX_DEBUG`. A trace file is written on exit,
+ * including exits through `process.exit()` after an error.
+ */
+export function configureTracing(opts: {
+  debug?: boolean;
+  traceFile?: string;
+  creator?: Har["log"]["creator"];
+}): void {
+  settings = { ...settings, ...opts };
+  resetTracing();
+  if (settings.traceFile && !exitHookInstalled) {
+    exitHookInstalled = true;
+    process.on("exit", flushTraceFile);
+  }
+}
+
+/** Zero the counters and drop recorded entries (settings are kept). */
+export function resetTracing(): void {
+  startedAt = performance.now();
+  requests = 0;
+  entries = [];
+}
+
+/** Elapsed time and request count for the JSON envelope's `meta`. */
+export function traceMeta(): { durationMs: number; requests: number } {
+  return { durationMs: Math.round(performance.now() - startedAt), requests };
+}
+
+/** The exchanges recorded so far as a HAR log. */
+export function traceHar(): Har {
+  return { log: { version: "1.2", creator: settings.creator, entries } };
+}
+
+function flushTraceFile(): void {
+  if (!settings.traceFile) return;
+  try {
+    writeFileSync(settings.traceFile, JSON.stringify(traceHar(), null, 2) + "\n");
+  } catch (err) {
+    console.error(`Warning: could not write trace file ${settings.traceFile}: ${(err as Error).message}`);
+  }
+}
+
+/** `url` with tokenv2/rcntrl/ccntrl replaced by `***`. */
+export function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (SECRET_PARAMS.has(key)) parsed.searchParams.set(key, REDACTED);
+  }
+  // Keep the asterisks readable rather than percent-encoded.
+  return parsed.toString().replaceAll(encodeURIComponent(REDACTED), REDACTED);
+}
+
+function headerList(headers: HeadersInit | Headers | undefined): HarNameValue[] {
+  if (!headers) return [];
+  const list: HarNameValue[] = [];
+  new Headers(headers).forEach((value, name) => {
+    list.push({ name, value: SECRET_HEADERS.has(name) ? REDACTED : value });
+  });
+  return list;
+}
+
+function formatBytes(bytes: number | undefined): string {
+  if (bytes === undefined) return "? B";
+  if (bytes < 1024) return `${bytes} B`;
+  return `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+/** Bodies larger than this are logged and traced by size only. */
+const MAX_TRACED_BODY = 1024 * 1024;
+const TEXT_CONTENT_TYPE = /^text\/|[/+](json|xml)\b|javascript|x-www-form-urlencoded/i;
+
+/** Whether a body with this content-type is text rather than binary. */
+export function isTextContentType(type: string): boolean {
+  return TEXT_CONTENT_TYPE.test(type);
+}
+
+/**
+ * Response body as text without consuming the caller's copy; undefined if
+ * unreadable, binary (attachment and recording downloads) or over
+ * MAX_TRACED_BODY — those would be buffered twice just to be measured.
+ */
+async function peekBody(res: Response): Promise<string | undefined> {
+  if (typeof res.clone !== "function") return undefined;
+  const type = res.headers?.get("content-type") ?? "";
+  const length = Number(res.headers?.get("content-length"));
+  if (!isTextContentType(type) || length > MAX_TRACED_BODY) return undefined;
+  try {
+    return await res.clone().text();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Count one attempt and, when debugging or tracing, log/record it. Reading the
+ * body for its size happens on a clone, so the caller's response is untouched;
+ * for bodies {@link peekBody} skips, the size comes from `content-length`.
+ */
+export async function recordExchange(x: Exchange): Promise<void> {
+  requests++;
+  const debug = debugEnabled();
+  if (!debug && !settings.traceFile) return;
+
+  const text = x.res ? await peekBody(x.res) : undefined;
+  const lengthHeader = x.res?.headers?.get("content-length");
+  const bytes = text !== undefined
+    ? Buffer.byteLength(text)
+    : lengthHeader ? Number(lengthHeader) : undefined;
+  const time = Math.round(performance.now() - x.start);
+  const url = redactUrl(x.url);
+  const error = x.failure
+    ? (x.failure as Error).name === "TimeoutError"
+      ? "timeout"
+      : ((x.failure as { cause?: { code?: string } }).cause?.code ?? (x.failure as Error).message)
+    : undefined;
+
+  if (debug) {
+    const outcome = x.res ? `${x.res.status}` : `failed (${error})`;
+    console.error(`[itx] ${x.method} ${url} ${outcome} ${time}ms ${formatBytes(bytes)}`);
+  }
+
+  if (!settings.traceFile) return;
+  const requestBody = typeof x.init.body === "string" ? x.init.body : undefined;
+  const parsed = new URL(url);
+  entries.push({
+    startedDateTime: x.startedAt.toISOString(),
+    time,
+    request: {
+      method: x.method,
+      url,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: headerList(x.init.headers),
+      queryString: [...parsed.searchParams].map(([name, value]) => ({ name, value })),
+      ...(requestBody !== undefined
+        ? { postData: { mimeType: "application/json", text: requestBody } }
+        : {}),
+      headersSize: -1,
+      bodySize: requestBody !== undefined ? Buffer.byteLength(requestBody) : 0,
+    },
+    response: {
+      status: x.res?.status ?? 0,
+      statusText: x.res?.statusText ?? "",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: headerList(x.res?.headers),
+      content: {
+        size: bytes ?? -1,
+        mimeType: x.res?.headers?.get("content-type") ?? "",
+        ...(text !== undefined ? { text } : {}),
+      },
+      redirectURL: "",
+      headersSize: -1,
+      bodySize: bytes ?? -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: time, receive: 0 },
+    ...(error !== undefined ? { _error: error } : {}),
+  });
+}
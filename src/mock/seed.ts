@@ -0,0 +1,305 @@
+/**
+ * Seeded dataset for the mock ITX server.
+ *
+ * Shapes follow what the live API returns for the fields the CLI reads —
+ * nothing more. `createSeed()` returns a fresh, mutable copy so every server
+ * instance (and every test) starts from the same state.
+ */
+import { ACTIVITY_TYPES, LINK_TYPES, ROLES } from "../lib/activities.js";
+import { ENTITY_TYPE, ESTP, EXT_TYPE } from "../lib/entity.js";
+
+type Json = Record<string, unknown>;
+
+export interface MockData {
+  activeUserId: number;
+  users: Json[];
+  statuses: Json[];
+  priorities: Json[];
+  categories: Json[];
+  entities: Json[];
+  /** Every activity, cases included (a case is an activity with eatyId 15). */
+  activities: Json[];
+  /** HTML bodies for email activities, by eactId. */
+  emailContent: Record<number, string>;
+  /** Uploaded files: cfreId, name, size and base64 `data`. */
+  files: Json[];
+}
+
+/** API key accepted by the mock server. */
+export const MOCK_API_KEY = "?tokenv2=mock-token&rcntrl=mock-rc&ccntrl=mock-cc";
+
+/**
+ * Filler corporate customers seeded ahead of the "far" one, so lookups that
+ * scan (orgNo, HubSpot id) have to page past the 1000-row server cap.
+ */
+export const FILLER_CUSTOMERS = 1000;
+
+/** Customer only reachable on the second page of an entity scan. */
+export const FAR_CUSTOMER = { emenId: 9999, seqNo: 19999, orgNo: "999888777" } as const;
+
+const name = (text: string) => ({ defaultText: text });
+
+/** A stored file and the `coreFileReferences` entry that points at it. */
+function storedFile(cfreId: number, fileName: string, contentType: string, content: string) {
+  const ref = { cfreId, name: fileName, size: Buffer.byteLength(content), contentType };
+  return { ref, file: { ...ref, data: Buffer.from(content).toString("base64") } };
+}
+
+function customerEntity(emenId: number, seqNo: number, name1: string, extra: Json = {}): Json {
+  return {
+    emenId,
+    name1,
+    name2: null,
+    entityType: ENTITY_TYPE.CORPORATE,
+    active: true,
+    extensions: [
+      {
+        eeexId: emenId * 10,
+        extType: EXT_TYPE.CUSTOMER,
+        seqNo,
+        active: true,
+        thirdPartySystemEntityExtList: [],
+        extensionLinks: [],
+      },
+    ],
+    emails: [],
+    numbers: [],
+    addresses: [],
+    ...extra,
+  };
+}
+
+export function createSeed(): MockData {
+  const users = [
+    { userId: 7, firstName: "Alice", lastName: "Smith", email: "alice@itx.test", active: 1 },
+    { userId: 8, firstName: "Bob", lastName: "Jones", email: "bob@itx.test", active: 1 },
+    { userId: 9, firstName: "Carol", lastName: "White", email: "carol@itx.test", active: 0 },
+  ];
+
+  const wrightCustomerExt = {
+    eeexId: 900,
+    extType: EXT_TYPE.CUSTOMER,
+    seqNo: 10058,
+    active: true,
+    thirdPartySystemEntityExtList: [
+      { id: "56610569434", thirdPartySystem: { estpId: ESTP.HUBSPOT_CUSTOMER } },
+    ],
+    extensionLinks: [{ from: { eeexId: 8001 }, to: { eeexId: 900 }, type: 10 }],
+  };
+  const wright = {
+    emenId: 500,
+    name1: "Wright Electrical Ltd",
+    name2: null,
+    entityType: ENTITY_TYPE.CORPORATE,
+    entityId: "912345678",
+    active: true,
+    extensions: [wrightCustomerExt],
+    emails: [{ emailType: 1, email: "office@wright.test" }],
+    numbers: [{ numberType: 2, number: "+4412345678" }],
+    addresses: [{ addressType: 1, line1: "1 High St", postalCode: "LS1 1AA", postalCity: "Leeds" }],
+  };
+  const nordic = {
+    emenId: 600,
+    name1: "Nordic Pumps AS",
+    name2: null,
+    entityType: ENTITY_TYPE.CORPORATE,
+    entityId: "987654321",
+    active: true,
+    extensions: [
+      {
+        eeexId: 950,
+        extType: EXT_TYPE.PROSPECT,
+        seqNo: 20100,
+        active: true,
+        thirdPartySystemEntityExtList: [
+          { id: "31337000", thirdPartySystem: { estpId: ESTP.HUBSPOT_CUSTOMER } },
+        ],
+        extensionLinks: [{ from: { eeexId: 8002 }, to: { eeexId: 950 }, type: 10 }],
+      },
+    ],
+    emails: [{ emailType: 1, email: "post@nordicpumps.test" }],
+    numbers: [],
+    addresses: [],
+  };
+  const jane = {
+    emenId: 7001,
+    name1: "Jane",
+    name2: "Wright",
+    entityType: ENTITY_TYPE.PRIVATE,
+    active: true,
+    extensions: [
+      {
+        eeexId: 8001,
+        extType: EXT_TYPE.CONTACT,
+        title: "CFO",
+        active: true,
+        extensionLinks: [{ from: { eeexId: 8001 }, to: { eeexId: 900 }, type: 10 }],
+      },
+    ],
+    emails: [{ emailType: 1, email: "jane@wright.test" }],
+    numbers: [{ numberType: 3, number: "+447700900123" }],
+    addresses: [],
+  };
+  const kari = {
+    emenId: 7002,
+    name1: "Kari",
+    name2: "Nordmann",
+    entityType: ENTITY_TYPE.PRIVATE,
+    active: true,
+    extensions: [
+      {
+        eeexId: 8002,
+        extType: EXT_TYPE.CONTACT,
+        title: "CEO",
+        active: true,
+        extensionLinks: [{ from: { eeexId: 8002 }, to: { eeexId: 950 }, type: 10 }],
+      },
+    ],
+    emails: [{ emailType: 1, email: "kari@nordicpumps.test" }],
+    numbers: [],
+    addresses: [],
+  };
+
+  const fillers = Array.from({ length: FILLER_CUSTOMERS }, (_, i) =>
+    customerEntity(10_000 + i, 30_000 + i, `Filler Customer ${String(i + 1).padStart(4, "0")}`),
+  );
+  const far = customerEntity(FAR_CUSTOMER.emenId, FAR_CUSTOMER.seqNo, "Faraway Holdings", {
+    entityId: FAR_CUSTOMER.orgNo,
+  });
+
+  const wrightMember = {
+    role: ROLES.CONTACT_PERSON,
+    anon: false,
+    entityExtension: {
+      eeexId: 900,
+      seqNo: 10058,
+      extType: EXT_TYPE.CUSTOMER,
+      entity: { emenId: 500, name1: "Wright Electrical Ltd" },
+    },
+  };
+  const user = (userId: number) => {
+    const u = users.find((x) => x.userId === userId)!;
+    return { userId, firstName: u.firstName, lastName: u.lastName };
+  };
+
+  const photo = storedFile(3001, "breaker-panel.jpg", "image/jpeg", "JPEG breaker panel photo");
+  const recording = storedFile(3002, "call-2026-04-01.mp3", "audio/mpeg", "ID3 call recording");
+
+  const activities: Json[] = [
+    {
+      eactId: 420,
+      seqNo: 42,
+      description: "Server room power outage",
+      activityType: { eatyId: ACTIVITY_TYPES.TICKET },
+      emsStatus: { emstId: 1, name: name("Open") },
+      priority: { empriId: 11 },
+      category: { emcaId: 3 },
+      creationTs: "2026-04-01T08:00:00Z",
+      updateTs: "2026-04-02T09:30:00Z",
+      members: [
+        { role: ROLES.ASSIGNED_USER, user: user(7) },
+        { role: ROLES.CASE_FOLLOWER, user: user(8) },
+        wrightMember,
+      ],
+      links: [
+        { type: LINK_TYPES.CASE, from: { eactId: 1001 }, to: { eactId: 420 } },
+        { type: LINK_TYPES.CASE, from: { eactId: 1002 }, to: { eactId: 420 } },
+      ],
+      texts: [
+        {
+          creationTs: "2026-04-02T09:30:00Z",
+          creator: { firstName: "Alice", lastName: "Smith" },
+          text: "<p>Electrician booked for Thursday.</p>",
+        },
+      ],
+    },
+    {
+      eactId: 430,
+      seqNo: 43,
+      description: "Invoice copy requested",
+      activityType: { eatyId: ACTIVITY_TYPES.TICKET },
+      emsStatus: { emstId: 2, name: name("Closed") },
+      priority: { empriId: 10 },
+      category: { emcaId: 4 },
+      creationTs: "2026-03-10T10:00:00Z",
+      updateTs: "2026-03-11T10:00:00Z",
+      members: [{ role: ROLES.ASSIGNED_USER, user: user(8) }, wrightMember],
+      links: [{ type: LINK_TYPES.CASE, from: { eactId: 1010 }, to: { eactId: 430 } }],
+      texts: [],
+    },
+    {
+      eactId: 1001,
+      activityType: { eatyId: ACTIVITY_TYPES.EMAIL },
+      direction: 2,
+      creationTs: "2026-04-01T07:55:00Z",
+      subject: "Power is out in the server room",
+      fromMail: "jane@wright.test",
+      toMail: "support@itx.test",
+      members: [wrightMember],
+      coreFileReferences: [photo.ref],
+    },
+    {
+      eactId: 1002,
+      activityType: { eatyId: ACTIVITY_TYPES.CALL },
+      direction: 1,
+      creationTs: "2026-04-01T09:00:00Z",
+      startTs: "2026-04-01T09:00:00Z",
+      endTs: "2026-04-01T09:04:30Z",
+      members: [wrightMember],
+      recordings: [recording.ref],
+    },
+    {
+      eactId: 1003,
+      activityType: { eatyId: ACTIVITY_TYPES.SALE },
+      creationTs: "2026-03-20T12:00:00Z",
+      value: 1250.5,
+      saleProbability: 40,
+      saleStep: { name: "Proposal" },
+      members: [wrightMember],
+    },
+    {
+      eactId: 1010,
+      activityType: { eatyId: ACTIVITY_TYPES.EMAIL_CONVERSATION },
+      creationTs: "2026-03-10T09:55:00Z",
+      subject: "Copy of invoice 2026-118",
+      members: [wrightMember],
+    },
+    {
+      eactId: 1011,
+      activityType: { eatyId: ACTIVITY_TYPES.EMAIL },
+      direction: 2,
+      creationTs: "2026-03-10T09:55:00Z",
+      subject: "Copy of invoice 2026-118",
+      fromMail: "accounts@wright.test",
+      toMail: "billing@itx.test",
+      members: [wrightMember],
+      links: [{ type: LINK_TYPES.CONVERSATION, from: { eactId: 1011 }, to: { eactId: 1010 } }],
+    },
+  ];
+
+  return {
+    activeUserId: 7,
+    users,
+    statuses: [
+      { emstId: 1, internalStatus: 1, sort: 1, name: name("Open") },
+      { emstId: 5, internalStatus: 7, sort: 2, name: name("In progress") },
+      { emstId: 2, internalStatus: 3, sort: 3, name: name("Closed") },
+    ],
+    priorities: [
+      { empriId: 11, sort: 1, name: name("Critical") },
+      { empriId: 10, sort: 2, name: name("Normal") },
+      { empriId: 12, sort: 3, name: name("Low") },
+    ],
+    categories: [
+      { emcaId: 3, name: name("Support") },
+      { emcaId: 4, name: name("Billing"), parent: { emcaId: 3 } },
+    ],
+    entities: [wright, nordic, jane, kari, ...fillers, far],
+    activities,
+    emailContent: {
+      1001: "<p>Hi,</p><p>The power is out in our server room since 07:30.</p><p>Jane</p>",
+      1011: "<p>Hello,</p><p>Could you send us a copy of invoice 2026-118?</p><p>Accounts</p>",
+    },
+    files: [photo.file, recording.file],
+  };
+}
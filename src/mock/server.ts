@@ -0,0 +1,492 @@
+/**
+ * A small in-memory stand-in for the ITX API, for local development and the
+ * integration suite.
+ *
+ *   npm run mock-server              # prints the URL and a login command
+ *
+ * It speaks just enough of ITX for the CLI: endpoint discovery, users,
+ * entity search (with limitFrom/limitTo paging and the 1000-row cap), cases,
+ * activities (including sent emails), file uploads, comments and refdata. Every request must carry the tokens from
+ * {@link MOCK_API_KEY}; anything else gets a 401. `failNext()` injects
+ * failures so retry and error paths can be exercised end to end.
+ */
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { pathToFileURL } from "node:url";
+import { ACTIVITY_TYPES, LINK_TYPES } from "../lib/activities.js";
+import { createSeed, MOCK_API_KEY, type MockData } from "./seed.js";
+
+type Json = Record<string, unknown>;
+
+/** Server cap on limitTo, as on the live API. */
+const MAX_PAGE_SIZE = 1000;
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: Json;
+}
+
+interface MockReply {
+  status?: number;
+  body?: unknown;
+  /** Sent as text/html instead of JSON. */
+  html?: string;
+  /** Raw file bytes, sent with their own content type. */
+  file?: { data: Buffer; contentType: string };
+  headers?: Record<string, string>;
+}
+
+export interface InjectedFailure {
+  status: number;
+  body?: string;
+  headers?: Record<string, string>;
+  /** How many matching requests fail before the route works again (default 1). */
+  times?: number;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function page<T>(rows: T[], query: URLSearchParams): T[] {
+  const from = Number(query.get("limitFrom") ?? 0);
+  const size = Math.min(Number(query.get("limitTo") ?? 50), MAX_PAGE_SIZE);
+  return rows.slice(from, from + size);
+}
+
+function requireNumber(query: URLSearchParams, key: string): number {
+  const value = Number(query.get(key));
+  if (!query.has(key) || !Number.isFinite(value)) throw new HttpError(400, `Missing ${key}`);
+  return value;
+}
+
+function extensionsOf(entity: Json): Json[] {
+  return (entity.extensions as Json[] | undefined) ?? [];
+}
+
+function memberEmenIds(activity: Json): number[] {
+  return ((activity.members as Json[] | undefined) ?? [])
+    .map((m) => (m.entityExtension as { entity?: { emenId?: number } } | undefined)?.entity?.emenId)
+    .filter((id): id is number => id !== undefined);
+}
+
+export class MockItxServer {
+  readonly data: MockData;
+  /** Every request received, in order — for asserting on call patterns. */
+  readonly requests: { method: string; path: string }[] = [];
+  private readonly server: Server;
+  private readonly failures = new Map<string, InjectedFailure & { times: number }>();
+  private readonly tokens: URLSearchParams;
+  private baseUrl = "";
+
+  constructor(data: MockData = createSeed()) {
+    this.data = data;
+    this.tokens = new URLSearchParams(MOCK_API_KEY.slice(1));
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        res.writeHead(500, { "content-type": "text/plain" });
+        res.end(err instanceof Error ? err.message : String(err));
+      });
+    });
+  }
+
+  /** Start listening (port 0 picks a free one); resolves to the base URL. */
+  async listen(port = 0, host = "127.0.0.1"): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(port, host, resolve));
+    const { port: bound } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://${host}:${bound}`;
+    return this.baseUrl;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  /** Make the next `times` requests to `path` fail with `status`. */
+  failNext(path: string, failure: InjectedFailure): void {
+    this.failures.set(path, { ...failure, times: failure.times ?? 1 });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", this.baseUrl);
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks).toString("utf8");
+    const request: MockRequest = {
+      method: req.method ?? "GET",
+      path: url.pathname,
+      query: url.searchParams,
+      body: raw ? (JSON.parse(raw) as Json) : {},
+    };
+    this.requests.push({ method: request.method, path: request.path });
+
+    const failure = this.failures.get(request.path);
+    if (failure) {
+      if (--failure.times <= 0) this.failures.delete(request.path);
+      res.writeHead(failure.status, { "content-type": "text/plain", ...failure.headers });
+      res.end(failure.body ?? "");
+      return;
+    }
+
+    let reply: MockReply;
+    try {
+      this.authorize(request.query);
+      reply = this.route(request);
+    } catch (err) {
+      if (!(err instanceof HttpError)) throw err;
+      reply = { status: err.status, body: { message: err.message } };
+    }
+
+    if (reply.file) {
+      res.writeHead(reply.status ?? 200, { "content-type": reply.file.contentType, ...reply.headers });
+      res.end(reply.file.data);
+      return;
+    }
+    if (reply.html !== undefined) {
+      res.writeHead(reply.status ?? 200, { "content-type": "text/html", ...reply.headers });
+      res.end(reply.html);
+      return;
+    }
+    res.writeHead(reply.status ?? 200, { "content-type": "application/json", ...reply.headers });
+    res.end(JSON.stringify(reply.body ?? null));
+  }
+
+  private authorize(query: URLSearchParams): void {
+    for (const [key, value] of this.tokens) {
+      if (query.get(key) !== value) throw new HttpError(401, "Invalid or expired token");
+    }
+  }
+
+  private route(req: MockRequest): MockReply {
+    const key = `${req.method} ${req.path}`;
+    switch (key) {
+      case "GET /rest/api/state":
+        return { body: { endpoint: this.baseUrl } };
+      case "GET /rest/core/activeuser":
+        return { body: this.data.users.find((u) => u.userId === this.data.activeUserId) };
+      case "POST /rest/core/users/search":
+        return { body: this.data.users };
+      case "GET /rest/itxems/statuses":
+        return { body: this.data.statuses };
+      case "GET /rest/itxems/priorities":
+        return { body: this.data.priorities };
+      case "GET /rest/itxems/categories":
+        return { body: this.data.categories };
+      case "POST /rest/itxems/entities/search":
+        return { body: page(this.searchEntities(req.body), req.query) };
+      case "GET /rest/itxems/entity":
+        return { body: this.entity(requireNumber(req.query, "emenId")) };
+      case "POST /rest/itxems/entity":
+        return { body: this.createEntity(req.body) };
+      case "PUT /rest/itxems/entity":
+        return { body: this.updateEntity(req.body) };
+      case "GET /rest/itxems/activities": {
+        const emenId = requireNumber(req.query, "emenId");
+        return { body: this.data.activities.filter((a) => memberEmenIds(a).includes(emenId)) };
+      }
+      case "POST /rest/itxems/activities":
+        return { body: this.createActivity(req.body) };
+      case "POST /rest/itxems/activities/search":
+        return { body: this.searchActivities(req.body) };
+      case "GET /rest/itxems/emailcontent": {
+        const html = this.data.emailContent[requireNumber(req.query, "eactId")];
+        if (html === undefined) throw new HttpError(404, "No email content");
+        return { html };
+      }
+      case "GET /rest/itxems/cases": {
+        const seqNo = requireNumber(req.query, "seqNo");
+        return { body: this.cases().filter((c) => c.seqNo === seqNo).map((c) => this.expandCase(c)) };
+      }
+      case "POST /rest/itxems/cases":
+        return { body: this.createCase(req.body) };
+      case "PUT /rest/itxems/cases":
+        return { body: this.updateCase(req.body) };
+      case "POST /rest/itxems/cases/search": {
+        const eactIds = req.body.eactIds as number[] | undefined;
+        const rows = this.cases().filter((c) => !eactIds || eactIds.includes(c.eactId as number));
+        return { body: page(rows.map((c) => this.expandCase(c)), req.query) };
+      }
+      case "POST /rest/itxems/activitytexts":
+        return { body: this.addText(req.body) };
+      case "POST /rest/core/files":
+        return { body: this.uploadFile(req.body) };
+      case "GET /rest/core/files": {
+        const file = this.file(requireNumber(req.query, "cfreId"));
+        const contentType = (file.contentType as string | undefined) ?? "application/octet-stream";
+        return { file: { data: Buffer.from(file.data as string, "base64"), contentType } };
+      }
+      default:
+        throw new HttpError(404, `No route for ${key}`);
+    }
+  }
+
+  private cases(): Json[] {
+    return this.data.activities.filter(
+      (a) => (a.activityType as { eatyId?: number }).eatyId === ACTIVITY_TYPES.TICKET,
+    );
+  }
+
+  /**
+   * A case as ITX returns it: writes only carry ids, but reads embed the
+   * status/priority/category names, member user names and the entity behind
+   * a contact-person member.
+   */
+  private expandCase(c: Json): Json {
+    const named = (ref: Json | undefined, list: Json[], key: string) => {
+      const match = list.find((r) => r[key] === ref?.[key]);
+      return ref && match ? { ...ref, name: match.name } : ref;
+    };
+    const members = ((c.members as Json[] | undefined) ?? []).map((m) => {
+      const userId = (m.user as { userId?: number } | undefined)?.userId;
+      const u = this.data.users.find((x) => x.userId === userId);
+      if (u) return { ...m, user: { userId, firstName: u.firstName, lastName: u.lastName } };
+      const eeexId = (m.entityExtension as { eeexId?: number } | undefined)?.eeexId;
+      const entity = this.data.entities.find((e) => extensionsOf(e).some((x) => x.eeexId === eeexId));
+      const ext = entity ? extensionsOf(entity).find((x) => x.eeexId === eeexId) : undefined;
+      if (!entity || !ext) return m;
+      return {
+        anon: false,
+        ...m,
+        entityExtension: {
+          eeexId,
+          seqNo: ext.seqNo,
+          extType: ext.extType,
+          entity: { emenId: entity.emenId, name1: entity.name1, name2: entity.name2 },
+        },
+      };
+    });
+    return {
+      ...c,
+      emsStatus: named(c.emsStatus as Json | undefined, this.data.statuses, "emstId"),
+      priority: named(c.priority as Json | undefined, this.data.priorities, "empriId"),
+      category: named(c.category as Json | undefined, this.data.categories, "emcaId"),
+      members,
+    };
+  }
+
+  private entity(emenId: number): Json {
+    const entity = this.data.entities.find((e) => e.emenId === emenId);
+    if (!entity) throw new HttpError(404, `Entity ${emenId} not found`);
+    return entity;
+  }
+
+  /** Give extensions without an eeexId a fresh one and the next seqNo of their type. */
+  private assignExtensionIds(extensions: Json[]): Json[] {
+    const allExts = this.data.entities.flatMap(extensionsOf);
+    let eeexId = Math.max(0, ...allExts.map((x) => (x.eeexId as number) ?? 0));
+    const seqNos = new Map<unknown, number>();
+    return extensions.map((x) => {
+      if (x.eeexId) return x;
+      const sameType = allExts.filter((y) => y.extType === x.extType);
+      const seqNo =
+        (seqNos.get(x.extType) ?? Math.max(0, ...sameType.map((y) => (y.seqNo as number) ?? 0))) + 1;
+      seqNos.set(x.extType, seqNo);
+      return { extensionLinks: [], ...x, eeexId: ++eeexId, seqNo };
+    });
+  }
+
+  /** New entity with server-assigned emenId, eeexIds and per-type seqNos. */
+  private createEntity(body: Json): Json {
+    const created: Json = {
+      ...body,
+      emenId: Math.max(0, ...this.data.entities.map((e) => e.emenId as number)) + 1,
+      extensions: this.assignExtensionIds(extensionsOf(body)),
+    };
+    this.data.entities.push(created);
+    return created;
+  }
+
+  /**
+   * Overwrite an entity (keyed by the body's emenId) the way PUT does. New
+   * extensions get ids as on create.
+   */
+  private updateEntity(body: Json): Json {
+    const existing = this.entity(Number(body.emenId));
+    const updated: Json = {
+      ...existing,
+      ...body,
+      emenId: existing.emenId,
+      extensions: this.assignExtensionIds(extensionsOf(body.extensions ? body : existing)),
+    };
+    this.data.entities[this.data.entities.indexOf(existing)] = updated;
+    return updated;
+  }
+
+  /** The filters the live API honours — see EntityFilter in lib/client.ts. */
+  private searchEntities(filter: Json): Json[] {
+    const names = (filter.names as string[] | undefined)?.map((n) => n.toLowerCase());
+    const exactNames = filter.exactNames as string[] | undefined;
+    const emenIds = filter.emenIds as number[] | undefined;
+    const entityTypes = filter.entityTypes as number[] | undefined;
+    const extensionTypes = filter.extensionTypes as number[] | undefined;
+    const seqNos = (filter.extensionSeqNoFilters as { seqNo: number }[] | undefined)?.map((f) => f.seqNo);
+
+    return this.data.entities.filter((e) => {
+      const fullName = [e.name1, e.name2].filter(Boolean).join(" ");
+      const exts = extensionsOf(e);
+      if (names && !names.some((n) => fullName.toLowerCase().includes(n))) return false;
+      if (exactNames && !exactNames.includes(fullName)) return false;
+      if (emenIds && !emenIds.includes(e.emenId as number)) return false;
+      if (entityTypes && !entityTypes.includes(e.entityType as number)) return false;
+      if (extensionTypes && !exts.some((x) => extensionTypes.includes(x.extType as number))) return false;
+      if (seqNos && !exts.some((x) => seqNos.includes(x.seqNo as number))) return false;
+      if (filter.active === true && e.active === false) return false;
+      return true;
+    });
+  }
+
+  private searchActivities(filter: Json): Json[] {
+    const eactIds = filter.eactIds as number[] | undefined;
+    const linkFilters = filter.activityLinkFilters as
+      | { eactIds: number[]; linkTypes: number[] }[]
+      | undefined;
+    return this.data.activities.filter((a) => {
+      if (eactIds && !eactIds.includes(a.eactId as number)) return false;
+      if (linkFilters) {
+        // Emails FROM a conversation: linked to it with a CONVERSATION link.
+        const links = (a.links as { type: number; to?: { eactId?: number } }[] | undefined) ?? [];
+        return linkFilters.some((f) =>
+          links.some(
+            (l) =>
+              (f.linkTypes ?? [LINK_TYPES.CONVERSATION]).includes(l.type) &&
+              f.eactIds.includes(l.to?.eactId as number),
+          ),
+        );
+      }
+      return true;
+    });
+  }
+
+  private nextId(field: "eactId" | "seqNo"): number {
+    return Math.max(0, ...this.data.activities.map((a) => (a[field] as number | undefined) ?? 0)) + 1;
+  }
+
+  private createCase(body: Json): Json {
+    const now = new Date().toISOString();
+    const created: Json = {
+      priority: { empriId: 10 },
+      category: { emcaId: 3 },
+      members: [],
+      links: [],
+      texts: [],
+      ...body,
+      eactId: this.nextId("eactId"),
+      seqNo: this.nextId("seqNo"),
+      activityType: { eatyId: ACTIVITY_TYPES.TICKET },
+      emsStatus: body.emsStatus ?? { emstId: 1 },
+      creationTs: now,
+      updateTs: now,
+    };
+    this.data.activities.push(created);
+    return created;
+  }
+
+  private updateCase(body: Json): Json {
+    const existing = this.cases().find((c) => c.seqNo === body.seqNo);
+    if (!existing) throw new HttpError(404, `Case ${String(body.seqNo)} not found`);
+    Object.assign(existing, body, { updateTs: new Date().toISOString() });
+    if (body.coreFileReferences) existing.coreFileReferences = this.fileRefs(body.coreFileReferences);
+    return existing;
+  }
+
+  /**
+   * New activity. `emailContent` becomes the email body, attachments get the
+   * uploaded file's name and size, and a CASE link is mirrored onto the case
+   * so it shows up in the case's `links`.
+   */
+  private createActivity(body: Json): Json {
+    const { emailContent, ...rest } = body;
+    const eactId = this.nextId("eactId");
+    const links = ((body.links as Json[] | undefined) ?? []).map((l): Json => ({ ...l, from: { eactId } }));
+    const created: Json = {
+      ...rest,
+      eactId,
+      links,
+      coreFileReferences: this.fileRefs(body.coreFileReferences),
+      creationTs: new Date().toISOString(),
+    };
+    for (const link of links) {
+      const caseId = (link.to as { eactId?: number } | undefined)?.eactId;
+      const target = this.cases().find((c) => c.eactId === caseId);
+      if (link.type === LINK_TYPES.CASE && target) {
+        target.links = [...((target.links as Json[] | undefined) ?? []), link];
+      }
+    }
+    if (typeof emailContent === "string") this.data.emailContent[eactId] = emailContent;
+    this.data.activities.push(created);
+    return created;
+  }
+
+  private uploadFile(body: Json): Json {
+    if (typeof body.name !== "string" || typeof body.data !== "string") {
+      throw new HttpError(400, "name and data are required");
+    }
+    const file: Json = {
+      cfreId: Math.max(3000, ...this.data.files.map((f) => f.cfreId as number)) + 1,
+      name: body.name,
+      size: Buffer.from(body.data, "base64").length,
+      ...(typeof body.contentType === "string" ? { contentType: body.contentType } : {}),
+      creationTs: new Date().toISOString(),
+      data: body.data,
+    };
+    this.data.files.push(file);
+    return this.fileRefs([file])[0];
+  }
+
+  private file(cfreId: number): Json {
+    const file = this.data.files.find((f) => f.cfreId === cfreId);
+    if (!file) throw new HttpError(404, `File ${cfreId} not found`);
+    return file;
+  }
+
+  /** `coreFileReferences` as reads return them: writes carry only the cfreId. */
+  private fileRefs(refs: unknown): Json[] {
+    return ((refs as { cfreId?: number }[] | undefined) ?? []).map((ref) => {
+      const { data: _data, ...meta } = this.file(Number(ref.cfreId));
+      return meta;
+    });
+  }
+
+  private addText(body: Json): Json {
+    const eactId = (body.activity as { eactId?: number } | undefined)?.eactId;
+    const target = this.data.activities.find((a) => a.eactId === eactId);
+    if (!target) throw new HttpError(404, `Activity ${String(eactId)} not found`);
+    const author = this.data.users.find((u) => u.userId === this.data.activeUserId)!;
+    const text: Json = {
+      eatxId: this.nextTextId(),
+      text: body.text,
+      ...(body.data ? { data: body.data } : {}),
+      creationTs: new Date().toISOString(),
+      creator: { firstName: author.firstName, lastName: author.lastName },
+    };
+    target.texts = [...((target.texts as Json[] | undefined) ?? []), text];
+    return text;
+  }
+
+  private nextTextId(): number {
+    const ids = this.data.activities.flatMap((a) =>
+      ((a.texts as Json[] | undefined) ?? []).map((t) => (t.eatxId as number | undefined) ?? 0),
+    );
+    return Math.max(5000, ...ids) + 1;
+  }
+}
+
+// `npm run mock-server [port]` — serve the seed until interrupted.
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  const server = new MockItxServer();
+  const url = await server.listen(Number(process.argv[2] ?? 0));
+  console.log(`Mock ITX listening on ${url}`);
+  console.log(`Log in with: itx login --profile mock --sso-endpoint ${url} --api-key '${MOCK_API_KEY}'`);
+}